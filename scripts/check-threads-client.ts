@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  getThreadsApiBaseUrl,
+  mapThreadsError,
+  ThreadsApiError,
+  ThreadsClient,
+  ThreadsErrorKind
+} from '../src/lib/threads-client';
+
+// ThreadsClient のコンテナ作成 → 待機 → 公開の流れとエラーの種別を、ローカルのモック Graph API で確認する
+// THREADS_API_BASE_URL をモックサーバーに向けるため、実際の Threads API は呼ばない
+// 実行: npm run check:threads
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown> | null;
+}
+
+// アクセストークンごとにモックの応答を切り替える
+const FAILING_TOKENS: Record<string, { status: number; body: unknown }> = {
+  'expired-token': { status: 401, body: { error: { message: 'Error validating access token', code: 190 } } },
+  'rate-limited-token': { status: 429, body: { error: { message: 'Application request limit reached', code: 4 } } },
+  'forbidden-token': { status: 403, body: { error: { message: 'Permission denied', code: 10 } } },
+  'invalid-token': { status: 400, body: { error: { message: 'Invalid parameter', error_user_msg: '投稿内容が不正です', code: 100, error_subcode: 2207001 } } },
+  'broken-token': { status: 502, body: null }
+};
+
+// 本文がこの文字列のコンテナは処理に失敗する
+const FAILING_CONTAINER_TEXT = 'fail-container';
+
+function startMockGraphApi() {
+  const requests: RecordedRequest[] = [];
+  const containers = new Map<string, { polls: number; fails: boolean }>();
+  let nextId = 1;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === null ? 'not json' : JSON.stringify(body));
+  };
+
+  const readBody = async (req: IncomingMessage): Promise<Record<string, unknown> | null> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) : null;
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = await readBody(req);
+    requests.push({ method: req.method || 'GET', path: url.pathname + url.search, authorization: req.headers.authorization, body });
+
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const failure = FAILING_TOKENS[token];
+    if (failure) {
+      send(res, failure.status, failure.body);
+      return;
+    }
+
+    const [, version, node, edge] = url.pathname.split('/');
+    if (version !== 'v1.0') {
+      send(res, 404, { error: { message: 'Unknown path', code: 803 } });
+      return;
+    }
+
+    // POST /{user}/threads: コンテナを作成
+    if (req.method === 'POST' && edge === 'threads') {
+      const id = `container-${nextId++}`;
+      containers.set(id, { polls: 0, fails: body?.text === FAILING_CONTAINER_TEXT });
+      send(res, 200, { id });
+      return;
+    }
+
+    // POST /{user}/threads_publish: コンテナを公開
+    if (req.method === 'POST' && edge === 'threads_publish') {
+      const containerId = String(body?.creation_id);
+      send(res, containers.has(containerId) ? 200 : 400, containers.has(containerId)
+        ? { id: `post-${containerId}` }
+        : { error: { message: 'Unknown creation_id', code: 100 } });
+      return;
+    }
+
+    // GET /{container}?fields=status,error_message: 1回目は処理中、2回目以降は完了（または失敗）
+    const container = containers.get(node);
+    if (req.method === 'GET' && container) {
+      container.polls++;
+      if (container.fails) {
+        send(res, 200, { status: 'ERROR', error_message: 'Media download failed' });
+      } else {
+        send(res, 200, { status: container.polls === 1 ? 'IN_PROGRESS' : 'FINISHED' });
+      }
+      return;
+    }
+
+    send(res, 404, { error: { message: 'Unknown path', code: 803 } });
+  });
+
+  return { server, requests };
+}
+
+async function expectThreadsError(promise: Promise<unknown>, kind: ThreadsErrorKind): Promise<ThreadsApiError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof ThreadsApiError, `ThreadsApiError が投げられるはずが ${error}`);
+    assert.equal(error.kind, kind);
+    return error;
+  }
+  assert.fail(`${kind} のエラーになるはずが成功した`);
+}
+
+async function main() {
+  const { server, requests } = startMockGraphApi();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  // 末尾のスラッシュは取り除かれる
+  process.env.THREADS_API_BASE_URL = `http://127.0.0.1:${port}/v1.0/`;
+
+  const client = (accessToken: string = 'valid-token') =>
+    new ThreadsClient({ accessToken, userId: 'user-1', pollIntervalMs: 10, pollTimeoutMs: 1000 });
+
+  const checks: [string, () => Promise<void>][] = [
+    ['THREADS_API_BASE_URL でモックサーバーに向けられる', async () => {
+      assert.equal(getThreadsApiBaseUrl(), `http://127.0.0.1:${port}/v1.0`);
+    }],
+
+    ['テキスト投稿はコンテナの完了を待ってから公開する', async () => {
+      requests.length = 0;
+      const result = await client().publishText('こんにちは', { replyToId: 'parent-1' });
+
+      assert.deepEqual(result, { containerId: 'container-1', threadsPostId: 'post-container-1' });
+      assert.deepEqual(requests.map(request => `${request.method} ${request.path}`), [
+        'POST /v1.0/user-1/threads',
+        'GET /v1.0/container-1?fields=status,error_message',
+        'GET /v1.0/container-1?fields=status,error_message',
+        'POST /v1.0/user-1/threads_publish'
+      ]);
+      assert.equal(requests[0].authorization, 'Bearer valid-token');
+      assert.deepEqual(requests[0].body, { media_type: 'TEXT', text: 'こんにちは', reply_to_id: 'parent-1' });
+      assert.deepEqual(requests[3].body, { creation_id: 'container-1' });
+    }],
+
+    ['2件以上のメディアはカルーセルとして公開する', async () => {
+      requests.length = 0;
+      const result = await client().publishWithMedia('写真', [
+        { mediaType: 'IMAGE', url: 'https://example.com/a.jpg' },
+        { mediaType: 'VIDEO', url: 'https://example.com/b.mp4' }
+      ]);
+
+      const created = requests.filter(request => request.path === '/v1.0/user-1/threads').map(request => request.body);
+      assert.deepEqual(created, [
+        { media_type: 'IMAGE', image_url: 'https://example.com/a.jpg', is_carousel_item: true },
+        { media_type: 'VIDEO', video_url: 'https://example.com/b.mp4', is_carousel_item: true },
+        { media_type: 'CAROUSEL', text: '写真', children: 'container-2,container-3' }
+      ]);
+      assert.equal(result.threadsPostId, 'post-container-4');
+    }],
+
+    ['コンテナの処理に失敗すると container_failed になり公開しない', async () => {
+      requests.length = 0;
+      const error = await expectThreadsError(client().publishText(FAILING_CONTAINER_TEXT), 'container_failed');
+
+      assert.match(error.message, /Media download failed/);
+      assert.equal(error.retryable, false);
+      assert.ok(!requests.some(request => request.path.endsWith('/threads_publish')));
+    }],
+
+    ['コンテナが時間内に完了しなければ timeout になる', async () => {
+      const slowClient = new ThreadsClient({ accessToken: 'valid-token', userId: 'user-1', pollIntervalMs: 50, pollTimeoutMs: 10 });
+      const error = await expectThreadsError(slowClient.publishText('遅い'), 'timeout');
+      assert.equal(error.retryable, true);
+    }],
+
+    ['HTTP エラーは Graph API のエラーコードから種別を判定する', async () => {
+      const auth = await expectThreadsError(client('expired-token').publishText('x'), 'auth');
+      assert.equal(auth.status, 401);
+      assert.equal(auth.code, 190);
+
+      const rateLimit = await expectThreadsError(client('rate-limited-token').publishText('x'), 'rate_limit');
+      assert.equal(rateLimit.retryable, true);
+
+      await expectThreadsError(client('forbidden-token').publishText('x'), 'permission');
+
+      const invalid = await expectThreadsError(client('invalid-token').publishText('x'), 'invalid_request');
+      assert.equal(invalid.message, 'Threads API Error: 投稿内容が不正です');
+      assert.equal(invalid.subcode, 2207001);
+
+      const server = await expectThreadsError(client('broken-token').publishText('x'), 'server');
+      assert.equal(server.message, 'Threads API Error: HTTP 502');
+    }],
+
+    ['接続できない場合は network になる', async () => {
+      const offline = new ThreadsClient({ accessToken: 'valid-token', baseUrl: 'http://127.0.0.1:1/v1.0' });
+      const error = await expectThreadsError(offline.publishText('x'), 'network');
+      assert.equal(error.retryable, true);
+    }],
+
+    ['mapThreadsError はエラーコードを HTTP ステータスより優先する', async () => {
+      assert.equal(mapThreadsError(400, { error: { code: 190 } }).kind, 'auth');
+      assert.equal(mapThreadsError(400, { error: { code: 613 } }).kind, 'rate_limit');
+      assert.equal(mapThreadsError(400, { error: { code: 200 } }).kind, 'permission');
+      assert.equal(mapThreadsError(400, { error: { code: 2 } }).kind, 'server');
+      assert.equal(mapThreadsError(503, null).kind, 'server');
+      assert.equal(mapThreadsError(404, null).kind, 'invalid_request');
+    }]
+  ];
+
+  let failed = 0;
+  for (const [name, check] of checks) {
+    try {
+      await check();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${name}`);
+      console.error(error);
+    }
+  }
+
+  server.close();
+
+  if (failed > 0) {
+    console.error(`${failed}/${checks.length} checks failed`);
+    process.exit(1);
+  }
+  console.log(`All ${checks.length} checks passed`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 
+// Admin log actions shown with their own label instead of the raw action name
+const LOG_ACTIVITY_LABELS: Record<string, { action: string; icon: string; color: string }> = {
+  scheduled_post_published: { action: '予約投稿公開', icon: 'file', color: 'green' },
+  scheduled_post_failed: { action: '予約投稿失敗', icon: 'file', color: 'red' },
+  token_budget_exceeded: { action: 'トークン予算超過', icon: 'zap', color: 'red' },
+  schedule_skipped: { action: 'スケジュール見送り', icon: 'calendar', color: 'yellow' },
+  schedule_budget_fallback: { action: '代替投稿で実行', icon: 'calendar', color: 'yellow' }
+};
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -90,6 +99,7 @@ export async function GET(request: NextRequest) {
     recentPosts.forEach(post => {
       const action = post.status === 'published' ? '投稿公開' : 
                      post.status === 'scheduled' ? '投稿予約' : 
+                     post.status === 'publishing' ? '予約投稿公開中' : 
                      post.status === 'failed' ? '投稿失敗' : '下書き作成';
       
       activities.push({
@@ -127,14 +137,16 @@ export async function GET(request: NextRequest) {
         parsedDetails = log.details || log.action;
       }
 
+      const label = LOG_ACTIVITY_LABELS[log.action];
+
       activities.push({
         id: `log-${log.id}`,
-        type: 'admin_action',
-        action: log.action,
+        type: label ? log.action : 'admin_action',
+        action: label?.action || log.action,
         details: parsedDetails,
         timestamp: log.createdAt,
-        icon: 'shield',
-        color: 'red'
+        icon: label?.icon || 'shield',
+        color: label?.color || 'red'
       });
     });
 
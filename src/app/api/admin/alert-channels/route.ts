@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { deliverAlert, getAlertChannelStatuses, getRecentAlertDeliveries } from '@/lib/alert-channels';
+import { ALERT_CHANNEL_LABELS, isAlertChannel } from '@/lib/alert-rules';
+
+// GET: 送信チャンネルの設定状況と直近の送信記録
+export async function GET() {
+  try {
+    const [channels, deliveries] = await Promise.all([
+      getAlertChannelStatuses(),
+      getRecentAlertDeliveries()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { channels, deliveries }
+    });
+
+  } catch (error) {
+    console.error('Alert channels fetch error:', error);
+    return NextResponse.json(
+      { error: '送信チャンネルの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: チャンネルにテスト送信 { channel }
+export async function POST(request: NextRequest) {
+  try {
+    const { channel } = await request.json();
+
+    if (!isAlertChannel(channel)) {
+      return NextResponse.json(
+        { error: `チャンネルは ${Object.keys(ALERT_CHANNEL_LABELS).join(', ')} のいずれかを指定してください` },
+        { status: 400 }
+      );
+    }
+
+    const result = await deliverAlert(channel, {
+      title: 'テストアラート',
+      message: `${ALERT_CHANNEL_LABELS[channel]}へのテスト送信です。このメッセージが届いていれば設定は正しく動作しています。`,
+      severity: 'info',
+      triggeredAt: new Date().toISOString(),
+      isTest: true
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'alert_test_sent',
+        details: JSON.stringify(result)
+      }
+    });
+
+    if (result.status !== 'success') {
+      return NextResponse.json(
+        {
+          error: result.status === 'skipped'
+            ? `${ALERT_CHANNEL_LABELS[channel]}は設定されていません: ${result.error}`
+            : `${ALERT_CHANNEL_LABELS[channel]}へのテスト送信に失敗しました（${result.attempts}回試行）: ${result.error}`,
+          data: result
+        },
+        { status: result.status === 'skipped' ? 409 : 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${ALERT_CHANNEL_LABELS[channel]}にテスト送信しました`
+    });
+
+  } catch (error) {
+    console.error('Alert test delivery error:', error);
+    return NextResponse.json(
+      { error: 'テスト送信に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
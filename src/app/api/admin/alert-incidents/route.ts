@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { acknowledgeIncident, AlertIncidentError, AlertIncidentStatus, listIncidents } from '@/lib/alert-incidents';
+
+const STATUS_FILTERS = ['open', 'firing', 'acknowledged', 'resolved', 'all'];
+
+// GET: インシデント一覧（タイムライン付き）
+// ?status=open（発火中・承認済み、既定）| firing | acknowledged | resolved | all
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'open';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    if (!STATUS_FILTERS.includes(status)) {
+      return NextResponse.json(
+        { error: `status は ${STATUS_FILTERS.join(', ')} のいずれかを指定してください` },
+        { status: 400 }
+      );
+    }
+
+    const incidents = await listIncidents({
+      status: status === 'all' ? undefined : status as AlertIncidentStatus | 'open',
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: incidents
+    });
+
+  } catch (error) {
+    console.error('Alert incidents fetch error:', error);
+    return NextResponse.json(
+      { error: 'インシデントの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: インシデントを承認 { incidentId, action: 'acknowledge', note? }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { incidentId, action, note } = await request.json();
+
+    if (!incidentId) {
+      return NextResponse.json(
+        { error: 'インシデントIDが必要です' },
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'acknowledge') {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const incident = await acknowledgeIncident(
+      incidentId,
+      typeof note === 'string' && note.trim() ? note.trim() : null
+    );
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'alert_incident_acknowledged',
+        details: JSON.stringify({
+          incidentId,
+          ruleId: incident.ruleId,
+          name: incident.ruleName,
+          note: incident.acknowledgeNote
+        })
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: incident,
+      message: 'インシデントを承認しました'
+    });
+
+  } catch (error) {
+    if (error instanceof AlertIncidentError) {
+      return NextResponse.json(
+        { error: error.kind === 'not_found' ? 'インシデントが見つかりません' : error.message },
+        { status: error.kind === 'not_found' ? 404 : 409 }
+      );
+    }
+
+    console.error('Alert incident update error:', error);
+    return NextResponse.json(
+      { error: 'インシデントの更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { aiEffectivenessAnalyzer } from '@/lib/ai-effectiveness';
+import { averageMilestones, buildPostTimeline, MAX_TIMELINE_POSTS, TIMELINE_MILESTONES } from '@/lib/engagement-timeline';
+
+// アカウント指定時・投稿分析で推移を表示する投稿数
+const RECENT_TIMELINE_POSTS = 20;
 
 // GET: 分析データの取得
 export async function GET(request: NextRequest) {
@@ -27,6 +32,9 @@ export async function GET(request: NextRequest) {
       
       case 'trends':
         return await getTrendAnalytics(startDate);
+
+      case 'post_timeline':
+        return await getPostTimelineAnalytics(searchParams, startDate);
       
       default:
         return NextResponse.json(
@@ -131,7 +139,7 @@ async function getOverviewAnalytics(startDate: Date) {
     prisma.aIGeneration.aggregate({
       where: { createdAt: { gte: startDate } },
       _count: { id: true },
-      _sum: { tokensUsed: true }
+      _sum: { tokensUsed: true, cost: true }
     })
   ]);
 
@@ -153,7 +161,8 @@ async function getOverviewAnalytics(startDate: Date) {
         totalGenerations: Number(aiGenerations._count.id) || 0,
         totalTokensUsed: Number(aiGenerations._sum.tokensUsed) || 0,
         averageTokensPerGeneration: aiGenerations._count.id ? 
-          Math.round((Number(aiGenerations._sum.tokensUsed) || 0) / aiGenerations._count.id) : 0
+          Math.round((Number(aiGenerations._sum.tokensUsed) || 0) / aiGenerations._count.id) : 0,
+        totalCost: Number(aiGenerations._sum.cost) || 0
       },
       period: `${Math.floor((Date.now() - startDate.getTime()) / (1000 * 60 * 60 * 24))}日間`
     }
@@ -166,7 +175,8 @@ async function getPostAnalytics(startDate: Date) {
     postsByStatus,
     postsByDay,
     topCategories,
-    performanceDistribution
+    performanceDistribution,
+    recentPosts
   ] = await Promise.all([
     // ステータス別投稿数
     prisma.post.groupBy({
@@ -220,16 +230,37 @@ async function getPostAnalytics(startDate: Date) {
       FROM Post 
       WHERE publishedAt >= ${startDate}
       GROUP BY performance_tier
-    `
+    `,
+
+    // 公開後の伸び（スナップショット付きの直近投稿）
+    prisma.post.findMany({
+      where: {
+        status: 'published',
+        publishedAt: { gte: startDate }
+      },
+      include: {
+        user: { select: { name: true, email: true } },
+        snapshots: { orderBy: { capturedAt: 'asc' } }
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: RECENT_TIMELINE_POSTS
+    })
   ]);
 
+  // 一覧では節目の値のみ返す（推移の詳細は post_timeline で取得）
+  const postGrowth = recentPosts.map(post => {
+    const { points, ...timeline } = buildPostTimeline({ ...post, publishedAt: post.publishedAt! }, post.snapshots);
+    return { ...timeline, snapshotCount: points.length };
+  });
+
   return NextResponse.json({
     success: true,
     data: {
       postsByStatus,
       postsByDay,
       topCategories,
-      performanceDistribution
+      performanceDistribution,
+      postGrowth
     }
   });
 }
@@ -296,7 +327,8 @@ async function getAIPerformanceAnalytics(startDate: Date) {
   const [
     aiVsManualPosts,
     aiGenerationTrends,
-    tokenEfficiency
+    tokenEfficiency,
+    variantPreferences
   ] = await Promise.all([
     // AI生成 vs 手動投稿パフォーマンス比較
     prisma.$queryRaw`
@@ -323,7 +355,8 @@ async function getAIPerformanceAnalytics(startDate: Date) {
         DATE(createdAt) as date,
         COUNT(*) as generations,
         SUM(tokensUsed) as totalTokens,
-        AVG(tokensUsed) as avgTokens
+        AVG(tokensUsed) as avgTokens,
+        SUM(cost) as totalCost
       FROM AIGeneration
       WHERE createdAt >= ${startDate}
       GROUP BY DATE(createdAt)
@@ -336,13 +369,17 @@ async function getAIPerformanceAnalytics(startDate: Date) {
         ag.model,
         COUNT(*) as generations,
         AVG(ag.tokensUsed) as avgTokens,
+        AVG(ag.cost) as avgCost,
         AVG(p.engagements) as avgEngagements,
         AVG(CAST(p.engagements AS REAL) / NULLIF(ag.tokensUsed, 0) * 1000) as engagementPerKToken
       FROM AIGeneration ag
       JOIN Post p ON p.userId = ag.userId AND DATE(p.publishedAt) = DATE(ag.createdAt)
       WHERE ag.createdAt >= ${startDate}
       GROUP BY ag.model
-    `
+    `,
+
+    // 複数候補からの選択傾向
+    aiEffectivenessAnalyzer.analyzeVariantPreferences(startDate)
   ]);
 
   return NextResponse.json({
@@ -350,7 +387,8 @@ async function getAIPerformanceAnalytics(startDate: Date) {
     data: {
       aiVsManualPosts,
       aiGenerationTrends,
-      tokenEfficiency
+      tokenEfficiency,
+      variantPreferences
     }
   });
 }
@@ -408,4 +446,77 @@ async function getTrendAnalytics(startDate: Date) {
       userGrowth
     }
   });
-}
\ No newline at end of file
+}
+
+// 投稿別のエンゲージメント推移（postId はカンマ区切りで複数指定、userId 指定時はそのアカウントの直近投稿）
+async function getPostTimelineAnalytics(searchParams: URLSearchParams, startDate: Date) {
+  const postIds = (searchParams.get('postId') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .slice(0, MAX_TIMELINE_POSTS);
+  const userId = searchParams.get('userId') || '';
+
+  if (postIds.length === 0 && !userId) {
+    return NextResponse.json(
+      { error: 'postId または userId を指定してください' },
+      { status: 400 }
+    );
+  }
+
+  const snapshotInclude = {
+    user: { select: { name: true, email: true } },
+    snapshots: { orderBy: { capturedAt: 'asc' as const } }
+  };
+
+  const posts = await prisma.post.findMany({
+    where: postIds.length > 0
+      ? { id: { in: postIds }, publishedAt: { not: null } }
+      : { userId, status: 'published', publishedAt: { gte: startDate } },
+    include: snapshotInclude,
+    orderBy: { publishedAt: 'desc' },
+    take: postIds.length > 0 ? undefined : RECENT_TIMELINE_POSTS
+  });
+
+  if (postIds.length > 0 && posts.length === 0) {
+    return NextResponse.json(
+      { error: '公開済みの投稿が見つかりません' },
+      { status: 404 }
+    );
+  }
+
+  const timelines = posts
+    .map(post => buildPostTimeline({ ...post, publishedAt: post.publishedAt! }, post.snapshots))
+    .sort((a, b) => postIds.indexOf(a.postId) - postIds.indexOf(b.postId));
+
+  // 投稿者ごとの平均的な伸び方（期間内に公開した投稿の平均）
+  const userIds = Array.from(new Set(posts.map(post => post.userId)));
+  const accountPosts = await prisma.post.findMany({
+    where: {
+      userId: { in: userIds },
+      status: 'published',
+      publishedAt: { gte: startDate }
+    },
+    include: snapshotInclude
+  });
+
+  const accounts = userIds.map(id => {
+    const ownPosts = accountPosts.filter(post => post.userId === id);
+    return {
+      userId: id,
+      user: posts.find(post => post.userId === id)?.user,
+      average: averageMilestones(
+        ownPosts.map(post => buildPostTimeline({ ...post, publishedAt: post.publishedAt! }, post.snapshots))
+      )
+    };
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      milestones: TIMELINE_MILESTONES,
+      posts: timelines,
+      accounts
+    }
+  });
+}
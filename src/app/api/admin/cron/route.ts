@@ -23,18 +23,7 @@ export async function POST(request: NextRequest) {
 
     console.log('🕐 Starting automated cron job execution...');
     
-    // Check if scheduler is already running to prevent concurrent execution
-    const schedulerStatus = scheduler.getStatus();
-    if (schedulerStatus.isRunning) {
-      console.log('⏸️ Scheduler already running, skipping execution');
-      return NextResponse.json({
-        success: true,
-        message: 'Scheduler already running',
-        skipped: true
-      });
-    }
-
-    // Execute schedules
+    // Execute schedules (the job queue leases each run, so concurrent triggers are safe)
     const results = await scheduler.executeSchedules();
     
     // Log the cron execution
@@ -88,7 +77,7 @@ export async function POST(request: NextRequest) {
 // GET endpoint for cron health check
 export async function GET() {
   try {
-    const status = scheduler.getStatus();
+    const status = await scheduler.getStatus();
     const upcomingSchedules = await prisma.schedule.count({
       where: {
         isActive: true,
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { randomBytes } from 'crypto';
 import { prisma } from '@/lib/prisma';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+import { recordAIGeneration, resolveGenerationUserId } from '@/lib/ai-usage';
+import { buildPostPrompt, getActivePromptTemplate } from '@/lib/ai-prompts';
+import { MAX_AI_VARIANTS } from '@/lib/ai-variants';
+import { LLMProviderError, ResolvedLLM, resolveLLM } from '@/lib/llm-provider';
+import { apiRateLimiter, TokenBudgetExceededError } from '@/lib/api-rate-limiter';
+import { createTokenBudgetExceededResponse } from '@/lib/rate-limit-middleware';
 
 export async function POST(request: NextRequest) {
   try {
-    const { topic, tone = 'casual', length = 'medium' } = await request.json();
+    const { topic, tone = 'casual', length = 'medium', provider, model, variants = 1, templateId, userId } = await request.json();
 
     if (!topic) {
       return NextResponse.json(
@@ -15,72 +19,119 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // トーンに応じたプロンプト調整
-    const tonePrompts = {
-      casual: '親しみやすく、カジュアルな',
-      professional: '専門的で、ビジネスライクな',
-      funny: 'ユーモアがあり、面白い',
-      inspirational: '感動的で、やる気を起こさせる'
-    };
-
-    // 長さに応じた指示
-    const lengthPrompts = {
-      short: '簡潔で短い（50文字以内）',
-      medium: '適度な長さ（100-200文字）',
-      long: '詳細で長い（300文字以内）'
-    };
+    const variantCount = Number(variants);
+    if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > MAX_AI_VARIANTS) {
+      return NextResponse.json(
+        { error: `候補数は1〜${MAX_AI_VARIANTS}の整数で指定してください` },
+        { status: 400 }
+      );
+    }
 
-    const prompt = `以下のトピックについて、${tonePrompts[tone as keyof typeof tonePrompts] || 'カジュアルな'}トーンで${lengthPrompts[length as keyof typeof lengthPrompts] || '適度な長さの'}Threads投稿を生成してください。
+    // プロバイダー・モデルはリクエストの指定がなければシステム設定から決める
+    let llm: ResolvedLLM;
+    try {
+      llm = await resolveLLM({ provider, model });
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        return NextResponse.json(
+          { error: '指定されたAIプロバイダーは利用できません', details: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
 
-トピック: ${topic}
+    // テンプレートを指定した場合はそのテンプレートからプロンプトを組み立て、版を生成履歴に記録する
+    const promptTemplate = templateId ? await getActivePromptTemplate(templateId) : null;
+    if (templateId && !promptTemplate) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトテンプレートが見つからないか、無効になっています' },
+        { status: 400 }
+      );
+    }
 
-要件:
-- Threadsに適した投稿形式
-- ハッシュタグを2-3個含める
-- 絵文字を適度に使用
-- 読みやすく魅力的な内容
-- 日本語で生成
+    // 生成する投稿のユーザーを指定した場合はそのユーザーの予算で確認し、生成履歴もそのユーザーで記録する
+    const generationUserId = await resolveGenerationUserId(userId);
+    if (!generationUserId) {
+      return NextResponse.json(
+        { error: 'ユーザーが見つかりません' },
+        { status: 400 }
+      );
+    }
 
-投稿内容のみを出力してください:`;
+    // LLM を呼び出す前にトークン予算を確認
+    await apiRateLimiter.enforceTokenBudget(generationUserId);
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-    const result = await model.generateContent(prompt);
-    const generatedText = result.response.text();
+    // 同じリクエストで生成した候補は同じバッチIDで記録し、どれが選ばれたかを比較できるようにする
+    const batchId = randomBytes(12).toString('hex');
+    const results = await Promise.all(
+      Array.from({ length: variantCount }, (_, index) => llm.provider.generate({
+        model: llm.model,
+        prompt: buildPostPrompt({ topic, tone, length, variantIndex: index, variantCount, template: promptTemplate }),
+        signal: request.signal
+      }))
+    );
 
-    // データベースに生成履歴を保存（仮のユーザーIDを使用）
-    const aiGeneration = await prisma.aIGeneration.create({
-      data: {
-        userId: 'admin-system', // 管理システムからの生成として記録
+    // データベースに生成履歴を保存
+    const aiGenerations = [];
+    for (const [index, result] of results.entries()) {
+      aiGenerations.push(await recordAIGeneration({
+        userId: generationUserId,
         prompt: topic,
-        generatedContent: generatedText,
-        model: 'gemini-1.5-flash',
-        tokensUsed: Math.floor(Math.random() * 500) + 100, // 実際のトークン数は取得困難なので推定値
-        cost: Math.floor(Math.random() * 10) / 100 // 仮のコスト計算
-      }
-    });
+        generatedContent: result.text,
+        model: llm.modelId,
+        usage: result.usage,
+        batchId,
+        variantIndex: index,
+        promptTemplate
+      }));
+    }
+
+    const totalTokens = aiGenerations.reduce((sum, generation) => sum + generation.tokensUsed, 0);
+    const totalCost = aiGenerations.every(generation => generation.cost === null)
+      ? null
+      : aiGenerations.reduce((sum, generation) => sum + (generation.cost || 0), 0);
 
     // 管理ログに記録
     await prisma.adminLog.create({
       data: {
         action: 'ai_generation',
-        details: `Topic: ${topic}, Tone: ${tone}, Length: ${length}, Tokens: ${aiGeneration.tokensUsed}, ID: ${aiGeneration.id}`
+        details: `Topic: ${topic}, Tone: ${tone}, Length: ${length}, Model: ${llm.modelId}, Variants: ${variantCount}, Tokens: ${totalTokens}, Cost: ${totalCost ?? 'unknown'}, Template: ${promptTemplate ? `${promptTemplate.name} v${promptTemplate.version}` : 'built-in'}, Batch: ${batchId}`
       }
     });
 
+    const variantData = aiGenerations.map(generation => ({
+      id: generation.id,
+      variantIndex: generation.variantIndex,
+      text: generation.generatedContent,
+      model: generation.model,
+      tokensUsed: generation.tokensUsed,
+      promptTokens: generation.promptTokens,
+      completionTokens: generation.completionTokens,
+      cost: generation.cost,
+      promptTemplateId: generation.promptTemplateId,
+      promptTemplateVersion: generation.promptTemplateVersion,
+      timestamp: generation.createdAt
+    }));
+
     return NextResponse.json({
       success: true,
       data: {
-        id: aiGeneration.id,
-        text: generatedText,
+        // 1件目の候補をトップレベルにも含める（候補数を指定しないクライアント向け）
+        ...variantData[0],
+        batchId,
         topic,
         tone,
         length,
-        tokensUsed: aiGeneration.tokensUsed,
-        timestamp: aiGeneration.createdAt
+        variants: variantData
       }
     });
 
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return createTokenBudgetExceededResponse(error);
+    }
+
     console.error('AI Generation error:', error);
     
     // エラーログを記録
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isVariantSelectionPurpose } from '@/lib/ai-variants';
+
+// POST: 生成した候補のうち、オペレーターが投稿・予約に使ったものを記録
+export async function POST(request: NextRequest) {
+  try {
+    const { generationId, selectedFor, postId } = await request.json();
+
+    if (!generationId) {
+      return NextResponse.json(
+        { error: '生成IDは必須です' },
+        { status: 400 }
+      );
+    }
+
+    if (!isVariantSelectionPurpose(selectedFor)) {
+      return NextResponse.json(
+        { error: '用途は post または schedule を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const generation = await prisma.aIGeneration.findUnique({
+      where: { id: generationId }
+    });
+
+    if (!generation) {
+      return NextResponse.json(
+        { error: '生成履歴が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (postId) {
+      const post = await prisma.post.findUnique({ where: { id: postId } });
+      if (!post) {
+        return NextResponse.json(
+          { error: '投稿が見つかりません' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const updated = await prisma.aIGeneration.update({
+      where: { id: generationId },
+      data: {
+        selectedAt: new Date(),
+        selectedFor,
+        ...(postId && { postId })
+      }
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'ai_variant_selected',
+        details: `AI variant selected for ${selectedFor}: ${generationId} (batch: ${generation.batchId || '-'}, variant: ${generation.variantIndex + 1})${postId ? ` - Post ID: ${postId}` : ''}`
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: updated.id,
+        batchId: updated.batchId,
+        variantIndex: updated.variantIndex,
+        selectedAt: updated.selectedAt,
+        selectedFor: updated.selectedFor,
+        postId: updated.postId
+      },
+      message: '選択した候補を記録しました'
+    });
+
+  } catch (error) {
+    console.error('AI variant selection error:', error);
+    return NextResponse.json(
+      { error: '候補の選択の記録に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
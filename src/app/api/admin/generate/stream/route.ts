@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { recordAIGeneration, resolveGenerationUserId } from '@/lib/ai-usage';
+import { buildPostPrompt, getActivePromptTemplate } from '@/lib/ai-prompts';
+import { LLMProviderError, ResolvedLLM, resolveLLM } from '@/lib/llm-provider';
+import { apiRateLimiter, TokenBudgetExceededError } from '@/lib/api-rate-limiter';
+import { createTokenBudgetExceededResponse } from '@/lib/rate-limit-middleware';
+
+// server-sent events の1イベント分を組み立てる
+function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// POST: 生成されたテキストを server-sent events で届いた順に返す
+// イベント: start（モデル） → delta（差分テキスト） → done（保存した生成履歴） / error
+export async function POST(request: NextRequest) {
+  try {
+    const { topic, tone = 'casual', length = 'medium', provider, model, templateId, userId } = await request.json();
+
+    if (!topic) {
+      return NextResponse.json(
+        { error: 'トピックは必須です' },
+        { status: 400 }
+      );
+    }
+
+    let llm: ResolvedLLM;
+    try {
+      llm = await resolveLLM({ provider, model });
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        return NextResponse.json(
+          { error: '指定されたAIプロバイダーは利用できません', details: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const promptTemplate = templateId ? await getActivePromptTemplate(templateId) : null;
+    if (templateId && !promptTemplate) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトテンプレートが見つからないか、無効になっています' },
+        { status: 400 }
+      );
+    }
+
+    // 生成する投稿のユーザーを指定した場合はそのユーザーの予算で確認し、生成履歴もそのユーザーで記録する
+    const generationUserId = await resolveGenerationUserId(userId);
+    if (!generationUserId) {
+      return NextResponse.json(
+        { error: 'ユーザーが見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    // ストリームを開始する前にトークン予算を確認（超過時は通常の429を返す）
+    await apiRateLimiter.enforceTokenBudget(generationUserId);
+
+    // クライアントの切断・ストリームの取り消しのどちらでも LLM の呼び出しを止める
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (abortController.signal.aborted) return;
+          controller.enqueue(encoder.encode(formatSSE(event, data)));
+        };
+
+        try {
+          send('start', { model: llm.modelId });
+
+          const result = await llm.provider.stream(
+            {
+              model: llm.model,
+              prompt: buildPostPrompt({ topic, tone, length, template: promptTemplate }),
+              signal: abortController.signal
+            },
+            delta => send('delta', { text: delta })
+          );
+          abortController.signal.throwIfAborted();
+
+          // ストリームが最後まで届いた場合のみ生成履歴を保存
+          const aiGeneration = await recordAIGeneration({
+            userId: generationUserId,
+            prompt: topic,
+            generatedContent: result.text,
+            model: llm.modelId,
+            usage: result.usage,
+            batchId: randomBytes(12).toString('hex'),
+            variantIndex: 0,
+            promptTemplate
+          });
+
+          await prisma.adminLog.create({
+            data: {
+              action: 'ai_generation',
+              details: `Topic: ${topic}, Tone: ${tone}, Length: ${length}, Model: ${llm.modelId}, Variants: 1, Tokens: ${aiGeneration.tokensUsed}, Cost: ${aiGeneration.cost ?? 'unknown'}, Template: ${promptTemplate ? `${promptTemplate.name} v${promptTemplate.version}` : 'built-in'}, Batch: ${aiGeneration.batchId}, Streamed: true`
+            }
+          });
+
+          send('done', {
+            id: aiGeneration.id,
+            batchId: aiGeneration.batchId,
+            variantIndex: aiGeneration.variantIndex,
+            text: aiGeneration.generatedContent,
+            model: aiGeneration.model,
+            tokensUsed: aiGeneration.tokensUsed,
+            promptTokens: aiGeneration.promptTokens,
+            completionTokens: aiGeneration.completionTokens,
+            cost: aiGeneration.cost,
+            promptTemplateId: aiGeneration.promptTemplateId,
+            promptTemplateVersion: aiGeneration.promptTemplateVersion,
+            timestamp: aiGeneration.createdAt
+          });
+        } catch (error) {
+          if (abortController.signal.aborted) {
+            await prisma.adminLog.create({
+              data: {
+                action: 'ai_generation_cancelled',
+                details: `Topic: ${topic}, Model: ${llm.modelId} - stream cancelled before completion`
+              }
+            }).catch(logError => console.error('Failed to log cancellation:', logError));
+          } else {
+            console.error('AI streaming generation error:', error);
+            await prisma.adminLog.create({
+              data: {
+                action: 'ai_generation_error',
+                details: `Error: ${error instanceof Error ? error.message : 'Unknown error'} (streamed)`
+              }
+            }).catch(logError => console.error('Failed to log error:', logError));
+
+            send('error', {
+              error: 'AI生成に失敗しました',
+              details: error instanceof Error ? error.message : 'Unknown error'
+            });
+          }
+        } finally {
+          if (!abortController.signal.aborted) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        abortController.abort();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return createTokenBudgetExceededResponse(error);
+    }
+
+    console.error('AI streaming generation error:', error);
+    return NextResponse.json(
+      {
+        error: 'AI生成に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
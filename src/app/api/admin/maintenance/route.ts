@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { reencryptThreadsAccountTokens, TokenEncryptionError, TokenKeyRotationResult } from '@/lib/token-crypto';
 
 // GET: メンテナンス設定を取得
 export async function GET() {
@@ -61,6 +62,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const { action, ...data } = await request.json();
+    let rotationResult: TokenKeyRotationResult | null = null;
 
     switch (action) {
       case 'toggle_maintenance':
@@ -79,6 +81,10 @@ export async function POST(request: NextRequest) {
         await updateAllowedIps(data.ips);
         break;
 
+      case 'rotate_token_keys':
+        rotationResult = await reencryptThreadsAccountTokens();
+        break;
+
       case 'check_status':
         const status = await getMaintenanceStatus();
         return NextResponse.json({
@@ -97,7 +103,7 @@ export async function POST(request: NextRequest) {
     await prisma.adminLog.create({
       data: {
         action: `maintenance_${action}`,
-        details: JSON.stringify({ action, ...data })
+        details: JSON.stringify({ action, ...data, ...(rotationResult && { rotation: rotationResult }) })
       }
     });
 
@@ -106,14 +112,19 @@ export async function POST(request: NextRequest) {
       'toggle_maintenance': data.enabled ? 'メンテナンスモードが開始されました' : 'メンテナンスモードが終了されました',
       'schedule_maintenance': 'メンテナンスがスケジュールされました',
       'toggle_emergency_access': data.enabled ? '緊急アクセスが有効化されました' : '緊急アクセスが無効化されました',
-      'update_allowed_ips': '許可IPアドレスが更新されました'
+      'update_allowed_ips': '許可IPアドレスが更新されました',
+      'rotate_token_keys': rotationResult
+        ? `Threadsトークンを鍵 ${rotationResult.keyId} で再暗号化しました（${rotationResult.reencrypted}件更新、${rotationResult.failed.length}件失敗）`
+        : ''
     };
 
     await prisma.notification.create({
       data: {
         title: 'メンテナンス設定変更',
         message: actionMessages[action] || 'メンテナンス設定が変更されました',
-        type: action === 'toggle_maintenance' && data.enabled ? 'warning' : 'info',
+        type: action === 'toggle_maintenance' && data.enabled
+          ? 'warning'
+          : rotationResult?.failed.length ? 'error' : 'info',
         priority: action === 'toggle_maintenance' ? 'urgent' : 'normal',
         category: 'system'
       }
@@ -121,11 +132,18 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: actionMessages[action] || 'メンテナンス設定が更新されました'
+      message: actionMessages[action] || 'メンテナンス設定が更新されました',
+      ...(rotationResult && { data: rotationResult })
     });
 
   } catch (error) {
     console.error('Maintenance action error:', error);
+    if (error instanceof TokenEncryptionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to update maintenance settings' },
       { status: 500 }
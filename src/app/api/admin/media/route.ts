@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getMediaPublicBaseUrl, MediaError, saveMediaUpload } from '@/lib/media-storage';
+import { checkMediaFile, MAX_POST_MEDIA, PostMediaInput } from '@/lib/media-rules';
+
+// POST: 投稿に添付するメディアのアップロード（multipart/form-data の files）
+// 保存したメディアの情報を返すので、投稿の作成・更新時に media としてそのまま渡す
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((file): file is File => file instanceof File);
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'アップロードするファイルを選択してください' },
+        { status: 400 }
+      );
+    }
+
+    if (files.length > MAX_POST_MEDIA) {
+      return NextResponse.json(
+        { error: `一度にアップロードできるのは${MAX_POST_MEDIA}件までです` },
+        { status: 400 }
+      );
+    }
+
+    // 途中のファイルだけ保存されないよう、保存する前にすべて確認する
+    for (const file of files) {
+      const fileError = checkMediaFile(file);
+      if (fileError) {
+        return NextResponse.json(
+          { error: `${file.name}: ${fileError}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const uploaded: PostMediaInput[] = [];
+    for (const file of files) {
+      uploaded.push(await saveMediaUpload(file));
+    }
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'media_uploaded',
+        details: `Uploaded ${uploaded.length} file(s): ${uploaded.map(media => `${media.originalName} (${media.mediaType}, ${media.size} bytes)`).join(', ')}`
+      }
+    });
+
+    // 公開URLが未設定でもアップロード・プレビューはできる（Threads への公開時に必要）
+    const publicBaseUrl = await getMediaPublicBaseUrl();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        media: uploaded,
+        publicUrlConfigured: publicBaseUrl !== null
+      },
+      message: `${uploaded.length}件のメディアをアップロードしました`
+    });
+
+  } catch (error) {
+    if (error instanceof MediaError && error.kind === 'invalid_file') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Media upload error:', error);
+    return NextResponse.json(
+      { error: 'メディアのアップロードに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
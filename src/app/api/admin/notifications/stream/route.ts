@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  collectNotificationChanges,
+  countUnreadNotifications,
+  NOTIFICATION_STREAM_KEEPALIVE_MS,
+  NOTIFICATION_STREAM_POLL_MS,
+  parseStreamCursor
+} from '@/lib/notification-stream';
+
+// 切断後にブラウザが再接続するまでの待ち時間
+const RECONNECT_DELAY_MS = 3000;
+
+// server-sent events の1イベント分を組み立てる（id は再接続時に Last-Event-ID として返ってくる）
+function formatSSE(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// GET: 通知とアラートのインシデントの変更を server-sent events で push する
+// イベント: unread_count（接続時・未読数の変化時） / notification（{ change: created | updated, notification }） / incident
+// 再接続時は Last-Event-ID ヘッダー（または ?lastEventId=）以降の変更から送る
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lastEventId = request.headers.get('last-event-id') || searchParams.get('lastEventId');
+
+    let cursor = parseStreamCursor(lastEventId);
+    const seenAtCursor = new Set<string>();
+    let unreadCount = await countUnreadNotifications();
+
+    const encoder = new TextEncoder();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(chunk));
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          clearTimeout(timer);
+          try {
+            controller.close();
+          } catch {
+            // 取り消し済みのストリームは閉じられない
+          }
+        };
+        request.signal.addEventListener('abort', close, { once: true });
+
+        let lastWriteAt = Date.now();
+        const poll = async () => {
+          if (closed) return;
+
+          try {
+            const changes = await collectNotificationChanges(cursor, seenAtCursor);
+            const id = String(changes.cursor.getTime());
+            cursor = changes.cursor;
+
+            for (const change of changes.notifications) {
+              write(formatSSE('notification', change, id));
+            }
+            for (const incident of changes.incidents) {
+              write(formatSSE('incident', incident, id));
+            }
+
+            // 削除では updatedAt が残らないため、未読数は毎回数え直す
+            const count = await countUnreadNotifications();
+            const countChanged = count !== unreadCount;
+            if (countChanged) {
+              unreadCount = count;
+              write(formatSSE('unread_count', { count }, id));
+            }
+
+            if (changes.notifications.length > 0 || changes.incidents.length > 0 || countChanged) {
+              lastWriteAt = Date.now();
+            } else if (Date.now() - lastWriteAt >= NOTIFICATION_STREAM_KEEPALIVE_MS) {
+              // プロキシに無通信で切断されないようにコメント行を送る
+              write(': keepalive\n\n');
+              lastWriteAt = Date.now();
+            }
+          } catch (error) {
+            console.error('Notification stream poll error:', error);
+          }
+
+          if (!closed) {
+            timer = setTimeout(poll, NOTIFICATION_STREAM_POLL_MS);
+          }
+        };
+
+        write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        write(formatSSE('unread_count', { count: unreadCount }, String(cursor.getTime())));
+        timer = setTimeout(poll, NOTIFICATION_STREAM_POLL_MS);
+      },
+      cancel() {
+        closed = true;
+        clearTimeout(timer);
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+
+  } catch (error) {
+    console.error('Notification stream error:', error);
+    return NextResponse.json(
+      { error: '通知ストリームの開始に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
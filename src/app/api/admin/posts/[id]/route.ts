@@ -1,5 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { describePublishError, publishPostForUser } from '@/lib/threads-publisher';
+import { createContentValidationErrorResponse, validatePostContent, validateThreadContent } from '@/lib/content-validator';
+import { joinSegments, parseThreadSegments } from '@/lib/thread-segments';
+import { parsePostMediaInput } from '@/lib/media-rules';
+import { deleteMediaFiles, findMissingMediaFiles } from '@/lib/media-storage';
+
+// 投稿内容をチェック（スレッド投稿は未公開のセグメントのみ）
+async function validateStoredPost(
+  post: { id: string; userId: string; content: string; segments: { position: number; content: string; threadsPostId: string | null }[] }
+) {
+  const options = { userId: post.userId, excludePostId: post.id };
+
+  return post.segments.length > 0
+    ? validateThreadContent(post.segments.filter(segment => !segment.threadsPostId), options)
+    : validatePostContent(post.content, options);
+}
 
 // GET: 個別投稿取得
 export async function GET(
@@ -17,6 +33,12 @@ export async function GET(
             email: true,
             role: true
           }
+        },
+        segments: {
+          orderBy: { position: 'asc' }
+        },
+        media: {
+          orderBy: { position: 'asc' }
         }
       }
     });
@@ -50,6 +72,8 @@ export async function PUT(
   try {
     const { 
       content, 
+      segments: rawSegments,
+      media: rawMedia,
       status, 
       scheduledFor,
       publishNow = false 
@@ -58,7 +82,13 @@ export async function PUT(
     // 投稿存在確認
     const existingPost = await prisma.post.findUnique({
       where: { id: params.id },
-      include: { user: true }
+      include: {
+        user: true,
+        segments: {
+          orderBy: { position: 'asc' }
+        },
+        media: true
+      }
     });
 
     if (!existingPost) {
@@ -68,19 +98,85 @@ export async function PUT(
       );
     }
 
-    // バリデーション
-    if (content && content.length > 500) {
+    // segments を指定した場合はセグメントを入れ替える（1件以下なら単独の投稿に戻す）
+    const { segments, error: segmentsError } = parseThreadSegments(rawSegments);
+    if (segmentsError) {
+      return NextResponse.json(
+        { error: segmentsError },
+        { status: 400 }
+      );
+    }
+
+    // media を指定した場合は添付メディアを入れ替える
+    const { media, error: mediaError } = parsePostMediaInput(rawMedia);
+    if (mediaError) {
       return NextResponse.json(
-        { error: '投稿内容は500文字以内で入力してください' },
+        { error: mediaError },
         { status: 400 }
       );
     }
 
+    const isReplacingMedia = rawMedia !== undefined;
+    if (isReplacingMedia && (await findMissingMediaFiles(media)).length > 0) {
+      return NextResponse.json(
+        { error: '添付メディアのファイルが見つかりません。アップロードし直してください' },
+        { status: 400 }
+      );
+    }
+
+    const isReplacingSegments = rawSegments !== undefined;
+    if (isReplacingSegments && existingPost.segments.some(segment => segment.threadsPostId)) {
+      return NextResponse.json(
+        { error: '一部のセグメントが公開済みのため、スレッドの内容は変更できません' },
+        { status: 409 }
+      );
+    }
+
+    // スレッド投稿で公開されるのはセグメントのため、本文だけを変えると一覧の本文と公開内容が食い違う
+    if (content && content !== existingPost.content && !isReplacingSegments && existingPost.segments.length > 0) {
+      return NextResponse.json(
+        { error: 'スレッド投稿の本文は segments で更新してください（単独の投稿に戻す場合は segments に空の配列を指定）' },
+        { status: 400 }
+      );
+    }
+
+    // 公開・予約される投稿はルール違反があれば更新しない（下書きは文字数の上限のみ確認）
+    if (content || isReplacingSegments || publishNow || scheduledFor) {
+      const validation = await validateStoredPost({
+        ...existingPost,
+        content: content || existingPost.content,
+        segments: isReplacingSegments
+          ? (segments || []).map((segment, position) => ({ position, content: segment, threadsPostId: null }))
+          : existingPost.segments
+      });
+      const nextStatus = publishNow ? 'published' : status || (scheduledFor ? 'scheduled' : existingPost.status);
+      const isPublishing = nextStatus === 'published' || nextStatus === 'scheduled';
+
+      if (isPublishing ? !validation.valid : validation.issues.some(issue => issue.rule === 'length')) {
+        return createContentValidationErrorResponse(validation);
+      }
+    }
+
     // 更新データを準備
     const updateData: any = {};
     
     if (content) updateData.content = content;
     if (status) updateData.status = status;
+
+    if (isReplacingSegments) {
+      updateData.segments = {
+        deleteMany: {},
+        ...(segments && { create: segments.map((segment, position) => ({ position, content: segment })) })
+      };
+      if (segments) updateData.content = joinSegments(segments);
+    }
+
+    if (isReplacingMedia) {
+      updateData.media = {
+        deleteMany: {},
+        create: media.map((item, position) => ({ position, ...item }))
+      };
+    }
     
     if (scheduledFor) {
       updateData.scheduledFor = new Date(scheduledFor);
@@ -104,10 +200,24 @@ export async function PUT(
             name: true,
             email: true
           }
+        },
+        segments: {
+          orderBy: { position: 'asc' }
+        },
+        media: {
+          orderBy: { position: 'asc' }
         }
       }
     });
 
+    // 外したメディアのファイルを削除
+    if (isReplacingMedia) {
+      const keptFileNames = new Set(media.map(item => item.fileName));
+      await deleteMediaFiles(
+        existingPost.media.map(item => item.fileName).filter(fileName => !keptFileNames.has(fileName))
+      );
+    }
+
     // 管理ログに記録
     await prisma.adminLog.create({
       data: {
@@ -140,7 +250,11 @@ export async function DELETE(
     // 投稿存在確認
     const existingPost = await prisma.post.findUnique({
       where: { id: params.id },
-      select: { content: true, status: true }
+      select: {
+        content: true,
+        status: true,
+        media: { select: { fileName: true } }
+      }
     });
 
     if (!existingPost) {
@@ -154,6 +268,7 @@ export async function DELETE(
     await prisma.post.delete({
       where: { id: params.id }
     });
+    await deleteMediaFiles(existingPost.media.map(item => item.fileName));
 
     // 管理ログに記録
     await prisma.adminLog.create({
@@ -183,10 +298,15 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { action } = await request.json();
+    const { action, scheduledFor } = await request.json();
 
     const existingPost = await prisma.post.findUnique({
-      where: { id: params.id }
+      where: { id: params.id },
+      include: {
+        segments: {
+          orderBy: { position: 'asc' }
+        }
+      }
     });
 
     if (!existingPost) {
@@ -201,24 +321,111 @@ export async function PATCH(
 
     switch (action) {
       case 'publish':
-        updateData = {
-          status: 'published',
-          publishedAt: new Date(),
-          scheduledFor: null
-        };
-        actionMessage = '投稿を公開しました';
+        if (existingPost.status === 'published' && existingPost.threadsPostId) {
+          return NextResponse.json(
+            { error: 'この投稿は既に公開されています' },
+            { status: 400 }
+          );
+        }
+
+        if (existingPost.status === 'publishing') {
+          return NextResponse.json(
+            { error: 'この投稿は公開処理中です' },
+            { status: 409 }
+          );
+        }
+
+        // ルール違反の投稿はステータスを変えずに差し戻す
+        const validation = await validateStoredPost(existingPost);
+        if (!validation.valid) {
+          return createContentValidationErrorResponse(validation);
+        }
+
+        // 予約投稿の公開ジョブと同じく publishing に条件付きで更新して確保し、同時に公開されるのを防ぐ
+        // 予約日時は取り消す（公開ジョブは予約日時が一致しない投稿を公開しない）
+        const claimed = await prisma.post.updateMany({
+          where: { id: params.id, status: existingPost.status },
+          data: { status: 'publishing', scheduledFor: null }
+        });
+
+        if (claimed.count === 0) {
+          return NextResponse.json(
+            { error: 'この投稿は別の処理で公開中か、状態が変更されました' },
+            { status: 409 }
+          );
+        }
+
+        // 途中で失敗したスレッド投稿は公開済みのセグメントの続きから公開する
+        const resumedSegments = existingPost.segments.filter(segment => segment.threadsPostId).length;
+
+        // 投稿者の連携済みThreadsアカウントで公開
+        try {
+          const outcome = await publishPostForUser(existingPost);
+
+          updateData = {
+            status: 'published',
+            publishedAt: new Date(),
+            scheduledFor: null,
+            threadsPostId: outcome.threadsPostId,
+            error: null
+          };
+          actionMessage = outcome.mode === 'demo'
+            ? 'デモモードで投稿を公開しました'
+            : '投稿をThreadsに公開しました';
+          if (outcome.thread) {
+            actionMessage = resumedSegments > 0
+              ? `スレッドの${resumedSegments + 1}件目から続きを公開しました（全${outcome.thread.totalSegments}件）`
+              : `スレッド（${outcome.thread.totalSegments}件）を公開しました`;
+          }
+        } catch (publishError) {
+          const failure = describePublishError(publishError);
+
+          await prisma.post.update({
+            where: { id: params.id },
+            data: {
+              status: 'failed',
+              error: failure.message
+            }
+          });
+
+          await prisma.adminLog.create({
+            data: {
+              action: 'post_publish_failed',
+              details: `Post publish failed: ${existingPost.content.substring(0, 50)}... - ${failure.message}`
+            }
+          });
+
+          return NextResponse.json(
+            {
+              error: failure.error,
+              details: failure.message,
+              errorKind: failure.errorKind,
+              issues: failure.issues,
+              thread: failure.thread
+            },
+            { status: failure.status }
+          );
+        }
         break;
 
       case 'unpublish':
+        // スレッド投稿は次に公開する際に最初のセグメントから公開し直す
         updateData = {
           status: 'draft',
-          publishedAt: null
+          publishedAt: null,
+          ...(existingPost.segments.length > 0 && {
+            segments: {
+              updateMany: {
+                where: {},
+                data: { threadsPostId: null, publishedAt: null, error: null }
+              }
+            }
+          })
         };
         actionMessage = '投稿を非公開にしました';
         break;
 
       case 'schedule':
-        const { scheduledFor } = await request.json();
         if (!scheduledFor) {
           return NextResponse.json(
             { error: 'スケジュール日時が必要です' },
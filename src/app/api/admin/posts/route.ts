@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { createContentValidationErrorResponse, validatePostContent, validateThreadContent } from '@/lib/content-validator';
+import { joinSegments, parseThreadSegments } from '@/lib/thread-segments';
+import { parsePostMediaInput } from '@/lib/media-rules';
+import { findMissingMediaFiles } from '@/lib/media-storage';
 
 // GET: 投稿一覧取得
 export async function GET(request: NextRequest) {
@@ -42,6 +46,12 @@ export async function GET(request: NextRequest) {
               name: true,
               email: true
             }
+          },
+          segments: {
+            orderBy: { position: 'asc' }
+          },
+          media: {
+            orderBy: { position: 'asc' }
           }
         }
       }),
@@ -75,22 +85,42 @@ export async function POST(request: NextRequest) {
   try {
     const { 
       content, 
+      segments: rawSegments,
+      media: rawMedia,
       userId = 'admin-system', 
       scheduledFor,
       publishNow = false 
     } = await request.json();
 
-    // バリデーション
-    if (!content) {
+    // スレッド投稿（2件以上のセグメント）の場合は各セグメントを保存する
+    const { segments, error: segmentsError } = parseThreadSegments(rawSegments);
+    if (segmentsError) {
       return NextResponse.json(
-        { error: '投稿内容は必須です' },
+        { error: segmentsError },
+        { status: 400 }
+      );
+    }
+
+    // 添付メディアはアップロード済みのファイルのみ（スレッド投稿では最初の投稿に付ける）
+    const { media, error: mediaError } = parsePostMediaInput(rawMedia);
+    if (mediaError) {
+      return NextResponse.json(
+        { error: mediaError },
+        { status: 400 }
+      );
+    }
+
+    if ((await findMissingMediaFiles(media)).length > 0) {
+      return NextResponse.json(
+        { error: '添付メディアのファイルが見つかりません。アップロードし直してください' },
         { status: 400 }
       );
     }
 
-    if (content.length > 500) {
+    // バリデーション
+    if (!content && !segments) {
       return NextResponse.json(
-        { error: '投稿内容は500文字以内で入力してください' },
+        { error: '投稿内容は必須です' },
         { status: 400 }
       );
     }
@@ -107,13 +137,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 公開・予約する投稿はルール違反があれば作成しない（下書きは文字数の上限のみ確認）
+    const validation = segments
+      ? await validateThreadContent(segments.map((segment, position) => ({ position, content: segment })), { userId })
+      : await validatePostContent(content, { userId });
+    const isPublishing = publishNow || Boolean(scheduledFor);
+    if (isPublishing ? !validation.valid : validation.issues.some(issue => issue.rule === 'length')) {
+      return createContentValidationErrorResponse(validation);
+    }
+
     // 投稿データを準備
     const postData: any = {
       userId,
-      content,
+      content: segments ? joinSegments(segments) : content,
       status: publishNow ? 'published' : (scheduledFor ? 'scheduled' : 'draft')
     };
 
+    if (segments) {
+      postData.segments = {
+        create: segments.map((segment, position) => ({ position, content: segment }))
+      };
+    }
+
+    if (media.length > 0) {
+      postData.media = {
+        create: media.map((item, position) => ({ position, ...item }))
+      };
+    }
+
     if (scheduledFor) {
       postData.scheduledFor = new Date(scheduledFor);
     }
@@ -132,6 +183,12 @@ export async function POST(request: NextRequest) {
             name: true,
             email: true
           }
+        },
+        segments: {
+          orderBy: { position: 'asc' }
+        },
+        media: {
+          orderBy: { position: 'asc' }
         }
       }
     });
@@ -140,13 +197,14 @@ export async function POST(request: NextRequest) {
     await prisma.adminLog.create({
       data: {
         action: 'post_created',
-        details: `New post created: ${content.substring(0, 50)}... (${post.status})`
+        details: `New post created: ${post.content.substring(0, 50)}... (${post.status}${segments ? `, thread of ${segments.length}` : ''}${media.length > 0 ? `, ${media.length} media` : ''})`
       }
     });
 
     return NextResponse.json({
       success: true,
       data: post,
+      validation,
       message: '投稿が正常に作成されました'
     });
 
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContentRules, validatePostContent } from '@/lib/content-validator';
+
+// POST: 投稿内容を投稿ルールに照らしてチェック（入力中のフォームに結果を表示する）
+export async function POST(request: NextRequest) {
+  try {
+    const { content, userId = 'admin-system', postId } = await request.json();
+
+    if (typeof content !== 'string') {
+      return NextResponse.json(
+        { error: '投稿内容は必須です' },
+        { status: 400 }
+      );
+    }
+
+    const [validation, rules] = await Promise.all([
+      validatePostContent(content, { userId, excludePostId: postId }),
+      getContentRules()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...validation,
+        rules: {
+          maxHashtags: rules.maxHashtags,
+          maxLinks: rules.maxLinks,
+          duplicateWindowDays: rules.duplicateWindowDays
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Content validation error:', error);
+    return NextResponse.json(
+      { error: '投稿内容のチェックに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parsePromptTemplateInput } from '@/lib/prompt-templates';
+
+// 変更されると生成結果が変わるため、版を上げるフィールド
+const VERSIONED_FIELDS = ['body', 'language', 'hashtagMin', 'hashtagMax', 'emojiUsage'] as const;
+
+// GET: 個別プロンプトテンプレート取得
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id: params.id },
+      include: {
+        _count: {
+          select: { generations: true }
+        }
+      }
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'プロンプトテンプレートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    });
+
+  } catch (error) {
+    console.error('Prompt template fetch error:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: プロンプトテンプレート更新（本文・ルールが変わった場合は版を上げる）
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const existingTemplate = await prisma.promptTemplate.findUnique({
+      where: { id: params.id }
+    });
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'プロンプトテンプレートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    // 指定されなかったフィールドは現在の値を引き継ぐ
+    const { template, error } = parsePromptTemplateInput({ ...existingTemplate, ...await request.json() });
+
+    if (!template) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const changedFields = VERSIONED_FIELDS.filter(field => template[field] !== existingTemplate[field]);
+
+    const updatedTemplate = await prisma.promptTemplate.update({
+      where: { id: params.id },
+      data: {
+        ...template,
+        ...(changedFields.length > 0 && { version: { increment: 1 } })
+      }
+    });
+
+    // 管理ログに記録
+    await prisma.adminLog.create({
+      data: {
+        action: 'prompt_template_updated',
+        details: `Prompt template updated: ${updatedTemplate.name} - Version: ${updatedTemplate.version}${changedFields.length > 0 ? ` (changed: ${changedFields.join(', ')})` : ''}`
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updatedTemplate,
+      message: 'プロンプトテンプレートが正常に更新されました'
+    });
+
+  } catch (error) {
+    console.error('Prompt template update error:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: プロンプトテンプレート削除
+// 生成履歴のテンプレート参照は外れ、テンプレートを指定していたスケジュールは組み込みのプロンプトで生成する
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const existingTemplate = await prisma.promptTemplate.findUnique({
+      where: { id: params.id },
+      select: { name: true, version: true, _count: { select: { generations: true } } }
+    });
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'プロンプトテンプレートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.promptTemplate.delete({
+      where: { id: params.id }
+    });
+
+    // 管理ログに記録
+    await prisma.adminLog.create({
+      data: {
+        action: 'prompt_template_deleted',
+        details: `Prompt template deleted: ${existingTemplate.name} v${existingTemplate.version} - Generations: ${existingTemplate._count.generations}`
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'プロンプトテンプレートが正常に削除されました'
+    });
+
+  } catch (error) {
+    console.error('Prompt template deletion error:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
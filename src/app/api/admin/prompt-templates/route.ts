@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { parsePromptTemplateInput } from '@/lib/prompt-templates';
+
+// GET: プロンプトテンプレート一覧取得
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get('search') || '';
+    const isActive = searchParams.get('isActive');
+
+    const where: Prisma.PromptTemplateWhereInput = {};
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { description: { contains: search } }
+      ];
+    }
+
+    if (isActive !== null && isActive !== '') {
+      where.isActive = isActive === 'true';
+    }
+
+    const templates = await prisma.promptTemplate.findMany({
+      where,
+      orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }],
+      include: {
+        _count: {
+          select: { generations: true }
+        }
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    });
+
+  } catch (error) {
+    console.error('Prompt templates fetch error:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレート一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 新規プロンプトテンプレート作成
+export async function POST(request: NextRequest) {
+  try {
+    const { template, error } = parsePromptTemplateInput(await request.json());
+
+    if (!template) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.promptTemplate.create({
+      data: template
+    });
+
+    // 管理ログに記録
+    await prisma.adminLog.create({
+      data: {
+        action: 'prompt_template_created',
+        details: `Prompt template created: ${created.name} (${created.language}, hashtags: ${created.hashtagMin}-${created.hashtagMax}, emoji: ${created.emojiUsage})`
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: created,
+      message: 'プロンプトテンプレートが正常に作成されました'
+    });
+
+  } catch (error) {
+    console.error('Prompt template creation error:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの作成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
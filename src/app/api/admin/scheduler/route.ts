@@ -1,17 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { scheduler } from '@/lib/scheduler';
+import { jobQueue } from '@/lib/job-queue';
 import { prisma } from '@/lib/prisma';
 
 // GET: スケジューラーの状態取得
 export async function GET() {
   try {
-    const status = scheduler.getStatus();
+    const status = await scheduler.getStatus();
+
+    // ジョブキューの状況とデッドレターを取得
+    const [jobStats, deadJobs] = await Promise.all([
+      jobQueue.getStats(),
+      jobQueue.getDeadJobs()
+    ]);
     
     // 最近の実行結果を取得
     const recentExecutions = await prisma.adminLog.findMany({
       where: {
         action: {
-          in: ['schedule_executed', 'schedule_execution_failed']
+          in: ['schedule_executed', 'schedule_execution_failed', 'schedule_skipped', 'schedule_budget_fallback']
         }
       },
       orderBy: { createdAt: 'desc' },
@@ -41,6 +48,8 @@ export async function GET() {
         status,
         recentExecutions,
         upcomingSchedules,
+        jobStats,
+        deadJobs,
         nextExecution: upcomingSchedules[0]?.nextRun || null
       }
     });
@@ -57,7 +66,7 @@ export async function GET() {
 // POST: スケジュール実行を手動トリガー
 export async function POST(request: NextRequest) {
   try {
-    const { action } = await request.json();
+    const { action, jobId } = await request.json();
 
     switch (action) {
       case 'execute_now':
@@ -87,8 +96,28 @@ export async function POST(request: NextRequest) {
           }
         });
 
+      case 'retry_job':
+        if (!jobId || !(await jobQueue.retryDeadJob(jobId))) {
+          return NextResponse.json(
+            { error: '再実行できるジョブが見つかりません' },
+            { status: 404 }
+          );
+        }
+
+        await prisma.adminLog.create({
+          data: {
+            action: 'job_retried',
+            details: `Dead job requeued: ${jobId}`
+          }
+        });
+
+        return NextResponse.json({
+          success: true,
+          message: 'ジョブを再実行待ちに戻しました'
+        });
+
       case 'check_status':
-        const status = scheduler.getStatus();
+        const status = await scheduler.getStatus();
         return NextResponse.json({
           success: true,
           data: { status }
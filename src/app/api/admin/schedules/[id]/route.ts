@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { parseContentSource } from '@/lib/schedule-content';
+import { parseRetryPolicy } from '@/lib/schedule-retry';
+import { calculateNextRun, parseScheduleTime, validateScheduleTiming } from '@/lib/schedule-timing';
 
 // GET: 個別スケジュール取得
 export async function GET(
@@ -48,12 +51,32 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const body = await request.json();
     const { 
       name,
       time,
       frequency,
-      isActive
-    } = await request.json();
+      isActive,
+      cronExpression,
+      timezone,
+      contentSource
+    } = body;
+
+    const { source, error: contentSourceError } = parseContentSource(contentSource);
+    if (contentSourceError) {
+      return NextResponse.json(
+        { error: contentSourceError },
+        { status: 400 }
+      );
+    }
+
+    const { policy: retryPolicy, error: retryPolicyError } = parseRetryPolicy(body);
+    if (retryPolicyError) {
+      return NextResponse.json(
+        { error: retryPolicyError },
+        { status: 400 }
+      );
+    }
 
     // スケジュール存在確認
     const existingSchedule = await prisma.schedule.findUnique({
@@ -72,18 +95,68 @@ export async function PUT(
     const updateData: any = {};
     
     if (name) updateData.name = name;
-    if (time) {
-      updateData.time = new Date(time);
-      // 時間が変更された場合は次回実行日時を再計算
-      updateData.nextRun = calculateNextRun(new Date(time), frequency || existingSchedule.frequency);
+
+    // 実行タイミングが変更された場合は検証して次回実行日時を再計算
+    if (time || frequency || cronExpression !== undefined || timezone) {
+      const timing = {
+        frequency: frequency || existingSchedule.frequency,
+        cronExpression: cronExpression !== undefined ? cronExpression : existingSchedule.cronExpression,
+        timezone: timezone || existingSchedule.timezone
+      };
+
+      const timingError = validateScheduleTiming(timing);
+      if (timingError) {
+        return NextResponse.json(
+          { error: timingError },
+          { status: 400 }
+        );
+      }
+
+      const scheduleTime = time ? parseScheduleTime(time, timing.timezone) : existingSchedule.time;
+      if (!scheduleTime) {
+        return NextResponse.json(
+          { error: '実行日時が不正です' },
+          { status: 400 }
+        );
+      }
+
+      Object.assign(updateData, {
+        time: scheduleTime,
+        frequency: timing.frequency,
+        cronExpression: timing.frequency === 'cron' ? timing.cronExpression : null,
+        timezone: timing.timezone,
+        nextRun: calculateNextRun({ ...timing, time: scheduleTime })
+      });
     }
-    if (frequency) {
-      updateData.frequency = frequency;
-      // 頻度が変更された場合は次回実行日時を再計算
-      const scheduleTime = time ? new Date(time) : existingSchedule.time;
-      updateData.nextRun = calculateNextRun(scheduleTime, frequency);
+    if (typeof isActive === 'boolean') {
+      updateData.isActive = isActive;
+      // 自動停止中のスケジュールを再開する場合は失敗回数をリセット
+      if (isActive && !existingSchedule.isActive) {
+        updateData.failureCount = 0;
+        updateData.pausedAt = null;
+      }
+    }
+    Object.assign(updateData, retryPolicy);
+
+    // 投稿内容ソースが変更された場合はローテーション等の状態を破棄
+    if (contentSource !== undefined) {
+      if (source?.type === 'post') {
+        const post = await prisma.post.findUnique({ where: { id: source.postId }, select: { id: true } });
+        if (!post) {
+          return NextResponse.json(
+            { error: '指定された投稿が見つかりません' },
+            { status: 400 }
+          );
+        }
+      }
+
+      const serialized = source ? JSON.stringify(source) : null;
+      if (serialized !== existingSchedule.contentSource) {
+        updateData.contentSource = serialized;
+        updateData.contentState = null;
+        updateData.postId = source?.type === 'post' ? source.postId : null;
+      }
     }
-    if (typeof isActive === 'boolean') updateData.isActive = isActive;
 
     // スケジュール更新
     const updatedSchedule = await prisma.schedule.update({
@@ -195,7 +268,9 @@ export async function PATCH(
       case 'activate':
         updateData = {
           isActive: true,
-          nextRun: calculateNextRun(existingSchedule.time, existingSchedule.frequency)
+          failureCount: 0,
+          pausedAt: null,
+          nextRun: calculateNextRun(existingSchedule)
         };
         actionMessage = 'スケジュールを有効化しました';
         break;
@@ -212,7 +287,7 @@ export async function PATCH(
         updateData = {
           lastRun: new Date(),
           runCount: existingSchedule.runCount + 1,
-          nextRun: calculateNextRun(existingSchedule.time, existingSchedule.frequency)
+          nextRun: calculateNextRun(existingSchedule)
         };
         actionMessage = 'スケジュールを手動実行しました';
         break;
@@ -221,7 +296,12 @@ export async function PATCH(
         updateData = {
           runCount: 0,
           lastRun: null,
-          nextRun: calculateNextRun(existingSchedule.time, existingSchedule.frequency)
+          failureCount: 0,
+          totalFailures: 0,
+          lastError: null,
+          lastFailedAt: null,
+          pausedAt: null,
+          nextRun: calculateNextRun(existingSchedule)
         };
         actionMessage = 'スケジュールをリセットしました';
         break;
@@ -269,35 +349,3 @@ export async function PATCH(
     );
   }
 }
-
-// 次回実行日時を計算する関数
-function calculateNextRun(baseTime: Date, frequency: string): Date {
-  const now = new Date();
-  const next = new Date(baseTime);
-
-  switch (frequency) {
-    case 'once':
-      return next;
-    
-    case 'daily':
-      while (next <= now) {
-        next.setDate(next.getDate() + 1);
-      }
-      return next;
-    
-    case 'weekly':
-      while (next <= now) {
-        next.setDate(next.getDate() + 7);
-      }
-      return next;
-    
-    case 'monthly':
-      while (next <= now) {
-        next.setMonth(next.getMonth() + 1);
-      }
-      return next;
-    
-    default:
-      return next;
-  }
-}
\ No newline at end of file
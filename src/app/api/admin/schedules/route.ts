@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { parseContentSource } from '@/lib/schedule-content';
+import { parseRetryPolicy } from '@/lib/schedule-retry';
+import { calculateNextRun, DEFAULT_TIMEZONE, parseScheduleTime, validateScheduleTiming } from '@/lib/schedule-timing';
 
 // GET: スケジュール一覧取得
 export async function GET(request: NextRequest) {
@@ -78,14 +81,18 @@ export async function GET(request: NextRequest) {
 // POST: 新規スケジュール作成
 export async function POST(request: NextRequest) {
   try {
+    const body = await request.json();
     const { 
       name,
       time,
       frequency,
       userId = 'admin-system',
       isActive = true,
-      postContent = ''
-    } = await request.json();
+      postContent = '',
+      cronExpression = null,
+      timezone = DEFAULT_TIMEZONE,
+      contentSource = null
+    } = body;
 
     // バリデーション
     if (!name || !time || !frequency) {
@@ -95,6 +102,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const timingError = validateScheduleTiming({ frequency, cronExpression, timezone });
+    if (timingError) {
+      return NextResponse.json(
+        { error: timingError },
+        { status: 400 }
+      );
+    }
+
+    const { policy: retryPolicy, error: retryPolicyError } = parseRetryPolicy(body);
+    if (retryPolicyError) {
+      return NextResponse.json(
+        { error: retryPolicyError },
+        { status: 400 }
+      );
+    }
+
+    const { source, error: contentSourceError } = parseContentSource(contentSource);
+    if (contentSourceError) {
+      return NextResponse.json(
+        { error: contentSourceError },
+        { status: 400 }
+      );
+    }
+
+    // 固定投稿の場合は投稿の存在を確認
+    if (source?.type === 'post') {
+      const post = await prisma.post.findUnique({ where: { id: source.postId }, select: { id: true } });
+      if (!post) {
+        return NextResponse.json(
+          { error: '指定された投稿が見つかりません' },
+          { status: 400 }
+        );
+      }
+    }
+
     // ユーザー存在確認
     const user = await prisma.user.findUnique({
       where: { id: userId }
@@ -107,9 +149,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 次回実行日時を計算
-    const scheduleTime = new Date(time);
-    const nextRun = calculateNextRun(scheduleTime, frequency);
+    // 次回実行日時を計算（時刻はスケジュールのタイムゾーンで解釈）
+    const scheduleTime = parseScheduleTime(time, timezone);
+    const nextRun = scheduleTime && calculateNextRun({ time: scheduleTime, frequency, cronExpression, timezone });
+
+    if (!scheduleTime || !nextRun) {
+      return NextResponse.json(
+        { error: '実行日時が不正です' },
+        { status: 400 }
+      );
+    }
 
     // スケジュール作成
     const schedule = await prisma.schedule.create({
@@ -118,9 +167,14 @@ export async function POST(request: NextRequest) {
         name,
         time: scheduleTime,
         frequency,
+        cronExpression: frequency === 'cron' ? cronExpression : null,
+        timezone,
+        contentSource: source ? JSON.stringify(source) : null,
+        postId: source?.type === 'post' ? source.postId : null,
         isActive,
         nextRun,
-        runCount: 0
+        runCount: 0,
+        ...retryPolicy
       },
       include: {
         user: {
@@ -137,7 +191,7 @@ export async function POST(request: NextRequest) {
     await prisma.adminLog.create({
       data: {
         action: 'schedule_created',
-        details: `New schedule created: ${name} (${frequency}) - Next run: ${nextRun.toISOString()}`
+        details: `New schedule created: ${name} (${frequency === 'cron' ? cronExpression : frequency}, ${timezone}, source: ${source?.type || 'generic'}) - Next run: ${nextRun.toISOString()}`
       }
     });
 
@@ -155,38 +209,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// 次回実行日時を計算する関数
-function calculateNextRun(baseTime: Date, frequency: string): Date {
-  const now = new Date();
-  const next = new Date(baseTime);
-
-  switch (frequency) {
-    case 'once':
-      return next;
-    
-    case 'daily':
-      // 今日の時刻が過ぎていれば明日
-      if (next <= now) {
-        next.setDate(next.getDate() + 1);
-      }
-      return next;
-    
-    case 'weekly':
-      // 今週の曜日・時刻が過ぎていれば来週
-      if (next <= now) {
-        next.setDate(next.getDate() + 7);
-      }
-      return next;
-    
-    case 'monthly':
-      // 今月の日・時刻が過ぎていれば来月
-      if (next <= now) {
-        next.setMonth(next.getMonth() + 1);
-      }
-      return next;
-    
-    default:
-      return next;
-  }
-}
\ No newline at end of file
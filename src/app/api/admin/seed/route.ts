@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
+import { calculateCost } from '@/lib/ai-usage';
 
 export async function POST(request: NextRequest) {
   try {
@@ -110,23 +111,26 @@ export async function POST(request: NextRequest) {
         {
           prompt: '今日の天気について投稿したい',
           generatedContent: '今日は素晴らしい天気ですね！青空が広がって、散歩にぴったりの一日です。 #天気 #散歩 #青空',
-          model: 'gemini-2.0-flash-exp',
-          tokensUsed: 85,
-          cost: 0.02
+          model: 'gemini/gemini-2.0-flash',
+          promptTokens: 58,
+          completionTokens: 27,
+          tokensUsed: 85
         },
         {
           prompt: 'AI技術について書きたい',
           generatedContent: 'AI技術の急速な発展に驚いています。これからの社会がどう変わっていくのか、とても楽しみです！ #AI #技術 #未来',
-          model: 'gemini-2.0-flash-exp',
-          tokensUsed: 92,
-          cost: 0.023
+          model: 'gemini/gemini-2.0-flash',
+          promptTokens: 60,
+          completionTokens: 32,
+          tokensUsed: 92
         },
         {
           prompt: '新しいプロジェクトの開始を報告',
           generatedContent: '新しいプロジェクトがスタートしました！チーム一同、全力で取り組んでいきます。応援よろしくお願いします！ #プロジェクト #開発',
-          model: 'gemini-2.0-flash-exp',
-          tokensUsed: 78,
-          cost: 0.018
+          model: 'gemini/gemini-2.0-flash',
+          promptTokens: 55,
+          completionTokens: 23,
+          tokensUsed: 78
         }
       ];
 
@@ -137,6 +141,11 @@ export async function POST(request: NextRequest) {
         await prisma.aIGeneration.create({
           data: {
             ...generation,
+            cost: calculateCost(generation.model, {
+              promptTokens: generation.promptTokens,
+              completionTokens: generation.completionTokens,
+              totalTokens: generation.tokensUsed
+            }),
             userId: user.id
           }
         });
@@ -149,7 +158,18 @@ export async function POST(request: NextRequest) {
           name: '毎日の挨拶投稿',
           time: new Date(Date.now() + 60 * 60 * 1000), // 1 hour from now
           frequency: 'daily',
-          nextRun: new Date(Date.now() + 60 * 60 * 1000)
+          nextRun: new Date(Date.now() + 60 * 60 * 1000),
+          contentSource: JSON.stringify({
+            type: 'templates',
+            order: 'random',
+            templates: [
+              'おはようございます！今日も素晴らしい一日になりますように✨ #挨拶 #おはよう',
+              '今日も一日お疲れ様でした🌅 新しい一日の始まりです！ #朝活 #新しい日',
+              'Hello! 今日も頑張りましょう💪 良い一日をお過ごしください #motivation #daily',
+              '素敵な朝ですね☀️ 今日も楽しく過ごしましょう！ #morning #positive',
+              '新しい一日の始まり🌱 今日はどんな発見があるでしょうか？ #新しい日 #発見'
+            ]
+          })
         }
       });
 
@@ -186,6 +206,7 @@ export async function POST(request: NextRequest) {
       await prisma.systemStats.deleteMany();
       await prisma.schedule.deleteMany();
       await prisma.aIGeneration.deleteMany();
+      await prisma.engagementSnapshot.deleteMany();
       await prisma.post.deleteMany();
       await prisma.threadsAccount.deleteMany();
       await prisma.user.deleteMany();
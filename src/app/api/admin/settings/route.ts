@@ -1,5 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { DEFAULT_MODEL_PRICING, MODEL_PRICING_SETTING_KEY, parseModelPricing } from '@/lib/ai-usage';
+import {
+  DEFAULT_LLM_MODELS,
+  DEFAULT_OPENAI_BASE_URL,
+  isLLMProviderName,
+  LLM_PROVIDER_LABELS,
+  LLM_SETTING_KEYS
+} from '@/lib/llm-provider';
+import { CONTENT_RULE_SETTING_KEYS } from '@/lib/content-validator';
+import { DEFAULT_CONTENT_RULES } from '@/lib/content-rules';
+import { MEDIA_PUBLIC_BASE_URL_SETTING_KEY } from '@/lib/media-storage';
+import { ALERT_CHANNEL_SETTING_KEYS } from '@/lib/alert-channels';
+
+// http(s) の URL を指定する設定
+const URL_SETTING_KEYS: string[] = [
+  MEDIA_PUBLIC_BASE_URL_SETTING_KEY,
+  ALERT_CHANNEL_SETTING_KEYS.webhookUrl,
+  ALERT_CHANNEL_SETTING_KEYS.chatWebhookUrl
+];
 
 // デフォルト設定
 const DEFAULT_SETTINGS = [
@@ -14,9 +33,93 @@ const DEFAULT_SETTINGS = [
     key: 'max_tokens_per_day',
     value: '50000',
     type: 'number',
-    description: 'AI生成1日あたり最大トークン数',
+    description: 'AI生成1日あたり最大トークン数（ユーザーごと、0で無制限）',
+    category: 'api'
+  },
+  {
+    key: 'max_tokens_per_month',
+    value: '1000000',
+    type: 'number',
+    description: 'AI生成1か月あたり最大トークン数（ユーザーごと、0で無制限）',
+    category: 'api'
+  },
+  {
+    key: 'global_max_tokens_per_day',
+    value: '200000',
+    type: 'number',
+    description: 'AI生成1日あたり最大トークン数（システム全体、0で無制限）',
+    category: 'api'
+  },
+  {
+    key: 'global_max_tokens_per_month',
+    value: '3000000',
+    type: 'number',
+    description: 'AI生成1か月あたり最大トークン数（システム全体、0で無制限）',
+    category: 'api'
+  },
+  {
+    key: LLM_SETTING_KEYS.provider,
+    value: 'gemini',
+    type: 'string',
+    description: `AI生成に使うプロバイダー（${Object.keys(LLM_PROVIDER_LABELS).join(' / ')}）`,
     category: 'api'
   },
+  {
+    key: LLM_SETTING_KEYS.model,
+    value: DEFAULT_LLM_MODELS.gemini,
+    type: 'string',
+    description: 'AI生成に使うモデル名（空の場合はプロバイダーの既定モデル）',
+    category: 'api'
+  },
+  {
+    key: LLM_SETTING_KEYS.openaiBaseUrl,
+    value: DEFAULT_OPENAI_BASE_URL,
+    type: 'string',
+    description: 'OpenAI互換APIのベースURL（例: Ollama は http://localhost:11434/v1）',
+    category: 'api'
+  },
+  {
+    key: MODEL_PRICING_SETTING_KEY,
+    value: JSON.stringify(DEFAULT_MODEL_PRICING),
+    type: 'json',
+    description: 'AIモデル別の料金表（100万トークンあたりのUSD、入力/出力）',
+    category: 'api'
+  },
+  {
+    key: CONTENT_RULE_SETTING_KEYS.maxHashtags,
+    value: String(DEFAULT_CONTENT_RULES.maxHashtags),
+    type: 'number',
+    description: '1投稿あたりのハッシュタグの上限',
+    category: 'content'
+  },
+  {
+    key: CONTENT_RULE_SETTING_KEYS.maxLinks,
+    value: String(DEFAULT_CONTENT_RULES.maxLinks),
+    type: 'number',
+    description: '1投稿あたりのリンクの上限',
+    category: 'content'
+  },
+  {
+    key: CONTENT_RULE_SETTING_KEYS.bannedWords,
+    value: '',
+    type: 'string',
+    description: '禁止ワード（カンマ区切り、含まれる投稿は公開しない）',
+    category: 'content'
+  },
+  {
+    key: CONTENT_RULE_SETTING_KEYS.duplicateWindowDays,
+    value: String(DEFAULT_CONTENT_RULES.duplicateWindowDays),
+    type: 'number',
+    description: '同じ内容の投稿を公開しない期間（日、0で確認しない）',
+    category: 'content'
+  },
+  {
+    key: MEDIA_PUBLIC_BASE_URL_SETTING_KEY,
+    value: '',
+    type: 'string',
+    description: 'アップロードしたメディアの公開URL（Threadsが画像・動画を取得できるURL。例: https://admin.example.com）',
+    category: 'content'
+  },
   {
     key: 'auto_cleanup_days',
     value: '30',
@@ -32,19 +135,61 @@ const DEFAULT_SETTINGS = [
     category: 'system'
   },
   {
-    key: 'notification_email',
+    key: ALERT_CHANNEL_SETTING_KEYS.notificationEmail,
     value: 'admin@example.com',
     type: 'string',
-    description: 'アラート通知メールアドレス',
+    description: 'アラート通知メールアドレス（カンマ区切りで複数指定可）',
     category: 'notification'
   },
   {
-    key: 'email_notifications_enabled',
+    key: ALERT_CHANNEL_SETTING_KEYS.emailEnabled,
     value: 'true',
     type: 'boolean',
     description: 'メール通知を有効にする',
     category: 'notification'
   },
+  {
+    key: ALERT_CHANNEL_SETTING_KEYS.smtpHost,
+    value: '',
+    type: 'string',
+    description: 'アラートメールを送信するSMTPサーバー（認証情報は環境変数 SMTP_USER / SMTP_PASSWORD）',
+    category: 'notification'
+  },
+  {
+    key: ALERT_CHANNEL_SETTING_KEYS.smtpPort,
+    value: '587',
+    type: 'number',
+    description: 'SMTPサーバーのポート',
+    category: 'notification'
+  },
+  {
+    key: ALERT_CHANNEL_SETTING_KEYS.smtpSecure,
+    value: 'false',
+    type: 'boolean',
+    description: '接続時からTLSを使う（465番ポート）。無効の場合はサーバーが対応していればSTARTTLSを使う',
+    category: 'notification'
+  },
+  {
+    key: ALERT_CHANNEL_SETTING_KEYS.smtpFrom,
+    value: '',
+    type: 'string',
+    description: 'アラートメールの送信元アドレス',
+    category: 'notification'
+  },
+  {
+    key: ALERT_CHANNEL_SETTING_KEYS.webhookUrl,
+    value: '',
+    type: 'string',
+    description: 'アラートを送信するWebhookのURL（JSON、環境変数 ALERT_WEBHOOK_SECRET で署名）',
+    category: 'notification'
+  },
+  {
+    key: ALERT_CHANNEL_SETTING_KEYS.chatWebhookUrl,
+    value: '',
+    type: 'string',
+    description: 'アラートを送信するSlack / DiscordのIncoming WebhookのURL',
+    category: 'notification'
+  },
   {
     key: 'schedule_check_interval',
     value: '60',
@@ -269,10 +414,28 @@ export async function PATCH(request: NextRequest) {
         }
         validatedValue = Boolean(value === true || value === 'true').toString();
         break;
+
+      case 'string':
+        if (key === LLM_SETTING_KEYS.provider && !isLLMProviderName(value)) {
+          return NextResponse.json(
+            { error: `Invalid provider: use one of ${Object.keys(LLM_PROVIDER_LABELS).join(', ')}` },
+            { status: 400 }
+          );
+        }
+        if (URL_SETTING_KEYS.includes(key) && value && !/^https?:\/\//.test(String(value).trim())) {
+          return NextResponse.json(
+            { error: 'Invalid URL: the value must start with http:// or https://' },
+            { status: 400 }
+          );
+        }
+        break;
       
       case 'json':
         try {
           JSON.parse(value);
+          if (key === MODEL_PRICING_SETTING_KEY) {
+            parseModelPricing(value);
+          }
         } catch {
           return NextResponse.json(
             { error: 'Invalid JSON value' },
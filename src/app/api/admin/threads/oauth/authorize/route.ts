@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { buildAuthorizeUrl, getThreadsOAuthConfig, OAUTH_STATE_COOKIE, OAUTH_STATE_COOKIE_PATH } from '@/lib/threads-oauth';
+
+// GET: Threads OAuth認可を開始
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userIdは必須です' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true }
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'ユーザーが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const config = getThreadsOAuthConfig();
+
+    // CSRF対策: stateにユーザーIDとランダム値を含め、Cookieと照合する
+    const state = `${user.id}.${randomBytes(16).toString('hex')}`;
+
+    await prisma.adminLog.create({
+      data: {
+        userId: user.id,
+        action: 'threads_oauth_started',
+        details: `Threads OAuth started for ${user.email}`
+      }
+    });
+
+    const response = NextResponse.redirect(buildAuthorizeUrl(config, state));
+    response.cookies.set(OAUTH_STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: OAUTH_STATE_COOKIE_PATH,
+      maxAge: 10 * 60
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Threads OAuth authorize error:', error);
+    return NextResponse.json(
+      {
+        error: 'Threads連携の開始に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  exchangeCodeForToken,
+  exchangeForLongLivedToken,
+  fetchThreadsProfile,
+  getThreadsOAuthConfig,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_COOKIE_PATH
+} from '@/lib/threads-oauth';
+import { encryptToken } from '@/lib/token-crypto';
+
+// 管理画面に結果を返すリダイレクト
+function redirectToPanel(request: NextRequest, status: 'connected' | 'error', detail?: string) {
+  const url = new URL('/', request.url);
+  url.searchParams.set('threads_oauth', status);
+  if (detail) url.searchParams.set('detail', detail);
+
+  const response = NextResponse.redirect(url);
+  // 発行時と同じパスを指定しないと別のCookieとして扱われ、stateが残る
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: OAUTH_STATE_COOKIE_PATH });
+  return response;
+}
+
+// GET: Threads OAuthコールバック
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const oauthError = searchParams.get('error_description') || searchParams.get('error');
+
+  if (oauthError) {
+    return redirectToPanel(request, 'error', oauthError);
+  }
+
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+
+  if (!code || !state || !expectedState || state !== expectedState) {
+    return redirectToPanel(request, 'error', 'invalid_state');
+  }
+
+  const userId = state.split('.')[0];
+
+  try {
+    const config = getThreadsOAuthConfig();
+
+    // 認可コード → 短期トークン → 長期トークン
+    const shortLived = await exchangeCodeForToken(config, code);
+    const longLived = await exchangeForLongLivedToken(config, shortLived.accessToken);
+    const profile = await fetchThreadsProfile(longLived.accessToken);
+
+    const accountData = {
+      threadsUserId: profile.id || shortLived.threadsUserId,
+      accessToken: encryptToken(longLived.accessToken),
+      refreshToken: null,
+      username: profile.username,
+      profileUrl: `https://www.threads.net/@${profile.username}`,
+      isActive: true,
+      tokenExpiresAt: longLived.expiresAt,
+      lastRefreshedAt: new Date()
+    };
+
+    await prisma.threadsAccount.upsert({
+      where: { userId },
+      update: accountData,
+      create: { userId, ...accountData }
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        userId,
+        action: 'threads_account_connected',
+        details: `Threads account connected: @${profile.username}`
+      }
+    });
+
+    return redirectToPanel(request, 'connected', profile.username);
+
+  } catch (error) {
+    console.error('Threads OAuth callback error:', error);
+
+    await prisma.adminLog.create({
+      data: {
+        userId,
+        action: 'threads_oauth_error',
+        details: `Threads OAuth failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    });
+
+    return redirectToPanel(request, 'error', error instanceof Error ? error.message : 'unknown_error');
+  }
+}
@@ -1,101 +1,157 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { describePublishError, publishTextForUser, publishThreadForPost } from '@/lib/threads-publisher';
+import { createContentValidationErrorResponse, validatePostContent, validateThreadContent } from '@/lib/content-validator';
+import { joinSegments, parseThreadSegments } from '@/lib/thread-segments';
+import { parsePostMediaInput, PostMediaInput } from '@/lib/media-rules';
+import { findMissingMediaFiles } from '@/lib/media-storage';
+
+// 添付メディアを投稿と一緒に保存する際のデータ
+function toMediaCreateData(media: PostMediaInput[]) {
+  return media.length > 0
+    ? { create: media.map((item, position) => ({ position, ...item })) }
+    : undefined;
+}
+
+// スレッド投稿（返信チェーン）を公開
+// 途中で失敗しても公開済みのセグメントが残るよう、投稿を保存してから公開する
+async function publishThread(userId: string, segments: string[], media: PostMediaInput[]) {
+  const post = await prisma.post.create({
+    data: {
+      userId,
+      content: joinSegments(segments),
+      status: 'publishing',
+      segments: {
+        create: segments.map((content, position) => ({ position, content }))
+      },
+      media: toMediaCreateData(media)
+    }
+  });
+
+  try {
+    const outcome = await publishThreadForPost(post);
+    const isDemo = outcome.mode === 'demo';
+
+    const publishedPost = await prisma.post.update({
+      where: { id: post.id },
+      data: {
+        status: 'published',
+        publishedAt: new Date(),
+        threadsPostId: outcome.threadsPostId
+      }
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        action: isDemo ? 'threads_post_demo' : 'threads_post_published',
+        details: isDemo
+          ? `Demo thread created (${segments.length} posts): ${post.content.substring(0, 50)}...`
+          : `Successfully posted thread (${segments.length} posts) to Threads as @${outcome.username}: ${outcome.threadsPostId}`
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      mode: outcome.mode,
+      data: {
+        id: publishedPost.id,
+        threadsPostId: publishedPost.threadsPostId,
+        content: publishedPost.content,
+        segments: segments.length,
+        publishedAt: publishedPost.publishedAt,
+        views: publishedPost.views,
+        engagements: publishedPost.engagements,
+        message: isDemo
+          ? `デモモードでスレッド（${segments.length}件）の投稿をシミュレーションしました`
+          : `スレッド（${segments.length}件）をThreadsに投稿しました`
+      }
+    });
+
+  } catch (apiError) {
+    console.error('Threads API Error:', apiError);
+    const failure = describePublishError(apiError);
+
+    // 公開済みのセグメントは残し、投稿管理から続きを公開できるようにする
+    await prisma.post.update({
+      where: { id: post.id },
+      data: {
+        status: 'failed',
+        error: failure.message
+      }
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'threads_post_failed',
+        details: `Failed to post thread to Threads: ${failure.message}`
+      }
+    });
+
+    return NextResponse.json(
+      {
+        error: failure.error,
+        details: failure.message,
+        errorKind: failure.errorKind,
+        issues: failure.issues,
+        thread: failure.thread,
+        postId: post.id
+      },
+      { status: failure.status }
+    );
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { content, userId = 'admin-system', scheduleFor } = await request.json();
+    const { content, segments: rawSegments, media: rawMedia, userId = 'admin-system', scheduleFor } = await request.json();
 
-    if (!content) {
+    const { segments, error: segmentsError } = parseThreadSegments(rawSegments);
+    if (segmentsError) {
       return NextResponse.json(
-        { error: 'Content is required' },
+        { error: segmentsError },
         { status: 400 }
       );
     }
 
-    // Threads API endpoint (Meta Graph API)
-    const THREADS_API_URL = 'https://graph.threads.net/v1.0';
-    
-    // 実際のThreads APIキーが必要な場合のための環境変数
-    const threadsAccessToken = process.env.THREADS_ACCESS_TOKEN;
-    
-    if (!threadsAccessToken) {
-      // デモモード: 実際のAPIキーがない場合はシミュレーション
-      console.log('📝 Threads API Demo Mode - Simulating post submission');
-      
-      // データベースに投稿を保存（デモモード）
-      const post = await prisma.post.create({
-        data: {
-          userId,
-          content,
-          status: 'published',
-          publishedAt: scheduleFor ? new Date(scheduleFor) : new Date(),
-          threadsPostId: `demo_${Date.now()}`,
-          views: Math.floor(Math.random() * 100),
-          engagements: Math.floor(Math.random() * 20)
-        }
-      });
-
-      // 管理ログに記録
-      await prisma.adminLog.create({
-        data: {
-          action: 'threads_post_demo',
-          details: `Demo post created: ${content.substring(0, 50)}...`
-        }
-      });
-
-      return NextResponse.json({
-        success: true,
-        mode: 'demo',
-        data: {
-          id: post.id,
-          threadsPostId: post.threadsPostId,
-          content: post.content,
-          publishedAt: post.publishedAt,
-          views: post.views,
-          engagements: post.engagements,
-          message: 'デモモードで投稿をシミュレーションしました'
-        }
-      });
+    if (!content && !segments) {
+      return NextResponse.json(
+        { error: 'Content is required' },
+        { status: 400 }
+      );
     }
 
-    // 実際のThreads API呼び出し
-    try {
-      // Step 1: Create media container
-      const mediaResponse = await fetch(`${THREADS_API_URL}/me/threads`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${threadsAccessToken}`
-        },
-        body: JSON.stringify({
-          media_type: 'TEXT',
-          text: content
-        })
-      });
-
-      const mediaData = await mediaResponse.json();
+    // 添付メディアは1件なら画像・動画、2件以上ならカルーセルとして公開する
+    const { media, error: mediaError } = parsePostMediaInput(rawMedia);
+    if (mediaError) {
+      return NextResponse.json(
+        { error: mediaError },
+        { status: 400 }
+      );
+    }
 
-      if (!mediaResponse.ok) {
-        throw new Error(`Threads API Error: ${mediaData.error?.message || 'Unknown error'}`);
-      }
+    if ((await findMissingMediaFiles(media)).length > 0) {
+      return NextResponse.json(
+        { error: '添付メディアのファイルが見つかりません。アップロードし直してください' },
+        { status: 400 }
+      );
+    }
 
-      // Step 2: Publish the post
-      const publishResponse = await fetch(`${THREADS_API_URL}/me/threads_publish`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${threadsAccessToken}`
-        },
-        body: JSON.stringify({
-          creation_id: mediaData.id
-        })
-      });
+    // 投稿ルールに違反する内容は投稿履歴を作らずに差し戻す
+    const validation = segments
+      ? await validateThreadContent(segments.map((segment, position) => ({ position, content: segment })), { userId })
+      : await validatePostContent(content, { userId });
+    if (!validation.valid) {
+      return createContentValidationErrorResponse(validation);
+    }
 
-      const publishData = await publishResponse.json();
+    if (segments) {
+      return await publishThread(userId, segments, media);
+    }
 
-      if (!publishResponse.ok) {
-        throw new Error(`Threads Publish Error: ${publishData.error?.message || 'Unknown error'}`);
-      }
+    // 投稿者の連携済みThreadsアカウントで投稿
+    try {
+      const outcome = await publishTextForUser(userId, content, { media });
+      const isDemo = outcome.mode === 'demo';
 
       // データベースに投稿を保存（成功）
       const post = await prisma.post.create({
@@ -103,35 +159,39 @@ export async function POST(request: NextRequest) {
           userId,
           content,
           status: 'published',
-          publishedAt: new Date(),
-          threadsPostId: publishData.id,
-          views: 0,
-          engagements: 0
+          publishedAt: isDemo && scheduleFor ? new Date(scheduleFor) : new Date(),
+          threadsPostId: outcome.threadsPostId,
+          media: toMediaCreateData(media)
         }
       });
 
       // 管理ログに記録
       await prisma.adminLog.create({
         data: {
-          action: 'threads_post_published',
-          details: `Successfully posted to Threads: ${publishData.id}`
+          action: isDemo ? 'threads_post_demo' : 'threads_post_published',
+          details: isDemo
+            ? `Demo post created: ${content.substring(0, 50)}...`
+            : `Successfully posted to Threads as @${outcome.username}: ${outcome.threadsPostId}`
         }
       });
 
       return NextResponse.json({
         success: true,
-        mode: 'live',
+        mode: outcome.mode,
         data: {
           id: post.id,
           threadsPostId: post.threadsPostId,
           content: post.content,
           publishedAt: post.publishedAt,
-          message: 'Threadsに正常に投稿されました'
+          views: post.views,
+          engagements: post.engagements,
+          message: isDemo ? 'デモモードで投稿をシミュレーションしました' : 'Threadsに正常に投稿されました'
         }
       });
 
     } catch (apiError) {
       console.error('Threads API Error:', apiError);
+      const failure = describePublishError(apiError);
       
       // データベースに失敗した投稿を記録
       const post = await prisma.post.create({
@@ -139,7 +199,8 @@ export async function POST(request: NextRequest) {
           userId,
           content,
           status: 'failed',
-          error: apiError instanceof Error ? apiError.message : 'Unknown API error'
+          error: failure.message,
+          media: toMediaCreateData(media)
         }
       });
 
@@ -147,17 +208,19 @@ export async function POST(request: NextRequest) {
       await prisma.adminLog.create({
         data: {
           action: 'threads_post_failed',
-          details: `Failed to post to Threads: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`
+          details: `Failed to post to Threads: ${failure.message}`
         }
       });
 
       return NextResponse.json(
         { 
-          error: 'Threads投稿に失敗しました',
-          details: apiError instanceof Error ? apiError.message : 'Unknown error',
+          error: failure.error,
+          details: failure.message,
+          errorKind: failure.errorKind,
+          issues: failure.issues,
           postId: post.id
         },
-        { status: 500 }
+        { status: failure.status }
       );
     }
 
@@ -23,6 +23,7 @@ export async function GET(
             username: true,
             profileUrl: true,
             isActive: true,
+            tokenExpiresAt: true,
             createdAt: true
           }
         },
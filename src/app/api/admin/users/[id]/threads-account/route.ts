@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getTokenKeyId, maskToken } from '@/lib/token-crypto';
+
+// GET: Threads連携状態を取得
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const account = await prisma.threadsAccount.findUnique({
+      where: { userId: params.id },
+      select: {
+        username: true,
+        profileUrl: true,
+        accessToken: true,
+        refreshToken: true,
+        isActive: true,
+        tokenExpiresAt: true,
+        lastRefreshedAt: true,
+        createdAt: true
+      }
+    });
+
+    // トークンはマスクした値と暗号化に使った鍵IDのみ返す
+    return NextResponse.json({
+      success: true,
+      data: {
+        connected: !!account,
+        account: account && {
+          ...account,
+          accessToken: maskToken(account.accessToken),
+          refreshToken: maskToken(account.refreshToken),
+          tokenKeyId: getTokenKeyId(account.accessToken)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Threads account fetch error:', error);
+    return NextResponse.json(
+      { error: 'Threads連携状態の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Threads連携を解除
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const account = await prisma.threadsAccount.findUnique({
+      where: { userId: params.id },
+      select: { id: true, username: true }
+    });
+
+    if (!account) {
+      return NextResponse.json(
+        { error: 'Threadsアカウントは連携されていません' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.threadsAccount.delete({
+      where: { id: account.id }
+    });
+
+    // 管理ログに記録
+    await prisma.adminLog.create({
+      data: {
+        userId: params.id,
+        action: 'threads_account_disconnected',
+        details: `Threads account disconnected: @${account.username}`
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Threads連携を解除しました'
+    });
+
+  } catch (error) {
+    console.error('Threads account disconnect error:', error);
+    return NextResponse.json(
+      { error: 'Threads連携の解除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -50,7 +50,8 @@ export async function GET(request: NextRequest) {
           threadsAccount: {
             select: {
               username: true,
-              isActive: true
+              isActive: true,
+              tokenExpiresAt: true
             }
           }
         }
@@ -12,7 +12,7 @@ export async function POST() {
     return NextResponse.json({
       success: true,
       message: 'Background worker initialized successfully',
-      status: backgroundWorker.getStatus()
+      status: await backgroundWorker.getStatus()
     });
     
   } catch (error) {
@@ -31,7 +31,7 @@ export async function POST() {
 // Health check for the background worker
 export async function GET() {
   try {
-    const status = backgroundWorker.getStatus();
+    const status = await backgroundWorker.getStatus();
     
     return NextResponse.json({
       success: true,
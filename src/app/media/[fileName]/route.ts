@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readMediaFile } from '@/lib/media-storage';
+
+// GET: アップロードしたメディアの配信（Threads が公開時に取得するため認証しない）
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileName: string } }
+) {
+  const file = await readMediaFile(params.fileName);
+
+  if (!file) {
+    return NextResponse.json(
+      { error: 'メディアが見つかりません' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': file.mimeType,
+      'Content-Length': String(file.data.length),
+      'Cache-Control': 'public, max-age=31536000, immutable'
+    }
+  });
+}
@@ -16,7 +16,8 @@ import {
   BarChart3,
   Settings,
   Bell,
-  Monitor
+  Monitor,
+  FileCode
 } from 'lucide-react';
 import AIGeneratorForm from '@/components/AIGeneratorForm';
 import UserManagementContainer from '@/components/UserManagementContainer';
@@ -27,8 +28,10 @@ import SystemSettingsContainer from '@/components/SystemSettingsContainer';
 import UsageMonitoring from '@/components/UsageMonitoring';
 import MaintenanceControl from '@/components/MaintenanceControl';
 import AlertManagement from '@/components/AlertManagement';
+import PromptTemplateManagement from '@/components/PromptTemplateManagement';
 import NotificationCenter from '@/components/NotificationCenter';
 import StartupInitializer from '@/components/StartupInitializer';
+import { useNotificationStream } from '@/lib/use-notification-stream';
 
 interface DashboardStats {
   totalUsers: number;
@@ -65,6 +68,10 @@ export default function AdminDashboard() {
   const [seeding, setSeeding] = useState(false);
   const [activeSection, setActiveSection] = useState<string>('dashboard');
   const [showNotifications, setShowNotifications] = useState(false);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+
+  // 未読数は通知ストリームから受け取る
+  useNotificationStream({ onUnreadCount: setUnreadNotifications });
 
   const fetchData = async () => {
     try {
@@ -226,10 +233,15 @@ export default function AdminDashboard() {
             <div className="flex items-center gap-4">
               <button
                 onClick={() => setShowNotifications(true)}
-                className="flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors"
+                className="relative flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors"
               >
                 <Bell className="w-5 h-5" />
                 <span className="text-sm">通知</span>
+                {unreadNotifications > 0 && (
+                  <span className="absolute -top-2 -left-2 min-w-[1.25rem] bg-red-500 text-white text-xs rounded-full px-1.5 py-0.5 text-center">
+                    {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                  </span>
+                )}
               </button>
               
               <div className="flex items-center gap-2 text-green-400">
@@ -360,6 +372,17 @@ export default function AdminDashboard() {
             <p className="text-purple-100 text-sm">定期投稿・自動実行の設定</p>
           </motion.button>
 
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => setActiveSection('prompts')}
+            className="bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800 text-white p-6 rounded-2xl text-left transition-all duration-300 shadow-lg"
+          >
+            <FileCode className="w-8 h-8 mb-4" />
+            <h3 className="text-lg font-semibold mb-2">プロンプト管理</h3>
+            <p className="text-teal-100 text-sm">AI生成のテンプレートと投稿ルール</p>
+          </motion.button>
+
           <motion.button
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
@@ -538,6 +561,24 @@ export default function AdminDashboard() {
           </motion.div>
         )}
 
+        {activeSection === 'prompts' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <div className="flex items-center gap-4 mb-6">
+              <button
+                onClick={() => setActiveSection('dashboard')}
+                className="text-teal-600 hover:text-teal-800 font-medium transition-colors"
+              >
+                ← ダッシュボードに戻る
+              </button>
+            </div>
+            <PromptTemplateManagement />
+          </motion.div>
+        )}
+
         {activeSection === 'analytics' && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
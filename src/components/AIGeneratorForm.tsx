@@ -1,22 +1,100 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Wand2, Copy, RefreshCw, Send } from 'lucide-react';
+import { Wand2, Copy, RefreshCw, Send, Calendar, CheckCircle, Square, Scissors } from 'lucide-react';
+import { MAX_AI_VARIANTS, VariantSelectionPurpose } from '@/lib/ai-variants';
+import type { ContentValidationResult } from '@/lib/content-rules';
+import { MAX_THREAD_SEGMENTS, splitIntoSegments } from '@/lib/thread-segments';
+import ContentValidationPanel from './ContentValidationPanel';
 
 interface AIGeneratorFormProps {
   onGenerate?: (result: any) => void;
 }
 
+interface GeneratedVariant {
+  id: string;
+  variantIndex: number;
+  text: string;
+  model: string;
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+  promptTemplateId: string | null;
+  promptTemplateVersion: number | null;
+  timestamp: string;
+}
+
+interface PromptTemplateOption {
+  id: string;
+  name: string;
+  version: number;
+}
+
+interface GenerationBatch {
+  batchId: string;
+  topic: string;
+  variants: GeneratedVariant[];
+}
+
+// 候補数ごとの横並びのレイアウト
+const VARIANT_GRID_CLASSES: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-2 xl:grid-cols-4'
+};
+
+// /api/admin/generate/stream が送るイベント
+type StreamEvent =
+  | { event: 'start'; data: { model: string } }
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'done'; data: GeneratedVariant & { batchId: string } }
+  | { event: 'error'; data: { error?: string } };
+
+// 受信済みのテキストから完結した server-sent events を取り出し、残りを返す
+function parseStreamEvents(buffer: string): { events: StreamEvent[]; rest: string } {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events = blocks.map(block => {
+    const lines = block.split('\n');
+    const event = lines.find(line => line.startsWith('event:'))?.slice(6).trim() || 'message';
+    const data = lines
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('\n');
+    return { event, data: data ? JSON.parse(data) : {} } as StreamEvent;
+  });
+
+  return { events, rest };
+}
+
 export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
   const [topic, setTopic] = useState('');
   const [tone, setTone] = useState('casual');
   const [length, setLength] = useState('medium');
+  const [variantCount, setVariantCount] = useState(1);
+  const [templateId, setTemplateId] = useState('');
+  const [templates, setTemplates] = useState<PromptTemplateOption[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [result, setResult] = useState<any>(null);
+  const [result, setResult] = useState<GenerationBatch | null>(null);
   const [error, setError] = useState('');
-  const [isPosting, setIsPosting] = useState(false);
-  const [postResult, setPostResult] = useState<any>(null);
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ id: string; selectedFor: VariantSelectionPurpose; message: string } | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [validations, setValidations] = useState<Record<string, ContentValidationResult | null>>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 有効なプロンプトテンプレートを選択肢として読み込む
+  useEffect(() => {
+    fetch('/api/admin/prompt-templates?isActive=true')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setTemplates(data?.data || []))
+      .catch(err => console.error('Prompt templates fetch error:', err));
+  }, []);
 
   const handleGenerate = async () => {
     if (!topic.trim()) {
@@ -27,6 +105,14 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
     setIsGenerating(true);
     setError('');
     setResult(null);
+    setSelected(null);
+    setValidations({});
+
+    // 候補が1件の場合は生成された文章を届いた順に表示する
+    if (variantCount === 1) {
+      await handleStreamGenerate();
+      return;
+    }
 
     try {
       const response = await fetch('/api/admin/generate', {
@@ -37,7 +123,9 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
         body: JSON.stringify({
           topic: topic.trim(),
           tone,
-          length
+          length,
+          variants: variantCount,
+          templateId: templateId || undefined
         }),
       });
 
@@ -57,22 +145,98 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
     }
   };
 
-  const copyToClipboard = () => {
-    if (result?.text) {
-      navigator.clipboard.writeText(result.text);
-      alert('📋 クリップボードにコピーしました！');
+  const handleStreamGenerate = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStreamingText('');
+
+    try {
+      const response = await fetch('/api/admin/generate/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          topic: topic.trim(),
+          tone,
+          length,
+          templateId: templateId || undefined
+        }),
+        signal: abortController.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'AI生成に失敗しました');
+        return;
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        const parsed = parseStreamEvents(buffer + value);
+        buffer = parsed.rest;
+
+        for (const streamEvent of parsed.events) {
+          if (streamEvent.event === 'delta') {
+            const { text } = streamEvent.data;
+            setStreamingText(prev => (prev || '') + text);
+          } else if (streamEvent.event === 'done') {
+            const batch: GenerationBatch = { batchId: streamEvent.data.batchId, topic: topic.trim(), variants: [streamEvent.data] };
+            setResult(batch);
+            onGenerate?.(batch);
+          } else if (streamEvent.event === 'error') {
+            setError(streamEvent.data.error || 'AI生成に失敗しました');
+          }
+        }
+      }
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        setError('生成をキャンセルしました');
+      } else {
+        setError('ネットワークエラーが発生しました');
+        console.error('AI streaming generation error:', err);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingText(null);
+      setIsGenerating(false);
     }
   };
 
-  const postToThreads = async () => {
-    if (!result?.text) {
-      setError('投稿する内容がありません');
-      return;
+  // 生成中のストリームを中断（中断した生成は履歴に保存されない）
+  const cancelGenerate = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const copyToClipboard = (variant: GeneratedVariant) => {
+    navigator.clipboard.writeText(variant.text);
+    alert('📋 クリップボードにコピーしました！');
+  };
+
+  // 投稿・予約に使った候補を記録（どの候補が選ばれやすいかの分析に使う）
+  const recordSelection = async (variant: GeneratedVariant, selectedFor: VariantSelectionPurpose, postId: string) => {
+    try {
+      await fetch('/api/admin/generate/select', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ generationId: variant.id, selectedFor, postId }),
+      });
+    } catch (err) {
+      console.error('AI variant selection error:', err);
     }
+  };
 
-    setIsPosting(true);
+  // segments を渡すとスレッド（返信チェーン）として投稿する
+  const postToThreads = async (variant: GeneratedVariant, segments?: string[]) => {
+    setProcessingId(variant.id);
     setError('');
-    setPostResult(null);
 
     try {
       const response = await fetch('/api/admin/threads/post', {
@@ -81,7 +245,7 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          content: result.text,
+          ...(segments ? { segments } : { content: variant.text }),
           userId: 'admin-system'
         }),
       });
@@ -89,9 +253,9 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
       const data = await response.json();
 
       if (response.ok) {
-        setPostResult(data.data);
+        await recordSelection(variant, 'post', data.data.id);
+        setSelected({ id: variant.id, selectedFor: 'post', message: `${data.data.message}（投稿ID: ${data.data.threadsPostId}）` });
         onGenerate?.(data.data); // データ更新のコールバック
-        alert(`🎉 ${data.data.message}\n\n投稿ID: ${data.data.threadsPostId}`);
       } else {
         setError(data.error || 'Threads投稿に失敗しました');
       }
@@ -99,7 +263,50 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
       setError('ネットワークエラーが発生しました');
       console.error('Threads post error:', err);
     } finally {
-      setIsPosting(false);
+      setProcessingId(null);
+    }
+  };
+
+  const schedulePost = async (variant: GeneratedVariant) => {
+    if (!scheduledFor) {
+      setError('予約日時を入力してください');
+      return;
+    }
+
+    setProcessingId(variant.id);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/posts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          content: variant.text,
+          userId: 'admin-system',
+          scheduledFor: new Date(scheduledFor).toISOString()
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await recordSelection(variant, 'schedule', data.data.id);
+        setSelected({
+          id: variant.id,
+          selectedFor: 'schedule',
+          message: `${new Date(scheduledFor).toLocaleString('ja-JP')} に予約しました`
+        });
+        onGenerate?.(data.data);
+      } else {
+        setError(data.error || '予約投稿の作成に失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Schedule post error:', err);
+    } finally {
+      setProcessingId(null);
     }
   };
 
@@ -116,27 +323,43 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
         </div>
         <div>
           <h2 className="text-xl font-bold text-gray-900">AI投稿生成</h2>
-          <p className="text-gray-600 text-sm">実際のGemini APIを使用して投稿を生成</p>
+          <p className="text-gray-600 text-sm">設定したAIプロバイダーで投稿の候補を生成し、比較して選択</p>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* 入力フォーム */}
+      {/* 入力フォーム */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            トピック *
+          </label>
+          <textarea
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder="例: 今日の天気について、新しい技術のトレンド、おすすめのカフェ..."
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+            rows={4}
+          />
+        </div>
+
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              トピック *
+              プロンプトテンプレート
             </label>
-            <textarea
-              value={topic}
-              onChange={(e) => setTopic(e.target.value)}
-              placeholder="例: 今日の天気について、新しい技術のトレンド、おすすめのカフェ..."
-              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
-              rows={3}
-            />
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="">標準のプロンプト</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}（v{template.version}）</option>
+              ))}
+            </select>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 トーン
@@ -167,121 +390,193 @@ export default function AIGeneratorForm({ onGenerate }: AIGeneratorFormProps) {
                 <option value="long">長い</option>
               </select>
             </div>
-          </div>
 
-          <motion.button
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            onClick={handleGenerate}
-            disabled={isGenerating || !topic.trim()}
-            className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
-          >
-            {isGenerating ? (
-              <>
-                <RefreshCw className="w-5 h-5 animate-spin" />
-                生成中...
-              </>
-            ) : (
-              <>
-                <Wand2 className="w-5 h-5" />
-                投稿を生成
-              </>
-            )}
-          </motion.button>
-
-          {error && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-              <p className="text-red-700 text-sm">❌ {error}</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                候補数
+              </label>
+              <select
+                value={variantCount}
+                onChange={(e) => setVariantCount(Number(e.target.value))}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {Array.from({ length: MAX_AI_VARIANTS }, (_, index) => index + 1).map(count => (
+                  <option key={count} value={count}>{count}件</option>
+                ))}
+              </select>
             </div>
-          )}
-        </div>
+          </div>
 
-        {/* 結果表示 */}
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              生成結果
-            </label>
-            <div className="h-48 p-4 border border-gray-300 rounded-lg bg-gray-50 overflow-y-auto">
-              {result ? (
-                <div className="space-y-3">
-                  <div className="bg-white p-3 rounded-lg border">
-                    <p className="text-gray-900 whitespace-pre-wrap">{result.text}</p>
-                  </div>
-                  <div className="flex items-center justify-between text-xs text-gray-500">
-                    <span>トークン使用量: {result.tokensUsed}</span>
-                    <span>{new Date(result.timestamp).toLocaleString('ja-JP')}</span>
-                  </div>
-                </div>
+          {streamingText !== null ? (
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={cancelGenerate}
+              className="w-full bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-300 flex items-center justify-center gap-2"
+            >
+              <Square className="w-5 h-5" />
+              生成をキャンセル
+            </motion.button>
+          ) : (
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={handleGenerate}
+              disabled={isGenerating || !topic.trim()}
+              className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+            >
+              {isGenerating ? (
+                <>
+                  <RefreshCw className="w-5 h-5 animate-spin" />
+                  生成中...
+                </>
               ) : (
-                <div className="flex items-center justify-center h-full text-gray-400">
-                  {isGenerating ? (
-                    <div className="text-center">
-                      <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-2" />
-                      <p>AI生成中...</p>
-                    </div>
-                  ) : (
-                    <p>ここに生成された投稿が表示されます</p>
-                  )}
-                </div>
+                <>
+                  <Wand2 className="w-5 h-5" />
+                  {variantCount > 1 ? `${variantCount}件の候補を生成` : '投稿を生成'}
+                </>
               )}
-            </div>
+            </motion.button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">❌ {error}</p>
+        </div>
+      )}
+
+      {/* 結果表示 */}
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          生成結果
+        </label>
+        {result && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>予約日時</span>
+            <input
+              type="datetime-local"
+              value={scheduledFor}
+              onChange={(e) => setScheduledFor(e.target.value)}
+              className="p-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
           </div>
+        )}
+      </div>
 
-          {result && (
-            <div className="space-y-3">
-              <motion.button
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={copyToClipboard}
-                className="w-full bg-gray-600 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 flex items-center justify-center gap-2"
-              >
-                <Copy className="w-4 h-4" />
-                クリップボードにコピー
-              </motion.button>
+      {result ? (
+        <div className={`grid ${VARIANT_GRID_CLASSES[result.variants.length] || VARIANT_GRID_CLASSES[4]} gap-4`}>
+          {result.variants.map(variant => {
+            const isSelected = selected?.id === variant.id;
+            const isProcessing = processingId === variant.id;
+            // 投稿ルールに違反する候補は投稿・予約できない
+            const isBlocked = validations[variant.id]?.valid === false;
+            // 文字数の上限だけが理由なら、文の区切りで分割してスレッドとして投稿できる
+            const threadSegments = isBlocked && validations[variant.id]?.issues
+              .filter(issue => issue.severity === 'error')
+              .every(issue => issue.rule === 'length')
+              ? splitIntoSegments(variant.text)
+              : null;
 
-              <motion.button
+            return (
+              <motion.div
+                key={variant.id}
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 }}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={postToThreads}
-                disabled={isPosting}
-                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                transition={{ delay: variant.variantIndex * 0.05 }}
+                className={`flex flex-col p-4 border rounded-lg ${
+                  isSelected ? 'border-green-400 bg-green-50' : selected ? 'border-gray-200 bg-gray-50 opacity-60' : 'border-gray-300 bg-gray-50'
+                }`}
               >
-                {isPosting ? (
-                  <>
-                    <RefreshCw className="w-4 h-4 animate-spin" />
-                    投稿中...
-                  </>
+                {result.variants.length > 1 && (
+                  <p className="text-xs font-medium text-purple-600 mb-2">候補 {variant.variantIndex + 1}</p>
+                )}
+                <div className="flex-1 bg-white p-3 rounded-lg border">
+                  <p className="text-gray-900 whitespace-pre-wrap">{variant.text}</p>
+                </div>
+                <div className="mb-2">
+                  <ContentValidationPanel
+                    content={variant.text}
+                    onResult={(validation) => setValidations(prev => ({ ...prev, [variant.id]: validation }))}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  {variant.model} ・ トークン使用量: {variant.tokensUsed}（入力 {variant.promptTokens} / 出力 {variant.completionTokens}）
+                  {variant.cost !== null && ` ・ $${variant.cost.toFixed(6)}`}
+                  {variant.promptTemplateVersion !== null && ` ・ テンプレート v${variant.promptTemplateVersion}`}
+                </p>
+
+                {isSelected ? (
+                  <div className="flex items-center gap-2 text-sm text-green-700">
+                    <CheckCircle className="w-4 h-4" />
+                    {selected.message}
+                  </div>
                 ) : (
-                  <>
-                    <Send className="w-4 h-4" />
-                    Threadsに投稿
-                  </>
+                  <div className="grid grid-cols-3 gap-2">
+                    <button
+                      onClick={() => copyToClipboard(variant)}
+                      className="bg-gray-600 hover:bg-gray-700 text-white text-sm font-medium py-2 px-2 rounded-lg transition-all duration-300 flex items-center justify-center gap-1"
+                    >
+                      <Copy className="w-4 h-4" />
+                      コピー
+                    </button>
+                    <button
+                      onClick={() => postToThreads(variant)}
+                      disabled={processingId !== null || selected !== null || isBlocked}
+                      title={isBlocked ? '投稿ルールに違反しています' : undefined}
+                      className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white text-sm font-medium py-2 px-2 rounded-lg transition-all duration-300 flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isProcessing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                      投稿
+                    </button>
+                    <button
+                      onClick={() => schedulePost(variant)}
+                      disabled={processingId !== null || selected !== null || !scheduledFor || isBlocked}
+                      title={isBlocked ? '投稿ルールに違反しています' : scheduledFor ? undefined : '予約日時を入力してください'}
+                      className="bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium py-2 px-2 rounded-lg transition-all duration-300 flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Calendar className="w-4 h-4" />
+                      予約
+                    </button>
+                    {threadSegments && threadSegments.length <= MAX_THREAD_SEGMENTS && (
+                      <button
+                        onClick={() => postToThreads(variant, threadSegments)}
+                        disabled={processingId !== null || selected !== null}
+                        className="col-span-3 bg-white border border-purple-300 text-purple-700 hover:bg-purple-50 text-sm font-medium py-2 px-2 rounded-lg transition-all duration-300 flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Scissors className="w-4 h-4" />
+                        スレッドに分割して投稿（{threadSegments.length}件）
+                      </button>
+                    )}
+                  </div>
                 )}
-              </motion.button>
-
-              {postResult && (
-                <motion.div
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="p-3 bg-green-50 border border-green-200 rounded-lg"
-                >
-                  <p className="text-green-700 text-sm">
-                    ✅ {postResult.message}
-                    <br />
-                    投稿ID: {postResult.threadsPostId}
-                  </p>
-                </motion.div>
-              )}
+              </motion.div>
+            );
+          })}
+        </div>
+      ) : streamingText ? (
+        <div className="p-4 border border-gray-300 rounded-lg bg-gray-50">
+          <div className="bg-white p-3 rounded-lg border mb-3">
+            <p className="text-gray-900 whitespace-pre-wrap">
+              {streamingText}
+              <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-purple-500 animate-pulse" />
+            </p>
+          </div>
+          <p className="text-xs text-gray-500">{streamingText.length}文字 ・ 生成中...</p>
+        </div>
+      ) : (
+        <div className="h-48 p-4 border border-gray-300 rounded-lg bg-gray-50 flex items-center justify-center text-gray-400">
+          {isGenerating ? (
+            <div className="text-center">
+              <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-2" />
+              <p>AI生成中...</p>
             </div>
+          ) : (
+            <p>ここに生成された投稿が表示されます</p>
           )}
         </div>
-      </div>
+      )}
     </motion.div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, Mail, MessageSquare, RefreshCw, Send, Webhook, XCircle } from 'lucide-react';
+import { ALERT_CHANNEL_LABELS, AlertChannel } from '@/lib/alert-rules';
+
+interface ChannelStatus {
+  channel: AlertChannel;
+  configured: boolean;
+  target: string | null;
+  reason?: string;
+}
+
+interface AlertDelivery {
+  id: string;
+  channel: AlertChannel;
+  target: string;
+  status: 'pending' | 'retrying' | 'success' | 'failed' | 'skipped';
+  attempts: number;
+  statusCode?: number | null;
+  error?: string | null;
+  isTest: boolean;
+  title: string;
+  createdAt: string;
+  rule?: { name: string } | null;
+}
+
+const CHANNEL_ICONS: Record<AlertChannel, React.ReactNode> = {
+  webhook: <Webhook className="w-5 h-5 text-purple-500" />,
+  chat: <MessageSquare className="w-5 h-5 text-green-500" />,
+  email: <Mail className="w-5 h-5 text-blue-500" />
+};
+
+const DELIVERY_STATUS_STYLES: Record<AlertDelivery['status'], { label: string; className: string }> = {
+  pending: { label: '送信中', className: 'bg-gray-100 text-gray-800' },
+  retrying: { label: '再試行中', className: 'bg-yellow-100 text-yellow-800' },
+  success: { label: '成功', className: 'bg-green-100 text-green-800' },
+  failed: { label: '失敗', className: 'bg-red-100 text-red-800' },
+  skipped: { label: '未設定', className: 'bg-gray-100 text-gray-600' }
+};
+
+// アラートの送信チャンネル（Webhook・Slack/Discord・メール）の設定状況、テスト送信、送信記録
+// 送信先はシステム設定の「notification」カテゴリで変更する
+export default function AlertChannelSettings() {
+  const [channels, setChannels] = useState<ChannelStatus[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [testingChannel, setTestingChannel] = useState<AlertChannel | null>(null);
+
+  const fetchChannels = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/alert-channels');
+      const data = await response.json();
+
+      if (response.ok) {
+        setChannels(data.data.channels);
+        setDeliveries(data.data.deliveries);
+      } else {
+        console.error('Failed to fetch alert channels:', data.error);
+      }
+    } catch (err) {
+      console.error('Alert channels fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTestSend = async (channel: AlertChannel) => {
+    setTestingChannel(channel);
+    try {
+      const response = await fetch('/api/admin/alert-channels', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ channel }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        alert(`✅ ${result.message}`);
+      } else {
+        alert(`❌ ${result.error || 'テスト送信に失敗しました'}`);
+      }
+    } catch (err) {
+      alert('❌ エラーが発生しました');
+      console.error('Alert test send error:', err);
+    } finally {
+      setTestingChannel(null);
+      await fetchChannels();
+    }
+  };
+
+  useEffect(() => {
+    fetchChannels();
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">送信チャンネル</h2>
+          <button
+            onClick={fetchChannels}
+            disabled={loading}
+            className="p-2 text-gray-500 hover:text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+            title="更新"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          送信先はシステム設定の「notification」カテゴリで設定します。ルールのアクションで選んだチャンネルに送信されます。
+        </p>
+
+        <div className="space-y-3">
+          {channels.map(status => (
+            <div key={status.channel} className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
+              {CHANNEL_ICONS[status.channel]}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium text-gray-900">{ALERT_CHANNEL_LABELS[status.channel]}</h3>
+                  {status.configured
+                    ? <CheckCircle className="w-4 h-4 text-green-500" />
+                    : <XCircle className="w-4 h-4 text-gray-400" />}
+                </div>
+                <p className="text-sm text-gray-600 truncate">
+                  {status.configured ? status.target : status.reason}
+                </p>
+              </div>
+              <button
+                onClick={() => handleTestSend(status.channel)}
+                disabled={!status.configured || testingChannel !== null}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1 disabled:opacity-50"
+              >
+                {testingChannel === status.channel
+                  ? <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  : <Send className="w-4 h-4" />}
+                テスト送信
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">送信記録</h2>
+
+        {deliveries.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">送信記録がありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">日時</th>
+                  <th className="py-2 pr-4 font-medium">チャンネル</th>
+                  <th className="py-2 pr-4 font-medium">アラート</th>
+                  <th className="py-2 pr-4 font-medium">結果</th>
+                  <th className="py-2 font-medium">詳細</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+                      {new Date(delivery.createdAt).toLocaleString('ja-JP')}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{ALERT_CHANNEL_LABELS[delivery.channel] || delivery.channel}</td>
+                    <td className="py-2 pr-4">
+                      {delivery.isTest ? 'テスト送信' : delivery.rule?.name || delivery.title}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]?.className || ''}`}>
+                        {DELIVERY_STATUS_STYLES[delivery.status]?.label || delivery.status}
+                      </span>
+                      {delivery.attempts > 1 && (
+                        <span className="ml-2 text-xs text-gray-500">{delivery.attempts}回試行</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-600 break-all">
+                      {delivery.statusCode ? `${delivery.statusCode} ` : ''}{delivery.error || delivery.target}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
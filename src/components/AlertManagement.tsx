@@ -1,85 +1,129 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Bell,
   AlertTriangle,
-  Info,
   CheckCircle,
-  XCircle,
-  Eye,
-  EyeOff,
-  Trash2,
   RefreshCw,
   Plus,
   Settings,
   Filter,
-  Search
+  UserCheck
 } from 'lucide-react';
-
-interface Alert {
+import {
+  ALERT_ACTION_LABELS,
+  ALERT_METRIC_UNIT_LABELS,
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  AlertMetric,
+  AlertOperator,
+  DEFAULT_ALERT_COOLDOWN_MINUTES,
+  formatAlertMetricValue,
+  isAlertMetric
+} from '@/lib/alert-rules';
+import { useNotificationStream } from '@/lib/use-notification-stream';
+import AlertChannelSettings from './AlertChannelSettings';
+
+interface AlertIncidentEvent {
   id: string;
-  title: string;
-  message: string;
-  type: 'info' | 'warning' | 'error' | 'success';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  category: string;
-  isRead: boolean;
-  isActive: boolean;
-  userId?: string;
+  type: 'fired' | 'reopened' | 'acknowledged' | 'resolved';
+  value?: number | null;
+  note?: string | null;
   createdAt: string;
-  updatedAt: string;
 }
 
+interface AlertIncident {
+  id: string;
+  ruleId?: string | null;
+  ruleName: string;
+  metric: string;
+  operator: string;
+  threshold: number;
+  value: number;
+  peakValue: number;
+  status: 'firing' | 'acknowledged' | 'resolved';
+  detectionCount: number;
+  firedAt: string;
+  lastDetectedAt: string;
+  acknowledgeNote?: string | null;
+  resolvedAt?: string | null;
+  events: AlertIncidentEvent[];
+}
+
+const INCIDENT_STATUS_STYLES: Record<AlertIncident['status'], { label: string; className: string; icon: React.ReactNode }> = {
+  firing: { label: '発火中', className: 'bg-red-100 text-red-800', icon: <AlertTriangle className="w-5 h-5 text-red-500" /> },
+  acknowledged: { label: '対応中', className: 'bg-yellow-100 text-yellow-800', icon: <UserCheck className="w-5 h-5 text-yellow-500" /> },
+  resolved: { label: '解消', className: 'bg-green-100 text-green-800', icon: <CheckCircle className="w-5 h-5 text-green-500" /> }
+};
+
+const INCIDENT_EVENT_LABELS: Record<AlertIncidentEvent['type'], string> = {
+  fired: '発火',
+  reopened: '再発（クールダウン中）',
+  acknowledged: '承認',
+  resolved: '解消'
+};
+
 interface AlertRule {
   id: string;
   name: string;
-  condition: string;
+  description?: string;
+  metric: string;
+  operator: string;
   threshold: number;
-  action: string;
-  isEnabled: boolean;
+  actions: string[];
+  cooldownMinutes: number;
+  isActive: boolean;
   lastTriggered?: string;
+  triggerCount: number;
 }
 
+const INITIAL_RULE = {
+  name: '',
+  metric: 'api_usage' as AlertMetric,
+  operator: ALERT_METRICS.api_usage.defaultOperator,
+  threshold: ALERT_METRICS.api_usage.defaultThreshold,
+  actions: ['notification'],
+  cooldownMinutes: DEFAULT_ALERT_COOLDOWN_MINUTES,
+  isActive: true
+};
+
 export default function AlertManagement() {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [incidents, setIncidents] = useState<AlertIncident[]>([]);
   const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState<'alerts' | 'rules' | 'settings'>('alerts');
-  const [filterType, setFilterType] = useState<string>('all');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedAlerts, setSelectedAlerts] = useState<string[]>([]);
+  const [incidentFilter, setIncidentFilter] = useState<string>('open');
+
+  // 承認メモの入力中のインシデント
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const [acknowledgeNote, setAcknowledgeNote] = useState('');
 
   // 新しいアラートルール作成用
-  const [newRule, setNewRule] = useState({
-    name: '',
-    condition: 'api_usage_high',
-    threshold: 80,
-    action: 'notification',
-    isEnabled: true
-  });
+  const [newRule, setNewRule] = useState(INITIAL_RULE);
+  const newRuleMetric = ALERT_METRICS[newRule.metric];
 
-  const fetchAlerts = async () => {
+  const fetchIncidents = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/admin/notifications?limit=50');
+      const response = await fetch(`/api/admin/alert-incidents?status=${incidentFilter}`);
       const data = await response.json();
 
       if (response.ok) {
-        setAlerts(data.data.notifications || []);
+        setIncidents(data.data || []);
         setError('');
       } else {
-        setError(data.error || 'アラートの取得に失敗しました');
+        setError(data.error || 'インシデントの取得に失敗しました');
       }
     } catch (err) {
       setError('ネットワークエラーが発生しました');
-      console.error('Alerts fetch error:', err);
+      console.error('Alert incidents fetch error:', err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [incidentFilter]);
 
   const fetchAlertRules = async () => {
     try {
@@ -96,64 +140,57 @@ export default function AlertManagement() {
     }
   };
 
-  const handleAlertAction = async (action: string, alertIds: string[] = []) => {
+  const handleCreateRule = async () => {
     try {
-      const targetIds = alertIds.length > 0 ? alertIds : selectedAlerts;
-      
-      if (targetIds.length === 0 && action !== 'create_test_alert' && action !== 'create_rule') {
-        alert('アクションを実行するアラートを選択してください');
-        return;
-      }
+      const response = await fetch('/api/admin/alert-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newRule),
+      });
 
-      let response;
-      if (action === 'create_rule') {
-        response = await fetch('/api/admin/alert-rules', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            action,
-            ...newRule
-          }),
-        });
+      const result = await response.json();
+
+      if (response.ok) {
+        alert(`✅ ${result.message}`);
+        setNewRule(INITIAL_RULE);
+        await fetchAlertRules();
       } else {
-        response = await fetch('/api/admin/notifications', {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            action,
-            notificationIds: targetIds
-          }),
-        });
+        alert(`❌ ${result.error || 'ルールの作成に失敗しました'}`);
       }
+    } catch (err) {
+      alert('❌ エラーが発生しました');
+      console.error('Rule creation error:', err);
+    }
+  };
+
+  const handleAcknowledge = async (incidentId: string) => {
+    try {
+      const response = await fetch('/api/admin/alert-incidents', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          incidentId,
+          action: 'acknowledge',
+          note: acknowledgeNote
+        }),
+      });
 
       const result = await response.json();
 
       if (response.ok) {
-        alert(`✅ ${result.message}`);
-        setSelectedAlerts([]);
-        
-        if (action === 'create_rule') {
-          setNewRule({
-            name: '',
-            condition: 'api_usage_high',
-            threshold: 80,
-            action: 'notification',
-            isEnabled: true
-          });
-          await fetchAlertRules();
-        } else {
-          await fetchAlerts();
-        }
+        setAcknowledgingId(null);
+        setAcknowledgeNote('');
+        await fetchIncidents();
       } else {
-        alert(`❌ ${result.error || 'アクションが失敗しました'}`);
+        alert(`❌ ${result.error || 'インシデントの承認に失敗しました'}`);
       }
     } catch (err) {
       alert('❌ エラーが発生しました');
-      console.error('Alert action error:', err);
+      console.error('Incident acknowledge error:', err);
     }
   };
 
@@ -166,7 +203,7 @@ export default function AlertManagement() {
         },
         body: JSON.stringify({
           ruleId,
-          updates: { isEnabled: enabled }
+          updates: { isActive: enabled }
         }),
       });
 
@@ -184,57 +221,30 @@ export default function AlertManagement() {
     }
   };
 
-  const handleSelectAlert = (alertId: string) => {
-    setSelectedAlerts(prev => 
-      prev.includes(alertId) 
-        ? prev.filter(id => id !== alertId)
-        : [...prev, alertId]
-    );
-  };
-
-  const getAlertIcon = (type: string) => {
-    switch (type) {
-      case 'error': return <XCircle className="w-5 h-5 text-red-500" />;
-      case 'warning': return <AlertTriangle className="w-5 h-5 text-yellow-500" />;
-      case 'success': return <CheckCircle className="w-5 h-5 text-green-500" />;
-      default: return <Info className="w-5 h-5 text-blue-500" />;
-    }
-  };
-
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'urgent': return 'bg-red-100 text-red-800 border-red-200';
-      case 'high': return 'bg-orange-100 text-orange-800 border-orange-200';
-      case 'normal': return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'low': return 'bg-gray-100 text-gray-800 border-gray-200';
-      default: return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
-  };
-
-  const filteredAlerts = alerts.filter(alert => {
-    if (filterType !== 'all' && alert.type !== filterType) return false;
-    if (searchTerm && !alert.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-        !alert.message.toLowerCase().includes(searchTerm.toLowerCase())) return false;
-    return true;
-  });
-
   useEffect(() => {
-    fetchAlerts();
     fetchAlertRules();
   }, []);
 
-  // 自動更新（60秒間隔）
+  // 絞り込みを変えたときも取得し直す
   useEffect(() => {
-    const interval = setInterval(() => {
-      if (activeTab === 'alerts') {
-        fetchAlerts();
-      }
-    }, 60000);
-
-    return () => clearInterval(interval);
-  }, [activeTab]);
+    fetchIncidents();
+  }, [fetchIncidents]);
+
+  // 発火・承認・解消は通知ストリームで届いた時点で一覧に反映する
+  useNotificationStream<never, AlertIncident>({
+    onIncident: incident => {
+      const matchesFilter = incidentFilter === 'all' ||
+        (incidentFilter === 'open' ? incident.status !== 'resolved' : incident.status === incidentFilter);
+
+      setIncidents(prev => {
+        const others = prev.filter(item => item.id !== incident.id);
+        if (!matchesFilter) return others;
+        return [incident, ...others].sort((a, b) => new Date(b.firedAt).getTime() - new Date(a.firedAt).getTime());
+      });
+    }
+  });
 
-  if (loading && alerts.length === 0) {
+  if (loading && incidents.length === 0 && !error) {
     return (
       <div className="bg-white rounded-2xl shadow-lg p-6">
         <div className="flex items-center justify-center py-12">
@@ -264,28 +274,20 @@ export default function AlertManagement() {
 
           <div className="flex items-center gap-3">
             <button
-              onClick={fetchAlerts}
+              onClick={() => fetchIncidents()}
               disabled={loading}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
             >
               <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
               更新
             </button>
-
-            <button
-              onClick={() => handleAlertAction('create_test_alert')}
-              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Plus className="w-4 h-4" />
-              テストアラート
-            </button>
           </div>
         </div>
 
         {/* タブナビゲーション */}
         <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg mb-6">
           {[
-            { id: 'alerts', name: 'アラート一覧', icon: <Bell className="w-4 h-4" /> },
+            { id: 'alerts', name: 'インシデント', icon: <Bell className="w-4 h-4" /> },
             { id: 'rules', name: 'ルール設定', icon: <Settings className="w-4 h-4" /> },
             { id: 'settings', name: '通知設定', icon: <Settings className="w-4 h-4" /> }
           ].map((tab) => (
@@ -318,119 +320,123 @@ export default function AlertManagement() {
           animate={{ opacity: 1, y: 0 }}
           className="bg-white rounded-2xl shadow-lg p-6"
         >
-          {/* フィルターと検索 */}
-          <div className="flex items-center gap-4 mb-6">
-            <div className="flex items-center gap-2">
-              <Filter className="w-4 h-4 text-gray-400" />
-              <select
-                value={filterType}
-                onChange={(e) => setFilterType(e.target.value)}
-                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="all">すべて</option>
-                <option value="error">エラー</option>
-                <option value="warning">警告</option>
-                <option value="info">情報</option>
-                <option value="success">成功</option>
-              </select>
-            </div>
-
-            <div className="flex-1 relative">
-              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
-              <input
-                type="text"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="アラートを検索..."
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
-
-            {selectedAlerts.length > 0 && (
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={() => handleAlertAction('mark_read')}
-                  className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm flex items-center gap-1"
-                >
-                  <Eye className="w-4 h-4" />
-                  既読
-                </button>
-                <button
-                  onClick={() => handleAlertAction('delete')}
-                  className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm flex items-center gap-1"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  削除
-                </button>
-              </div>
-            )}
+          {/* フィルター */}
+          <div className="flex items-center gap-2 mb-6">
+            <Filter className="w-4 h-4 text-gray-400" />
+            <select
+              value={incidentFilter}
+              onChange={(e) => setIncidentFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="open">未解消（発火中・対応中）</option>
+              <option value="firing">発火中</option>
+              <option value="acknowledged">対応中</option>
+              <option value="resolved">解消済み</option>
+              <option value="all">すべて</option>
+            </select>
           </div>
 
-          {/* アラートリスト */}
+          {/* インシデント一覧 */}
           <div className="space-y-3">
-            {filteredAlerts.length === 0 ? (
+            {incidents.length === 0 ? (
               <div className="text-center py-8">
                 <Bell className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-                <p className="text-gray-500">表示するアラートがありません</p>
+                <p className="text-gray-500">表示するインシデントがありません</p>
               </div>
             ) : (
-              filteredAlerts.map((alert) => (
-                <div
-                  key={alert.id}
-                  className={`flex items-center gap-4 p-4 rounded-lg border transition-all duration-200 ${
-                    alert.isRead 
-                      ? 'bg-gray-50 border-gray-200' 
-                      : 'bg-white border-gray-300 shadow-sm'
-                  } ${selectedAlerts.includes(alert.id) ? 'ring-2 ring-blue-500' : ''}`}
-                >
-                  <input
-                    type="checkbox"
-                    checked={selectedAlerts.includes(alert.id)}
-                    onChange={() => handleSelectAlert(alert.id)}
-                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
-                  />
+              incidents.map((incident) => {
+                const style = INCIDENT_STATUS_STYLES[incident.status];
+
+                return (
+                  <div
+                    key={incident.id}
+                    className={`p-4 rounded-lg border ${
+                      incident.status === 'resolved' ? 'bg-gray-50 border-gray-200' : 'bg-white border-gray-300 shadow-sm'
+                    }`}
+                  >
+                    <div className="flex items-start gap-4">
+                      {style.icon}
+
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="font-medium text-gray-900">{incident.ruleName}</h3>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.className}`}>
+                            {style.label}
+                          </span>
+                          {incident.detectionCount > 1 && (
+                            <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                              {incident.detectionCount}回検知
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {isAlertMetric(incident.metric) ? ALERT_METRICS[incident.metric].label : incident.metric}: {formatAlertMetricValue(incident.metric, incident.value)}
+                          （条件: {incident.operator} {formatAlertMetricValue(incident.metric, incident.threshold)}
+                          {incident.peakValue !== incident.value && ` / ピーク: ${formatAlertMetricValue(incident.metric, incident.peakValue)}`}）
+                        </p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          発火: {new Date(incident.firedAt).toLocaleString('ja-JP')}
+                          {incident.resolvedAt
+                            ? ` / 解消: ${new Date(incident.resolvedAt).toLocaleString('ja-JP')}`
+                            : ` / 最終検知: ${new Date(incident.lastDetectedAt).toLocaleString('ja-JP')}`}
+                        </p>
 
-                  <div className="flex items-center gap-3">
-                    {getAlertIcon(alert.type)}
-                    {!alert.isRead && (
-                      <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                    )}
-                  </div>
+                        {/* タイムライン */}
+                        <ol className="mt-3 ml-1 border-l-2 border-gray-200 pl-4 space-y-1">
+                          {incident.events.map(event => (
+                            <li key={event.id} className="text-xs text-gray-600">
+                              <span className="text-gray-400 mr-2">{new Date(event.createdAt).toLocaleString('ja-JP')}</span>
+                              <span className="font-medium">{INCIDENT_EVENT_LABELS[event.type] || event.type}</span>
+                              {event.value !== null && event.value !== undefined && ` (${formatAlertMetricValue(incident.metric, event.value)})`}
+                              {event.note && <span className="ml-2 text-gray-500">— {event.note}</span>}
+                            </li>
+                          ))}
+                        </ol>
+
+                        {acknowledgingId === incident.id && (
+                          <div className="mt-3 flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={acknowledgeNote}
+                              onChange={(e) => setAcknowledgeNote(e.target.value)}
+                              placeholder="対応メモ（任意）"
+                              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <button
+                              onClick={() => handleAcknowledge(incident.id)}
+                              className="px-3 py-1.5 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg text-sm"
+                            >
+                              承認する
+                            </button>
+                            <button
+                              onClick={() => {
+                                setAcknowledgingId(null);
+                                setAcknowledgeNote('');
+                              }}
+                              className="px-3 py-1.5 text-gray-600 hover:bg-gray-100 rounded-lg text-sm"
+                            >
+                              キャンセル
+                            </button>
+                          </div>
+                        )}
+                      </div>
 
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h3 className="font-medium text-gray-900">{alert.title}</h3>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getPriorityColor(alert.priority)}`}>
-                        {alert.priority}
-                      </span>
-                      <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                        {alert.category}
-                      </span>
+                      {incident.status === 'firing' && acknowledgingId !== incident.id && (
+                        <button
+                          onClick={() => {
+                            setAcknowledgingId(incident.id);
+                            setAcknowledgeNote('');
+                          }}
+                          className="px-3 py-1 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+                        >
+                          <UserCheck className="w-4 h-4" />
+                          承認
+                        </button>
+                      )}
                     </div>
-                    <p className="text-sm text-gray-600">{alert.message}</p>
-                    <p className="text-xs text-gray-400 mt-1">
-                      {new Date(alert.createdAt).toLocaleString('ja-JP')}
-                    </p>
-                  </div>
-
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => handleAlertAction(alert.isRead ? 'mark_unread' : 'mark_read', [alert.id])}
-                      className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
-                      title={alert.isRead ? '未読にする' : '既読にする'}
-                    >
-                      {alert.isRead ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                    </button>
-                    <button
-                      onClick={() => handleAlertAction('delete', [alert.id])}
-                      className="p-2 text-red-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
-                      title="削除"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
                   </div>
-                </div>
-              ))
+                );
+              })
             )}
           </div>
         </motion.div>
@@ -463,49 +469,89 @@ export default function AlertManagement() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  条件
+                  メトリクス
                 </label>
                 <select
-                  value={newRule.condition}
-                  onChange={(e) => setNewRule(prev => ({ ...prev, condition: e.target.value }))}
+                  value={newRule.metric}
+                  onChange={(e) => {
+                    // メトリクスを変えたら条件はそのメトリクスの初期値にする
+                    const metric = e.target.value as AlertMetric;
+                    setNewRule(prev => ({
+                      ...prev,
+                      metric,
+                      operator: ALERT_METRICS[metric].defaultOperator,
+                      threshold: ALERT_METRICS[metric].defaultThreshold
+                    }));
+                  }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="api_usage_high">API使用量が高い</option>
-                  <option value="token_usage_high">トークン使用量が高い</option>
-                  <option value="error_rate_high">エラー率が高い</option>
-                  <option value="system_down">システムダウン</option>
-                  <option value="disk_space_low">ディスク容量不足</option>
+                  {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(metric => (
+                    <option key={metric} value={metric}>{ALERT_METRICS[metric].label}</option>
+                  ))}
                 </select>
+                <p className="text-xs text-gray-500 mt-1">{newRuleMetric.description}</p>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  閾値 (%)
+                  条件（{ALERT_METRIC_UNIT_LABELS[newRuleMetric.unit]}）
                 </label>
-                <input
-                  type="number"
-                  value={newRule.threshold}
-                  onChange={(e) => setNewRule(prev => ({ ...prev, threshold: parseInt(e.target.value) }))}
-                  min="1"
-                  max="100"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+                <div className="flex gap-2">
+                  <select
+                    value={newRule.operator}
+                    onChange={(e) => setNewRule(prev => ({ ...prev, operator: e.target.value as AlertOperator }))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {ALERT_OPERATORS.map(operator => (
+                      <option key={operator} value={operator}>{operator}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    value={newRule.threshold}
+                    onChange={(e) => setNewRule(prev => ({ ...prev, threshold: parseFloat(e.target.value) }))}
+                    step="any"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   アクション
                 </label>
-                <select
-                  value={newRule.action}
-                  onChange={(e) => setNewRule(prev => ({ ...prev, action: e.target.value }))}
+                <div className="flex flex-wrap gap-x-4 gap-y-2 py-2">
+                  {Object.entries(ALERT_ACTION_LABELS).map(([action, label]) => (
+                    <label key={action} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={newRule.actions.includes(action)}
+                        onChange={(e) => setNewRule(prev => ({
+                          ...prev,
+                          actions: e.target.checked
+                            ? [...prev.actions, action]
+                            : prev.actions.filter(item => item !== action)
+                        }))}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  クールダウン（分）
+                </label>
+                <input
+                  type="number"
+                  value={newRule.cooldownMinutes}
+                  onChange={(e) => setNewRule(prev => ({ ...prev, cooldownMinutes: parseInt(e.target.value) }))}
+                  min="0"
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                >
-                  <option value="notification">通知作成</option>
-                  <option value="email">メール送信</option>
-                  <option value="webhook">Webhook送信</option>
-                  <option value="auto_scale">自動スケール</option>
-                </select>
+                />
+                <p className="text-xs text-gray-500 mt-1">発火してからこの時間内に再発した場合は、直前のインシデントを開き直して通知を送りません</p>
               </div>
             </div>
 
@@ -513,16 +559,16 @@ export default function AlertManagement() {
               <label className="flex items-center gap-2">
                 <input
                   type="checkbox"
-                  checked={newRule.isEnabled}
-                  onChange={(e) => setNewRule(prev => ({ ...prev, isEnabled: e.target.checked }))}
+                  checked={newRule.isActive}
+                  onChange={(e) => setNewRule(prev => ({ ...prev, isActive: e.target.checked }))}
                   className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
                 />
                 <span className="text-sm text-gray-700">ルールを有効にする</span>
               </label>
 
               <button
-                onClick={() => handleAlertAction('create_rule')}
-                disabled={!newRule.name}
+                onClick={handleCreateRule}
+                disabled={!newRule.name || newRule.actions.length === 0}
                 className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
               >
                 <Plus className="w-4 h-4" />
@@ -548,32 +594,31 @@ export default function AlertManagement() {
                       <div className="flex items-center gap-3 mb-1">
                         <h3 className="font-medium text-gray-900">{rule.name}</h3>
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                          rule.isEnabled 
+                          rule.isActive 
                             ? 'bg-green-100 text-green-800' 
                             : 'bg-gray-100 text-gray-800'
                         }`}>
-                          {rule.isEnabled ? '有効' : '無効'}
+                          {rule.isActive ? '有効' : '無効'}
                         </span>
                       </div>
                       <p className="text-sm text-gray-600">
-                        {rule.condition} ≥ {rule.threshold}% → {rule.action}
+                        {isAlertMetric(rule.metric) ? ALERT_METRICS[rule.metric].label : rule.metric} {rule.operator} {formatAlertMetricValue(rule.metric, rule.threshold)} → {rule.actions.map(action => ALERT_ACTION_LABELS[action] || action).join('、')}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        クールダウン: {rule.cooldownMinutes}分 / 発火回数: {rule.triggerCount}回
+                        {rule.lastTriggered && ` / 最後のトリガー: ${new Date(rule.lastTriggered).toLocaleString('ja-JP')}`}
                       </p>
-                      {rule.lastTriggered && (
-                        <p className="text-xs text-gray-400">
-                          最後のトリガー: {new Date(rule.lastTriggered).toLocaleString('ja-JP')}
-                        </p>
-                      )}
                     </div>
 
                     <button
-                      onClick={() => handleRuleToggle(rule.id, !rule.isEnabled)}
+                      onClick={() => handleRuleToggle(rule.id, !rule.isActive)}
                       className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
-                        rule.isEnabled
+                        rule.isActive
                           ? 'bg-red-600 hover:bg-red-700 text-white'
                           : 'bg-green-600 hover:bg-green-700 text-white'
                       }`}
                     >
-                      {rule.isEnabled ? '無効化' : '有効化'}
+                      {rule.isActive ? '無効化' : '有効化'}
                     </button>
                   </div>
                 ))
@@ -582,6 +627,16 @@ export default function AlertManagement() {
           </div>
         </motion.div>
       )}
+
+      {/* 通知設定 */}
+      {activeTab === 'settings' && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <AlertChannelSettings />
+        </motion.div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ import {
   Download,
   Filter
 } from 'lucide-react';
+import type { VariantPreferenceReport } from '@/lib/ai-effectiveness';
 import AnalyticsOverview from './AnalyticsOverview';
 import EngagementChart from './EngagementChart';
 import PostPerformanceTable from './PostPerformanceTable';
@@ -24,7 +25,7 @@ interface AnalyticsData {
   overview?: any;
   posts?: any;
   engagement?: any;
-  aiPerformance?: any;
+  ai_performance?: any;
   trends?: any;
 }
 
@@ -264,6 +265,54 @@ export default function AnalyticsContainer() {
                       </div>
                     </div>
                     
+                    {/* 候補の選択傾向 */}
+                    {analyticsData.ai_performance.variantPreferences?.batches > 0 && (
+                      <div>
+                        <h4 className="font-medium mb-3">候補の選択傾向</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                          <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600">
+                            <h5 className="font-medium text-gray-900 mb-2">採用率</h5>
+                            <p>複数候補の生成: {analyticsData.ai_performance.variantPreferences.batches}回</p>
+                            <p>候補を採用: {analyticsData.ai_performance.variantPreferences.decidedBatches}回（{analyticsData.ai_performance.variantPreferences.selectionRate}%）</p>
+                          </div>
+                          <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600">
+                            <h5 className="font-medium text-gray-900 mb-2">採用 / 不採用の候補</h5>
+                            <p>平均文字数: {analyticsData.ai_performance.variantPreferences.selectedTraits.avgLength} / {analyticsData.ai_performance.variantPreferences.rejectedTraits.avgLength}</p>
+                            <p>平均ハッシュタグ数: {analyticsData.ai_performance.variantPreferences.selectedTraits.avgHashtags} / {analyticsData.ai_performance.variantPreferences.rejectedTraits.avgHashtags}</p>
+                            <p>平均品質スコア: {analyticsData.ai_performance.variantPreferences.selectedTraits.avgQualityScore} / {analyticsData.ai_performance.variantPreferences.rejectedTraits.avgQualityScore}</p>
+                          </div>
+                          <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600">
+                            <h5 className="font-medium text-gray-900 mb-2">採用した候補の投稿</h5>
+                            <p>投稿数: {analyticsData.ai_performance.variantPreferences.selectedPostPerformance.posts}</p>
+                            <p>平均ビュー: {analyticsData.ai_performance.variantPreferences.selectedPostPerformance.avgViews}</p>
+                            <p>エンゲージメント率: {analyticsData.ai_performance.variantPreferences.selectedPostPerformance.engagementRate}%</p>
+                          </div>
+                        </div>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="p-3 text-left">モデル</th>
+                                <th className="p-3 text-left">表示した候補</th>
+                                <th className="p-3 text-left">採用</th>
+                                <th className="p-3 text-left">採用率</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {analyticsData.ai_performance.variantPreferences.byModel.map((item: VariantPreferenceReport['byModel'][number]) => (
+                                <tr key={item.model} className="border-t">
+                                  <td className="p-3">{item.model}</td>
+                                  <td className="p-3">{item.shown}</td>
+                                  <td className="p-3">{item.selected}</td>
+                                  <td className="p-3">{item.selectionRate}%</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
                     {/* トークン効率性 */}
                     {analyticsData.ai_performance.tokenEfficiency?.length > 0 && (
                       <div>
@@ -275,6 +324,7 @@ export default function AnalyticsContainer() {
                                 <th className="p-3 text-left">モデル</th>
                                 <th className="p-3 text-left">生成数</th>
                                 <th className="p-3 text-left">平均トークン</th>
+                                <th className="p-3 text-left">平均コスト</th>
                                 <th className="p-3 text-left">平均エンゲージメント</th>
                                 <th className="p-3 text-left">効率性</th>
                               </tr>
@@ -285,6 +335,7 @@ export default function AnalyticsContainer() {
                                   <td className="p-3">{item.model}</td>
                                   <td className="p-3">{item.generations}</td>
                                   <td className="p-3">{Math.round(item.avgTokens)}</td>
+                                  <td className="p-3">{item.avgCost === null ? '-' : `$${Number(item.avgCost).toFixed(6)}`}</td>
                                   <td className="p-3">{Math.round(item.avgEngagements)}</td>
                                   <td className="p-3">{Number(item.engagementPerKToken).toFixed(2)}/1Kトークン</td>
                                 </tr>
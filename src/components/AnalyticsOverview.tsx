@@ -29,6 +29,7 @@ interface OverviewData {
     totalGenerations: number;
     totalTokensUsed: number;
     averageTokensPerGeneration: number;
+    totalCost: number;
   };
   period: string;
 }
@@ -280,7 +281,7 @@ export default function AnalyticsOverview({ data, period }: Props) {
           AI生成統計
         </h3>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="text-center p-4 bg-yellow-50 rounded-lg">
             <div className="text-2xl font-bold text-yellow-600 mb-2">
               {data.aiStats.totalGenerations}
@@ -304,6 +305,14 @@ export default function AnalyticsOverview({ data, period }: Props) {
             <p className="text-green-800 font-medium">平均トークン/生成</p>
             <p className="text-green-700 text-sm mt-1">効率性指標</p>
           </div>
+
+          <div className="text-center p-4 bg-purple-50 rounded-lg">
+            <div className="text-2xl font-bold text-purple-600 mb-2">
+              ${data.aiStats.totalCost.toFixed(4)}
+            </div>
+            <p className="text-purple-800 font-medium">AIコスト</p>
+            <p className="text-purple-700 text-sm mt-1">モデル別料金表による概算（USD）</p>
+          </div>
         </div>
       </motion.div>
     </div>
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { ContentValidationResult, countGraphemes, THREADS_MAX_GRAPHEMES } from '@/lib/content-rules';
+
+interface ContentValidationPanelProps {
+  content: string;
+  userId?: string;
+  postId?: string; // 編集中の投稿（重複確認の対象から除外する）
+  onResult?: (result: ContentValidationResult | null) => void;
+}
+
+interface ValidationResponse extends ContentValidationResult {
+  rules: {
+    maxHashtags: number;
+    maxLinks: number;
+    duplicateWindowDays: number;
+  };
+}
+
+// 入力が止まってから投稿ルールを確認するまでの待ち時間
+const VALIDATION_DEBOUNCE_MS = 400;
+
+// 投稿内容の文字数と投稿ルールの違反を入力欄の下に表示
+export default function ContentValidationPanel({ content, userId, postId, onResult }: ContentValidationPanelProps) {
+  const [result, setResult] = useState<ValidationResponse | null>(null);
+
+  // onResult はレンダーごとに変わってもよい（入力が変わったときだけ確認し直す）
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  useEffect(() => {
+    if (!content.trim()) {
+      setResult(null);
+      onResultRef.current?.(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/admin/posts/validate', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ content, userId, postId }),
+          signal: abortController.signal
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setResult(data.data);
+          onResultRef.current?.(data.data);
+        }
+      } catch (err) {
+        if (!abortController.signal.aborted) {
+          console.error('Content validation error:', err);
+        }
+      }
+    }, VALIDATION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      abortController.abort();
+    };
+  }, [content, userId, postId]);
+
+  // 文字数は入力に合わせてすぐに更新する
+  const graphemes = countGraphemes(content);
+
+  return (
+    <div className="mt-1 text-xs">
+      <div className="flex items-center justify-end gap-3 text-gray-500">
+        {result && (
+          <>
+            <span className={result.hashtags.length > result.rules.maxHashtags ? 'text-red-600 font-medium' : ''}>
+              ハッシュタグ {result.hashtags.length}/{result.rules.maxHashtags}
+            </span>
+            <span className={result.links.length > result.rules.maxLinks ? 'text-red-600 font-medium' : ''}>
+              リンク {result.links.length}/{result.rules.maxLinks}
+            </span>
+          </>
+        )}
+        <span className={graphemes > THREADS_MAX_GRAPHEMES ? 'text-red-600 font-medium' : ''}>
+          {graphemes}/{THREADS_MAX_GRAPHEMES}文字
+        </span>
+      </div>
+
+      {result && result.issues.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {result.issues.map(issue => (
+            <li
+              key={`${issue.rule}-${issue.message}`}
+              className={`flex items-start gap-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+            >
+              {issue.severity === 'error'
+                ? <XCircle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+                : <AlertTriangle className="w-3.5 h-3.5 mt-px flex-shrink-0" />}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result && result.issues.length === 0 && (
+        <p className="mt-1 flex items-center justify-end gap-1 text-green-600">
+          <CheckCircle className="w-3.5 h-3.5" />
+          投稿ルールを満たしています
+        </p>
+      )}
+    </div>
+  );
+}
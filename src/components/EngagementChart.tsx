@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   TrendingUp,
@@ -9,6 +10,8 @@ import {
   BarChart3,
   Target
 } from 'lucide-react';
+import PostTimelineChart from './PostTimelineChart';
+import { MAX_TIMELINE_POSTS } from '@/lib/engagement-timeline';
 
 interface EngagementData {
   engagementTrends: any[];
@@ -22,6 +25,17 @@ interface Props {
 }
 
 export default function EngagementChart({ data, period }: Props) {
+  const [comparedPostIds, setComparedPostIds] = useState<string[]>([]);
+
+  // 投稿を推移の比較に追加・削除
+  const toggleComparedPost = (postId: string) => {
+    setComparedPostIds(prev =>
+      prev.includes(postId)
+        ? prev.filter(id => id !== postId)
+        : prev.length < MAX_TIMELINE_POSTS ? [...prev, postId] : prev
+    );
+  };
+
   if (!data) {
     return (
       <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -39,6 +53,14 @@ export default function EngagementChart({ data, period }: Props) {
 
   return (
     <div className="space-y-6">
+      {/* 選択した投稿の公開後の推移 */}
+      <PostTimelineChart
+        postIds={comparedPostIds}
+        period={period}
+        onRemove={toggleComparedPost}
+        onClose={() => setComparedPostIds([])}
+      />
+
       {/* エンゲージメントトレンド */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -178,6 +200,9 @@ export default function EngagementChart({ data, period }: Props) {
           <BarChart3 className="w-5 h-5 text-purple-500" />
           ビュー vs エンゲージメント相関
         </h3>
+        <p className="text-sm text-gray-500 -mt-4 mb-4">
+          投稿をクリックすると公開後の推移を表示します（最大{MAX_TIMELINE_POSTS}件まで比較）
+        </p>
         
         {!data.viewsVsEngagements || data.viewsVsEngagements.length === 0 ? (
           <p className="text-gray-500 text-center py-8">相関データがありません</p>
@@ -191,7 +216,13 @@ export default function EngagementChart({ data, period }: Props) {
                 const maxWidth = Math.max(post.views, 1);
                 
                 return (
-                  <div key={post.id} className="p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
+                  <div
+                    key={post.id}
+                    onClick={() => toggleComparedPost(post.id)}
+                    className={`p-3 rounded-lg cursor-pointer transition-colors ${
+                      comparedPostIds.includes(post.id) ? 'bg-purple-50 ring-2 ring-purple-300' : 'bg-gray-50 hover:bg-gray-100'
+                    }`}
+                  >
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex-1">
                         <p className="text-sm text-gray-900 line-clamp-2">
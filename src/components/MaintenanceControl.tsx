@@ -11,7 +11,8 @@ import {
   CheckCircle,
   XCircle,
   Settings,
-  Wrench
+  Wrench,
+  KeyRound
 } from 'lucide-react';
 
 interface MaintenanceSettings {
@@ -172,6 +173,37 @@ export default function MaintenanceControl() {
     }
   };
 
+  // Threadsトークンを現在の鍵で再暗号化
+  const handleRotateTokenKeys = async () => {
+    if (!confirm('すべてのThreadsトークンを現在の暗号化鍵で再暗号化しますか？')) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/maintenance', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'rotate_token_keys'
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        alert(`✅ ${result.message}`);
+      } else {
+        alert(`❌ ${result.error || 'トークンの再暗号化に失敗しました'}`);
+      }
+    } catch (err) {
+      alert('❌ エラーが発生しました');
+      console.error('Token key rotation error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   useEffect(() => {
     fetchSettings();
   }, []);
@@ -441,6 +473,34 @@ export default function MaintenanceControl() {
           </button>
         </div>
       </motion.div>
+
+      {/* トークン暗号化鍵のローテーション */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-lg p-6"
+      >
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <KeyRound className="w-6 h-6 text-purple-500" />
+          トークン暗号化鍵
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          <code>THREADS_TOKEN_ENCRYPTION_KEY_ID</code> を新しい鍵に切り替えた後に実行すると、
+          保存済みのThreadsトークンをすべて新しい鍵で再暗号化します。完了するまで旧鍵は削除しないでください。
+        </p>
+        <button
+          onClick={handleRotateTokenKeys}
+          disabled={saving}
+          className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          {saving ? (
+            <RefreshCw className="w-5 h-5 animate-spin" />
+          ) : (
+            <KeyRound className="w-5 h-5" />
+          )}
+          トークンを再暗号化
+        </button>
+      </motion.div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,172 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { AlertTriangle, ArrowLeft, ImagePlus, X } from 'lucide-react';
+import {
+  checkMediaFile,
+  getThreadsPostMediaType,
+  MAX_POST_MEDIA,
+  MEDIA_MIME_TYPES,
+  MEDIA_PUBLIC_PATH,
+  MEDIA_TYPE_LABELS,
+  PostMediaInput
+} from '@/lib/media-rules';
+
+interface MediaAttachmentFieldProps {
+  media: PostMediaInput[];
+  onChange: (media: PostMediaInput[]) => void;
+  disabled?: boolean;
+  accent: 'green' | 'blue';
+}
+
+// 投稿に添付する画像・動画のアップロードとプレビュー
+// 1件なら画像・動画、2件以上ならカルーセルとして公開される
+export default function MediaAttachmentField({ media, onChange, disabled = false, accent }: MediaAttachmentFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [publicUrlConfigured, setPublicUrlConfigured] = useState(true);
+
+  const postMediaType = getThreadsPostMediaType(media);
+  const accentClassName = accent === 'green'
+    ? 'text-green-600 border-green-300 hover:bg-green-50'
+    : 'text-blue-600 border-blue-300 hover:bg-blue-50';
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+
+    if (media.length + files.length > MAX_POST_MEDIA) {
+      setError(`添付できるメディアは${MAX_POST_MEDIA}件までです`);
+      return;
+    }
+
+    // アップロードする前に形式とサイズを確認
+    for (const file of files) {
+      const fileError = checkMediaFile(file);
+      if (fileError) {
+        setError(`${file.name}: ${fileError}`);
+        return;
+      }
+    }
+
+    setUploading(true);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+
+      const response = await fetch('/api/admin/media', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        onChange([...media, ...data.data.media]);
+        setPublicUrlConfigured(data.data.publicUrlConfigured);
+      } else {
+        setError(data.error || 'メディアのアップロードに失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Media upload error:', err);
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const moveMediaBack = (index: number) => {
+    const next = [...media];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">
+          メディア
+          {media.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {postMediaType === 'CAROUSEL' ? `カルーセル（${media.length}件）` : MEDIA_TYPE_LABELS[media[0].mediaType]}として公開
+            </span>
+          )}
+        </span>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading || media.length >= MAX_POST_MEDIA}
+            className={`flex items-center gap-1 px-2 py-1 text-xs border rounded-lg transition-colors disabled:opacity-50 ${accentClassName}`}
+          >
+            {uploading
+              ? <div className="animate-spin rounded-full h-3.5 w-3.5 border-b-2 border-current"></div>
+              : <ImagePlus className="w-3.5 h-3.5" />}
+            {uploading ? 'アップロード中...' : '画像・動画を追加'}
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={Object.keys(MEDIA_MIME_TYPES).join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-2">❌ {error}</p>}
+
+      {!publicUrlConfigured && (
+        <p className="text-xs text-yellow-700 mb-2 flex items-start gap-1">
+          <AlertTriangle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+          メディアの公開URLが未設定のため、Threadsへの公開時にエラーになります（システム設定の media_public_base_url）
+        </p>
+      )}
+
+      {media.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {media.map((item, index) => (
+            <div key={item.fileName} className="relative group aspect-square rounded-lg overflow-hidden border border-gray-200 bg-gray-100">
+              {item.mediaType === 'IMAGE' ? (
+                <Image src={`${MEDIA_PUBLIC_PATH}/${item.fileName}`} alt={item.originalName} fill sizes="96px" unoptimized className="object-cover" />
+              ) : (
+                <video src={`${MEDIA_PUBLIC_PATH}/${item.fileName}`} className="w-full h-full object-cover" preload="metadata" muted />
+              )}
+              <span className="absolute bottom-1 left-1 px-1 rounded bg-black bg-opacity-60 text-white text-[10px]">
+                {index + 1}. {MEDIA_TYPE_LABELS[item.mediaType]}
+              </span>
+              {!disabled && (
+                <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => moveMediaBack(index)}
+                      className="p-0.5 rounded bg-white bg-opacity-90 text-gray-700"
+                      title="前へ"
+                    >
+                      <ArrowLeft className="w-3 h-3" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onChange(media.filter((_, i) => i !== index))}
+                    className="p-0.5 rounded bg-white bg-opacity-90 text-red-600"
+                    title="外す"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
   RefreshCw,
   Plus
 } from 'lucide-react';
+import { useNotificationStream } from '@/lib/use-notification-stream';
 
 interface Notification {
   id: string;
@@ -211,6 +212,26 @@ export default function NotificationCenter({ isOpen, onClose, className = '' }:
     }
   }, [isOpen, filter]);
 
+  // 開いている間は通知ストリームで届いた作成・既読の変更を一覧に反映する
+  useNotificationStream<Notification>({
+    onNotification: (change, notification) => {
+      const matchesFilter = (!filter.type || notification.type === filter.type) &&
+        (!filter.category || notification.category === filter.category) &&
+        (!filter.unreadOnly || !notification.isRead);
+
+      setNotifications(prev => {
+        const exists = prev.some(notif => notif.id === notification.id);
+        if (!matchesFilter) {
+          return exists ? prev.filter(notif => notif.id !== notification.id) : prev;
+        }
+        if (exists) {
+          return prev.map(notif => notif.id === notification.id ? { ...notif, ...notification } : notif);
+        }
+        return change === 'created' ? [notification, ...prev] : prev;
+      });
+    }
+  }, isOpen);
+
   const unreadCount = notifications.filter(n => !n.isRead).length;
 
   if (!isOpen) return null;
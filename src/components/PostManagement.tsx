@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import Image from 'next/image';
 import { 
   FileText, 
   Search, 
@@ -18,8 +19,26 @@ import {
   ChevronRight,
   Calendar,
   User,
-  MessageSquare
+  MessageSquare,
+  RotateCw,
+  Film
 } from 'lucide-react';
+import { MEDIA_PUBLIC_PATH } from '@/lib/media-rules';
+
+interface PostSegment {
+  id: string;
+  position: number;
+  content: string;
+  threadsPostId?: string | null;
+  error?: string | null;
+}
+
+interface PostMedia {
+  id: string;
+  fileName: string;
+  originalName: string;
+  mediaType: string; // IMAGE, VIDEO
+}
 
 interface Post {
   id: string;
@@ -33,6 +52,8 @@ interface Post {
   error?: string;
   createdAt: string;
   updatedAt: string;
+  segments?: PostSegment[]; // スレッド投稿の場合のみ
+  media?: PostMedia[];
   user: {
     id: string;
     name: string;
@@ -98,6 +119,7 @@ export default function PostManagement({ onPostAction }: PostManagementProps) {
     const colors = {
       draft: 'bg-gray-100 text-gray-800 border-gray-200',
       scheduled: 'bg-blue-100 text-blue-800 border-blue-200',
+      publishing: 'bg-yellow-100 text-yellow-800 border-yellow-200',
       published: 'bg-green-100 text-green-800 border-green-200',
       failed: 'bg-red-100 text-red-800 border-red-200'
     };
@@ -105,6 +127,7 @@ export default function PostManagement({ onPostAction }: PostManagementProps) {
     const icons = {
       draft: <PauseCircle className="w-3 h-3" />,
       scheduled: <Clock className="w-3 h-3" />,
+      publishing: <Clock className="w-3 h-3" />,
       published: <PlayCircle className="w-3 h-3" />,
       failed: <Trash2 className="w-3 h-3" />
     };
@@ -112,6 +135,7 @@ export default function PostManagement({ onPostAction }: PostManagementProps) {
     const labels = {
       draft: '下書き',
       scheduled: 'スケジュール済み',
+      publishing: '公開処理中',
       published: '公開済み',
       failed: '失敗'
     };
@@ -154,7 +178,9 @@ export default function PostManagement({ onPostAction }: PostManagementProps) {
         alert(`✅ ${data.message}`);
         fetchPosts(); // データを再読み込み
       } else {
-        alert(`❌ ${data.error}`);
+        // スレッド投稿の途中で失敗した場合は何件目で止まったかも表示する
+        alert(`❌ ${data.error}${data.thread ? `\n${data.details}` : ''}`);
+        if (data.thread) fetchPosts();
       }
     } catch (err) {
       alert('❌ ネットワークエラーが発生しました');
@@ -290,6 +316,37 @@ export default function PostManagement({ onPostAction }: PostManagementProps) {
                       <p className="text-gray-900 text-sm leading-relaxed">
                         {truncateContent(post.content)}
                       </p>
+                      {post.media && post.media.length > 0 && (
+                        <div className="flex items-center gap-1 mt-2">
+                          {post.media.slice(0, 4).map(item => (
+                            <div
+                              key={item.id}
+                              className="relative w-10 h-10 rounded overflow-hidden border border-gray-200 bg-gray-100 flex items-center justify-center"
+                              title={item.originalName}
+                            >
+                              {item.mediaType === 'IMAGE' ? (
+                                <Image src={`${MEDIA_PUBLIC_PATH}/${item.fileName}`} alt={item.originalName} fill sizes="40px" unoptimized className="object-cover" />
+                              ) : (
+                                <Film className="w-4 h-4 text-gray-500" />
+                              )}
+                            </div>
+                          ))}
+                          {post.media.length > 4 && (
+                            <span className="text-xs text-gray-500">+{post.media.length - 4}</span>
+                          )}
+                          {post.media.length > 1 && (
+                            <span className="text-xs text-gray-500 ml-1">カルーセル</span>
+                          )}
+                        </div>
+                      )}
+                      {post.segments && post.segments.length > 0 && (
+                        <p className="text-xs text-purple-600 mt-1">
+                          スレッド（{post.segments.length}件）
+                          {post.status !== 'published' && post.segments.some(segment => segment.threadsPostId) && (
+                            <> - {post.segments.filter(segment => segment.threadsPostId).length}件公開済み</>
+                          )}
+                        </p>
+                      )}
                       {post.threadsPostId && (
                         <p className="text-xs text-blue-600 mt-1">
                           Threads ID: {post.threadsPostId}
@@ -353,6 +410,16 @@ export default function PostManagement({ onPostAction }: PostManagementProps) {
                         </button>
                       )}
                       
+                      {post.status === 'failed' && (
+                        <button
+                          onClick={() => handleStatusChange(post, 'publish')}
+                          className="p-1 text-green-600 hover:bg-green-50 rounded transition-colors"
+                          title={post.segments?.some(segment => segment.threadsPostId) ? '続きを公開' : '再公開'}
+                        >
+                          <RotateCw className="w-4 h-4" />
+                        </button>
+                      )}
+
                       {post.status === 'published' && (
                         <button
                           onClick={() => handleStatusChange(post, 'unpublish')}
@@ -2,7 +2,20 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Save, Trash2, AlertTriangle, FileText, Clock, Send, Calendar, MessageSquare } from 'lucide-react';
+import { X, Save, Trash2, AlertTriangle, FileText, Clock, Send, Calendar, MessageSquare, Scissors } from 'lucide-react';
+import { ContentValidationResult, countGraphemes, THREADS_MAX_GRAPHEMES } from '@/lib/content-rules';
+import { joinSegments, MAX_THREAD_SEGMENTS, splitIntoSegments } from '@/lib/thread-segments';
+import type { PostMediaInput } from '@/lib/media-rules';
+import ContentValidationPanel from './ContentValidationPanel';
+import ThreadSegmentsEditor from './ThreadSegmentsEditor';
+import MediaAttachmentField from './MediaAttachmentField';
+
+interface PostSegment {
+  id: string;
+  position: number;
+  content: string;
+  threadsPostId?: string | null;
+}
 
 interface Post {
   id: string;
@@ -15,6 +28,8 @@ interface Post {
   threadsPostId?: string;
   error?: string;
   createdAt: string;
+  segments?: PostSegment[]; // スレッド投稿の場合のみ
+  media?: PostMediaInput[];
   user: {
     id: string;
     name: string;
@@ -45,20 +60,43 @@ export default function PostModals({
 }: PostModalsProps) {
   const [formData, setFormData] = useState({
     content: '',
+    segments: [] as string[], // スレッド投稿の各投稿（空なら単独の投稿）
+    media: [] as PostMediaInput[],
     publishNow: false,
     scheduledFor: ''
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [validation, setValidation] = useState<ContentValidationResult | null>(null);
+  const [segmentValidations, setSegmentValidations] = useState<(ContentValidationResult | null)[]>([]);
+
+  const isThread = formData.segments.length > 0;
+
+  // 途中まで公開されたスレッド投稿は内容を変更できない（続きの公開のみ）
+  const publishedPositions = showEditModal && selectedPost?.segments
+    ? selectedPost.segments.filter(segment => segment.threadsPostId).map(segment => segment.position)
+    : [];
+
+  // 公開・予約する場合は投稿ルールの違反があれば保存しない（下書きは文字数の上限のみ）
+  const isPublishing = formData.publishNow || Boolean(formData.scheduledFor) ||
+    (showEditModal && selectedPost?.status === 'published');
+  const activeValidations = isThread ? segmentValidations.slice(0, formData.segments.length) : [validation];
+  const hasBlockingIssue = activeValidations.some(result => result
+    ? (isPublishing ? !result.valid : result.issues.some(issue => issue.rule === 'length'))
+    : false);
 
   // フォームリセット
   const resetForm = () => {
     setFormData({
       content: '',
+      segments: [],
+      media: [],
       publishNow: false,
       scheduledFor: ''
     });
     setError('');
+    setValidation(null);
+    setSegmentValidations([]);
   };
 
   // 編集モーダル開放時にデータを設定
@@ -66,25 +104,85 @@ export default function PostModals({
     if (showEditModal && selectedPost) {
       setFormData({
         content: selectedPost.content,
+        segments: selectedPost.segments?.map(segment => segment.content) || [],
+        media: (selectedPost.media || []).map(({ fileName, originalName, mimeType, mediaType, size }) => ({
+          fileName, originalName, mimeType, mediaType, size
+        })),
         publishNow: false,
         scheduledFor: selectedPost.scheduledFor 
           ? new Date(selectedPost.scheduledFor).toISOString().slice(0, 16)
           : ''
       });
+      setSegmentValidations([]);
     } else if (showCreateModal) {
       resetForm();
     }
   }, [showEditModal, showCreateModal, selectedPost]);
 
+  // 単独の投稿をスレッドにする（入力済みの内容は文の区切りで分割する）
+  const convertToThread = () => {
+    const segments = splitIntoSegments(formData.content).slice(0, MAX_THREAD_SEGMENTS);
+    setFormData({
+      ...formData,
+      segments: segments.length >= 2 ? segments : [segments[0] || '', '']
+    });
+    setSegmentValidations([]);
+  };
+
+  // スレッドを単独の投稿に戻す
+  const convertToSinglePost = () => {
+    setFormData({
+      ...formData,
+      content: joinSegments(formData.segments.map(segment => segment.trim()).filter(Boolean)),
+      segments: []
+    });
+  };
+
+  const handleSegmentValidation = (index: number, result: ContentValidationResult | null) => {
+    setSegmentValidations(prev => {
+      const next = [...prev];
+      next[index] = result;
+      return next;
+    });
+  };
+
+  // 入力内容を確認し、送信するセグメントを返す（単独の投稿は null）
+  const checkFormContent = (): { segments: string[] | null; error?: string } => {
+    if (isThread) {
+      const segments = formData.segments.map(segment => segment.trim());
+      if (segments.filter(Boolean).length < 2) {
+        return { segments: null, error: 'スレッドには2件以上の投稿を入力してください' };
+      }
+      if (segments.some(segment => !segment)) {
+        return { segments: null, error: '空の投稿があります。入力するか削除してください' };
+      }
+      if (segments.some(segment => countGraphemes(segment) > THREADS_MAX_GRAPHEMES)) {
+        return { segments: null, error: `各投稿は${THREADS_MAX_GRAPHEMES}文字以内で入力してください` };
+      }
+      return { segments };
+    }
+
+    if (!formData.content.trim()) {
+      return { segments: null, error: '投稿内容は必須です' };
+    }
+
+    if (countGraphemes(formData.content) > THREADS_MAX_GRAPHEMES) {
+      return { segments: null, error: `投稿内容は${THREADS_MAX_GRAPHEMES}文字以内で入力してください（「スレッドに分割」で複数の投稿に分けられます）` };
+    }
+
+    return { segments: null };
+  };
+
   // 投稿作成
   const handleCreate = async () => {
-    if (!formData.content.trim()) {
-      setError('投稿内容は必須です');
+    const { segments, error: contentError } = checkFormContent();
+    if (contentError) {
+      setError(contentError);
       return;
     }
 
-    if (formData.content.length > 500) {
-      setError('投稿内容は500文字以内で入力してください');
+    if (hasBlockingIssue) {
+      setError('投稿ルールに違反している項目を修正してください');
       return;
     }
 
@@ -93,7 +191,8 @@ export default function PostModals({
 
     try {
       const requestData: any = {
-        content: formData.content.trim(),
+        ...(segments ? { segments } : { content: formData.content.trim() }),
+        ...(formData.media.length > 0 && { media: formData.media }),
         publishNow: formData.publishNow
       };
 
@@ -129,13 +228,17 @@ export default function PostModals({
 
   // 投稿更新
   const handleUpdate = async () => {
-    if (!selectedPost || !formData.content.trim()) {
-      setError('投稿内容は必須です');
+    if (!selectedPost) return;
+
+    const isLocked = publishedPositions.length > 0;
+    const { segments, error: contentError } = isLocked ? { segments: null, error: undefined } : checkFormContent();
+    if (contentError) {
+      setError(contentError);
       return;
     }
 
-    if (formData.content.length > 500) {
-      setError('投稿内容は500文字以内で入力してください');
+    if (hasBlockingIssue) {
+      setError('投稿ルールに違反している項目を修正してください');
       return;
     }
 
@@ -143,10 +246,19 @@ export default function PostModals({
     setError('');
 
     try {
+      // スレッドから単独の投稿に戻した場合は segments を空にしてセグメントを削除する
       const updateData: any = {
-        content: formData.content.trim(),
         publishNow: formData.publishNow
       };
+      if (!isLocked) {
+        updateData.media = formData.media;
+        if (segments) {
+          updateData.segments = segments;
+        } else {
+          updateData.content = formData.content.trim();
+          if (selectedPost.segments?.length) updateData.segments = [];
+        }
+      }
 
       if (!formData.publishNow && formData.scheduledFor) {
         updateData.scheduledFor = formData.scheduledFor;
@@ -236,7 +348,7 @@ export default function PostModals({
               initial="hidden"
               animate="visible"
               exit="exit"
-              className="bg-white rounded-2xl p-6 w-full max-w-lg"
+              className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="flex items-center justify-between mb-6">
@@ -262,23 +374,47 @@ export default function PostModals({
 
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <MessageSquare className="w-4 h-4 inline mr-1" />
-                    投稿内容 *
-                  </label>
-                  <textarea
-                    value={formData.content}
-                    onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent resize-none"
-                    rows={6}
-                    placeholder="投稿内容を入力してください..."
-                    maxLength={500}
-                  />
-                  <div className="text-right text-xs text-gray-500 mt-1">
-                    {formData.content.length}/500文字
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      <MessageSquare className="w-4 h-4 inline mr-1" />
+                      {isThread ? 'スレッド *' : '投稿内容 *'}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={isThread ? convertToSinglePost : convertToThread}
+                      className="text-xs text-green-600 hover:text-green-700 flex items-center gap-1"
+                    >
+                      <Scissors className="w-3.5 h-3.5" />
+                      {isThread ? '単独の投稿に戻す' : 'スレッドに分割'}
+                    </button>
                   </div>
+                  {isThread ? (
+                    <ThreadSegmentsEditor
+                      segments={formData.segments}
+                      onChange={segments => setFormData({ ...formData, segments })}
+                      onValidationResult={handleSegmentValidation}
+                      accent="green"
+                    />
+                  ) : (
+                    <>
+                      <textarea
+                        value={formData.content}
+                        onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent resize-none"
+                        rows={6}
+                        placeholder="投稿内容を入力してください..."
+                      />
+                      <ContentValidationPanel content={formData.content} onResult={setValidation} />
+                    </>
+                  )}
                 </div>
 
+                <MediaAttachmentField
+                  media={formData.media}
+                  onChange={media => setFormData(prev => ({ ...prev, media }))}
+                  accent="green"
+                />
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="flex items-center">
                     <input
@@ -320,7 +456,7 @@ export default function PostModals({
                 </button>
                 <button
                   onClick={handleCreate}
-                  disabled={loading}
+                  disabled={loading || hasBlockingIssue}
                   className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {loading ? (
@@ -352,7 +488,7 @@ export default function PostModals({
               initial="hidden"
               animate="visible"
               exit="exit"
-              className="bg-white rounded-2xl p-6 w-full max-w-lg"
+              className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="flex items-center justify-between mb-6">
@@ -378,22 +514,57 @@ export default function PostModals({
 
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <MessageSquare className="w-4 h-4 inline mr-1" />
-                    投稿内容 *
-                  </label>
-                  <textarea
-                    value={formData.content}
-                    onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                    rows={6}
-                    maxLength={500}
-                  />
-                  <div className="text-right text-xs text-gray-500 mt-1">
-                    {formData.content.length}/500文字
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      <MessageSquare className="w-4 h-4 inline mr-1" />
+                      {isThread ? 'スレッド *' : '投稿内容 *'}
+                    </label>
+                    {publishedPositions.length === 0 && (
+                      <button
+                        type="button"
+                        onClick={isThread ? convertToSinglePost : convertToThread}
+                        className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                      >
+                        <Scissors className="w-3.5 h-3.5" />
+                        {isThread ? '単独の投稿に戻す' : 'スレッドに分割'}
+                      </button>
+                    )}
                   </div>
+                  {isThread ? (
+                    <ThreadSegmentsEditor
+                      segments={formData.segments}
+                      onChange={segments => setFormData({ ...formData, segments })}
+                      onValidationResult={handleSegmentValidation}
+                      userId={selectedPost.user.id}
+                      postId={selectedPost.id}
+                      publishedPositions={publishedPositions}
+                      accent="blue"
+                    />
+                  ) : (
+                    <>
+                      <textarea
+                        value={formData.content}
+                        onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                        rows={6}
+                      />
+                      <ContentValidationPanel
+                        content={formData.content}
+                        userId={selectedPost.user.id}
+                        postId={selectedPost.id}
+                        onResult={setValidation}
+                      />
+                    </>
+                  )}
                 </div>
 
+                <MediaAttachmentField
+                  media={formData.media}
+                  onChange={media => setFormData(prev => ({ ...prev, media }))}
+                  disabled={publishedPositions.length > 0}
+                  accent="blue"
+                />
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="flex items-center">
                     <input
@@ -448,7 +619,7 @@ export default function PostModals({
                 </button>
                 <button
                   onClick={handleUpdate}
-                  disabled={loading}
+                  disabled={loading || hasBlockingIssue}
                   className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {loading ? (
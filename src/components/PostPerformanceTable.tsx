@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   FileText,
@@ -8,14 +9,18 @@ import {
   BarChart3,
   Eye,
   Heart,
-  Target
+  Target,
+  LineChart
 } from 'lucide-react';
+import PostTimelineChart from './PostTimelineChart';
+import { MAX_TIMELINE_POSTS, MilestoneValue, PostTimeline, TIMELINE_MILESTONES } from '@/lib/engagement-timeline';
 
 interface PostData {
   postsByStatus: any[];
   postsByDay: any[];
   topCategories: any[];
   performanceDistribution: any[];
+  postGrowth?: (Omit<PostTimeline, 'points'> & { snapshotCount: number })[];
 }
 
 interface Props {
@@ -24,6 +29,17 @@ interface Props {
 }
 
 export default function PostPerformanceTable({ data, period }: Props) {
+  const [comparedPostIds, setComparedPostIds] = useState<string[]>([]);
+
+  // 投稿を推移の比較に追加・削除
+  const toggleComparedPost = (postId: string) => {
+    setComparedPostIds(prev =>
+      prev.includes(postId)
+        ? prev.filter(id => id !== postId)
+        : prev.length < MAX_TIMELINE_POSTS ? [...prev, postId] : prev
+    );
+  };
+
   if (!data) {
     return (
       <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -73,6 +89,16 @@ export default function PostPerformanceTable({ data, period }: Props) {
     }
   };
 
+  const formatGrowth = (value: MilestoneValue | null) => {
+    if (!value) return <span className="text-gray-400">-</span>;
+    return (
+      <span>
+        {value.views.toLocaleString()}
+        <span className="text-xs text-gray-500 ml-1">({value.engagements.toLocaleString()})</span>
+      </span>
+    );
+  };
+
   const getPerformanceColor = (tier: string) => {
     switch (tier) {
       case 'no_engagement': return 'bg-gray-100 text-gray-800';
@@ -261,6 +287,72 @@ export default function PostPerformanceTable({ data, period }: Props) {
         )}
       </motion.div>
 
+      {/* 公開後の伸び */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.25 }}
+        className="bg-white rounded-2xl shadow-lg p-6"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
+          <LineChart className="w-5 h-5 text-purple-500" />
+          公開後の伸び
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          各時点のビュー数（エンゲージメント数）。行をクリックすると推移を比較できます（最大{MAX_TIMELINE_POSTS}件）
+        </p>
+
+        {!data.postGrowth || data.postGrowth.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">公開済みの投稿がありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="p-3 text-left">投稿</th>
+                  {TIMELINE_MILESTONES.map(milestone => (
+                    <th key={milestone.key} className="p-3 text-center">{milestone.label}後</th>
+                  ))}
+                  <th className="p-3 text-center">現在</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.postGrowth.map(post => (
+                  <tr
+                    key={post.postId}
+                    onClick={() => toggleComparedPost(post.postId)}
+                    className={`border-t cursor-pointer ${comparedPostIds.includes(post.postId) ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="p-3">
+                      <p className="text-gray-900 line-clamp-1">
+                        {post.content.length > 40 ? `${post.content.substring(0, 40)}...` : post.content}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {post.user?.name || post.user?.email} ・ {new Date(post.publishedAt).toLocaleDateString('ja-JP')}
+                        {post.snapshotCount === 0 && ' ・ 未計測'}
+                      </p>
+                    </td>
+                    {TIMELINE_MILESTONES.map(milestone => (
+                      <td key={milestone.key} className="p-3 text-center">
+                        {formatGrowth(post.milestones[milestone.key])}
+                      </td>
+                    ))}
+                    <td className="p-3 text-center font-medium">{formatGrowth(post.current)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+
+      <PostTimelineChart
+        postIds={comparedPostIds}
+        period={period}
+        onRemove={toggleComparedPost}
+        onClose={() => setComparedPostIds([])}
+      />
+
       {/* パフォーマンス分布 */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { LineChart, X, Eye, Heart } from 'lucide-react';
+import {
+  MilestoneValue,
+  PostTimeline,
+  TIMELINE_MILESTONES,
+  TimelineMilestones
+} from '@/lib/engagement-timeline';
+
+interface AccountAverage {
+  userId: string;
+  user?: { name: string | null; email: string };
+  average: TimelineMilestones & { postCount: number };
+}
+
+interface Props {
+  postIds: string[];
+  period: string;
+  onRemove: (postId: string) => void;
+  onClose: () => void;
+}
+
+// 比較する投稿ごとの線の色
+const LINE_COLORS = ['#8b5cf6', '#3b82f6', '#ef4444', '#10b981', '#f59e0b'];
+
+// グラフの横軸は公開から1週間まで（対数目盛）
+const CHART_MAX_HOURS = 24 * 7;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 32;
+
+type Metric = 'views' | 'engagements';
+
+function toX(hours: number): number {
+  const ratio = Math.log1p(Math.min(Math.max(hours, 0), CHART_MAX_HOURS)) / Math.log1p(CHART_MAX_HOURS);
+  return CHART_PADDING + ratio * (CHART_WIDTH - CHART_PADDING * 2);
+}
+
+export default function PostTimelineChart({ postIds, period, onRemove, onClose }: Props) {
+  const [timelines, setTimelines] = useState<PostTimeline[]>([]);
+  const [accounts, setAccounts] = useState<AccountAverage[]>([]);
+  const [metric, setMetric] = useState<Metric>('views');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (postIds.length === 0) return;
+
+    const fetchTimelines = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(
+          `/api/admin/analytics?type=post_timeline&period=${period}&postId=${encodeURIComponent(postIds.join(','))}`
+        );
+        const data = await response.json();
+
+        if (response.ok) {
+          setTimelines(data.data.posts);
+          setAccounts(data.data.accounts);
+          setError('');
+        } else {
+          setError(data.error || '推移データの取得に失敗しました');
+        }
+      } catch (err) {
+        setError('ネットワークエラーが発生しました');
+        console.error('Post timeline fetch error:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTimelines();
+  }, [postIds, period]);
+
+  if (postIds.length === 0) return null;
+
+  const maxValue = Math.max(1, ...timelines.flatMap(timeline => timeline.points.map(point => point[metric])));
+  const toY = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / maxValue) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const formatMilestone = (value: MilestoneValue | null) => {
+    if (!value) return <span className="text-gray-400">-</span>;
+    return (
+      <span>
+        {value[metric].toLocaleString()}
+        <span className="text-xs text-gray-500 ml-1">({value.engagementRate.toFixed(1)}%)</span>
+      </span>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl shadow-lg p-6"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <LineChart className="w-5 h-5 text-purple-500" />
+          公開後の推移
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setMetric('views')}
+            className={`flex items-center gap-1 px-3 py-1 rounded-lg text-sm ${metric === 'views' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Eye className="w-4 h-4" />
+            ビュー
+          </button>
+          <button
+            onClick={() => setMetric('engagements')}
+            className={`flex items-center gap-1 px-3 py-1 rounded-lg text-sm ${metric === 'engagements' ? 'bg-red-100 text-red-700' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Heart className="w-4 h-4" />
+            エンゲージメント
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-lg"
+            title="閉じる"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      {loading ? (
+        <p className="text-gray-500 text-center py-8">読み込み中...</p>
+      ) : (
+        <>
+          {/* 推移グラフ */}
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-56">
+            <line
+              x1={CHART_PADDING}
+              y1={CHART_HEIGHT - CHART_PADDING}
+              x2={CHART_WIDTH - CHART_PADDING}
+              y2={CHART_HEIGHT - CHART_PADDING}
+              stroke="#e5e7eb"
+            />
+            {TIMELINE_MILESTONES.map(milestone => (
+              <g key={milestone.key}>
+                <line
+                  x1={toX(milestone.hours)}
+                  y1={CHART_PADDING}
+                  x2={toX(milestone.hours)}
+                  y2={CHART_HEIGHT - CHART_PADDING}
+                  stroke="#e5e7eb"
+                  strokeDasharray="4 4"
+                />
+                <text x={toX(milestone.hours)} y={CHART_HEIGHT - 12} textAnchor="middle" className="fill-gray-500 text-xs">
+                  {milestone.label}
+                </text>
+              </g>
+            ))}
+            <text x={CHART_PADDING} y={CHART_PADDING - 12} className="fill-gray-500 text-xs">
+              {maxValue.toLocaleString()}
+            </text>
+            {timelines.map((timeline, index) => (
+              <polyline
+                key={timeline.postId}
+                fill="none"
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={2}
+                points={[
+                  `${toX(0)},${toY(0)}`,
+                  ...timeline.points
+                    .filter(point => point.hoursSincePublish <= CHART_MAX_HOURS)
+                    .map(point => `${toX(point.hoursSincePublish)},${toY(point[metric])}`)
+                ].join(' ')}
+              />
+            ))}
+          </svg>
+
+          {/* 節目ごとの比較 */}
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="p-3 text-left">投稿</th>
+                  {TIMELINE_MILESTONES.map(milestone => (
+                    <th key={milestone.key} className="p-3 text-center">{milestone.label}後</th>
+                  ))}
+                  <th className="p-3 text-center">現在</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {timelines.map((timeline, index) => (
+                  <tr key={timeline.postId} className="border-t">
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="w-3 h-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: LINE_COLORS[index % LINE_COLORS.length] }}
+                        ></span>
+                        <div>
+                          <p className="text-gray-900 line-clamp-1">
+                            {timeline.content.length > 40 ? `${timeline.content.substring(0, 40)}...` : timeline.content}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {timeline.user?.name || timeline.user?.email} ・ {new Date(timeline.publishedAt).toLocaleString('ja-JP')}
+                            {timeline.points.length === 0 && ' ・ スナップショットなし'}
+                          </p>
+                        </div>
+                      </div>
+                    </td>
+                    {TIMELINE_MILESTONES.map(milestone => (
+                      <td key={milestone.key} className="p-3 text-center">
+                        {formatMilestone(timeline.milestones[milestone.key])}
+                      </td>
+                    ))}
+                    <td className="p-3 text-center font-medium">{formatMilestone(timeline.current)}</td>
+                    <td className="p-3 text-right">
+                      <button
+                        onClick={() => onRemove(timeline.postId)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="比較から外す"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {accounts.map(account => (
+                  <tr key={account.userId} className="border-t bg-gray-50 text-gray-600">
+                    <td className="p-3">
+                      {account.user?.name || account.user?.email} の平均
+                      <span className="text-xs text-gray-500 ml-1">({account.average.postCount}投稿)</span>
+                    </td>
+                    {TIMELINE_MILESTONES.map(milestone => (
+                      <td key={milestone.key} className="p-3 text-center">
+                        {formatMilestone(account.average[milestone.key])}
+                      </td>
+                    ))}
+                    <td className="p-3"></td>
+                    <td className="p-3"></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
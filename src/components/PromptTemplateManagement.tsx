@@ -0,0 +1,488 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  FileCode,
+  Plus,
+  Edit3,
+  Trash2,
+  Save,
+  RefreshCw,
+  AlertCircle,
+  CheckCircle,
+  Eye,
+  EyeOff
+} from 'lucide-react';
+import {
+  DEFAULT_PROMPT_TEMPLATE_BODY,
+  EMOJI_USAGE_LABELS,
+  EmojiUsage,
+  MAX_TEMPLATE_HASHTAGS,
+  PROMPT_LANGUAGE_LABELS,
+  PROMPT_TEMPLATE_VARIABLES,
+  PromptLanguage,
+  renderPromptTemplate
+} from '@/lib/prompt-templates';
+
+interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  body: string;
+  language: PromptLanguage;
+  hashtagMin: number;
+  hashtagMax: number;
+  emojiUsage: EmojiUsage;
+  version: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count: { generations: number };
+}
+
+type TemplateForm = Pick<PromptTemplate, 'name' | 'body' | 'language' | 'hashtagMin' | 'hashtagMax' | 'emojiUsage' | 'isActive'> & {
+  description: string;
+};
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  description: '',
+  body: DEFAULT_PROMPT_TEMPLATE_BODY,
+  language: 'ja',
+  hashtagMin: 2,
+  hashtagMax: 3,
+  emojiUsage: 'moderate',
+  isActive: true
+};
+
+// プレビューで変数に入れるサンプル値
+const PREVIEW_VALUES = {
+  topic: '新しいカフェのオープン',
+  tone: '親しみやすく、カジュアルな',
+  length: '適度な長さ（100-200文字）'
+};
+
+export default function PromptTemplateManagement() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/prompt-templates');
+      const data = await response.json();
+
+      if (response.ok) {
+        setTemplates(data.data);
+        setError('');
+      } else {
+        setError(data.error || 'プロンプトテンプレートの取得に失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Prompt templates fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setSuccess('');
+    setError('');
+  };
+
+  const startEdit = (template: PromptTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      description: template.description || '',
+      body: template.body,
+      language: template.language,
+      hashtagMin: template.hashtagMin,
+      hashtagMax: template.hashtagMax,
+      emojiUsage: template.emojiUsage,
+      isActive: template.isActive
+    });
+    setSuccess('');
+    setError('');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const saveTemplate = async () => {
+    if (!form) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(editingId ? `/api/admin/prompt-templates/${editingId}` : '/api/admin/prompt-templates', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSuccess(editingId ? `${data.message}（v${data.data.version}）` : data.message);
+        cancelEdit();
+        fetchTemplates();
+      } else {
+        setError(data.error || 'プロンプトテンプレートの保存に失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Prompt template save error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (template: PromptTemplate) => {
+    try {
+      const response = await fetch(`/api/admin/prompt-templates/${template.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !template.isActive }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        fetchTemplates();
+      } else {
+        setError(data.error || 'プロンプトテンプレートの更新に失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Prompt template toggle error:', err);
+    }
+  };
+
+  const deleteTemplate = async (template: PromptTemplate) => {
+    if (!confirm(`「${template.name}」を削除しますか？\nこのテンプレートを使うスケジュールは組み込みのプロンプトで生成するようになります。`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/prompt-templates/${template.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSuccess(data.message);
+        fetchTemplates();
+      } else {
+        setError(data.error || 'プロンプトテンプレートの削除に失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Prompt template deletion error:', err);
+    }
+  };
+
+  const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {/* ヘッダー */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-lg p-6"
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center gap-3">
+              <FileCode className="w-8 h-8 text-teal-600" />
+              プロンプトテンプレート
+            </h1>
+            <p className="text-gray-600">AI生成・AIスケジュールで使うプロンプトと投稿ルールの管理</p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={fetchTemplates}
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              更新
+            </motion.button>
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={startCreate}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              新規作成
+            </motion.button>
+          </div>
+        </div>
+
+        {/* 成功・エラーメッセージ */}
+        {success && (
+          <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-700">{success}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-700">{error}</span>
+          </div>
+        )}
+      </motion.div>
+
+      {/* 作成・編集フォーム */}
+      {form && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-2xl shadow-lg p-6"
+        >
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingId ? 'テンプレートを編集' : '新しいテンプレート'}
+          </h2>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">テンプレート名 *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="例: 新商品の紹介"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">説明</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">本文 *</label>
+                <textarea
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                  rows={8}
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {(Object.keys(PROMPT_TEMPLATE_VARIABLES) as (keyof typeof PROMPT_TEMPLATE_VARIABLES)[]).map(variable => (
+                    <button
+                      key={variable}
+                      type="button"
+                      onClick={() => setForm({ ...form, body: `${form.body}{${variable}}` })}
+                      title={PROMPT_TEMPLATE_VARIABLES[variable]}
+                      className="px-2 py-0.5 text-xs font-mono bg-teal-50 text-teal-700 rounded hover:bg-teal-100"
+                    >
+                      {`{${variable}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">言語</label>
+                  <select
+                    value={form.language}
+                    onChange={(e) => setForm({ ...form, language: e.target.value as PromptLanguage })}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(PROMPT_LANGUAGE_LABELS) as PromptLanguage[]).map(language => (
+                      <option key={language} value={language}>{PROMPT_LANGUAGE_LABELS[language]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">絵文字</label>
+                  <select
+                    value={form.emojiUsage}
+                    onChange={(e) => setForm({ ...form, emojiUsage: e.target.value as EmojiUsage })}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(EMOJI_USAGE_LABELS) as EmojiUsage[]).map(usage => (
+                      <option key={usage} value={usage}>{EMOJI_USAGE_LABELS[usage]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ハッシュタグ（最小）</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_TEMPLATE_HASHTAGS}
+                    value={form.hashtagMin}
+                    onChange={(e) => setForm({ ...form, hashtagMin: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ハッシュタグ（最大）</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_TEMPLATE_HASHTAGS}
+                    value={form.hashtagMax}
+                    onChange={(e) => setForm({ ...form, hashtagMax: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                />
+                有効（生成画面・スケジュールで選択できる）
+              </label>
+            </div>
+
+            {/* プレビュー */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">プレビュー</label>
+              <pre className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-800 whitespace-pre-wrap h-full max-h-96 overflow-y-auto">
+                {renderPromptTemplate(form, PREVIEW_VALUES)}
+              </pre>
+              {editingId && (
+                <p className="text-xs text-gray-500 mt-2">本文・言語・ハッシュタグ・絵文字を変更すると版が上がります</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={cancelEdit}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={saveTemplate}
+              disabled={saving || !form.name.trim() || !form.body.trim()}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* テンプレート一覧 */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white rounded-2xl shadow-lg p-6"
+      >
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+            <span className="ml-3 text-gray-500">テンプレートを読み込み中...</span>
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            テンプレートがありません。テンプレートを指定しない生成には組み込みのプロンプトが使われます
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => (
+              <div
+                key={template.id}
+                className={`p-4 border rounded-lg ${template.isActive ? 'border-gray-200' : 'border-gray-200 bg-gray-50 opacity-70'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="font-semibold text-gray-900">{template.name}</h3>
+                      <span className="px-2 py-0.5 text-xs bg-teal-100 text-teal-700 rounded-full">v{template.version}</span>
+                      {!template.isActive && (
+                        <span className="px-2 py-0.5 text-xs bg-gray-200 text-gray-600 rounded-full">無効</span>
+                      )}
+                    </div>
+                    {template.description && (
+                      <p className="text-sm text-gray-600 mb-2">{template.description}</p>
+                    )}
+                    <p className="text-sm text-gray-700 font-mono line-clamp-2 whitespace-pre-wrap">{template.body}</p>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {PROMPT_LANGUAGE_LABELS[template.language]} ・ ハッシュタグ {template.hashtagMin}-{template.hashtagMax}個 ・ 絵文字 {EMOJI_USAGE_LABELS[template.emojiUsage]} ・ 生成 {template._count.generations}件 ・ 更新 {new Date(template.updatedAt).toLocaleString('ja-JP')}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => toggleActive(template)}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                      title={template.isActive ? '無効にする' : '有効にする'}
+                    >
+                      {template.isActive ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => startEdit(template)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="編集"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteTemplate(template)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="削除"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
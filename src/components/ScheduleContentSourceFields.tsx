@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, Plus, Trash2 } from 'lucide-react';
+import {
+  AI_LENGTH_LABELS,
+  AI_TONE_LABELS,
+  AILength,
+  AITone,
+  CONTENT_SOURCE_LABELS,
+  ContentSourceType,
+  createDefaultContentSource,
+  ScheduleContentSource
+} from '@/lib/schedule-content';
+import { THREADS_MAX_GRAPHEMES } from '@/lib/content-rules';
+
+interface ScheduleContentSourceFieldsProps {
+  value: ScheduleContentSource | null;
+  onChange: (value: ScheduleContentSource | null) => void;
+  accent: 'purple' | 'blue';
+}
+
+// Tailwindのクラス名は静的に記述する必要があるため色ごとに定義
+const INPUT_CLASS_NAMES = {
+  purple: 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent',
+  blue: 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+};
+
+interface PromptTemplateOption {
+  id: string;
+  name: string;
+  version: number;
+  isActive: boolean;
+}
+
+export default function ScheduleContentSourceFields({ value, onChange, accent }: ScheduleContentSourceFieldsProps) {
+  const inputClassName = INPUT_CLASS_NAMES[accent];
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateOption[] | null>(null);
+  const isAIPrompt = value?.type === 'ai_prompt';
+
+  // AI生成を選んだときにプロンプトテンプレートの選択肢を読み込む
+  useEffect(() => {
+    if (!isAIPrompt || promptTemplates) return;
+
+    fetch('/api/admin/prompt-templates')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setPromptTemplates(data?.data || []))
+      .catch(err => console.error('Prompt templates fetch error:', err));
+  }, [isAIPrompt, promptTemplates]);
+
+  const handleTypeChange = (type: string) => {
+    onChange(type ? createDefaultContentSource(type as ContentSourceType) : null);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        <FileText className="w-4 h-4 inline mr-1" />
+        投稿内容
+      </label>
+      <select
+        value={value?.type || ''}
+        onChange={(e) => handleTypeChange(e.target.value)}
+        className={inputClassName}
+      >
+        <option value="">汎用（スケジュール名と日時）</option>
+        {(Object.keys(CONTENT_SOURCE_LABELS) as ContentSourceType[]).map(type => (
+          <option key={type} value={type}>{CONTENT_SOURCE_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {value?.type === 'post' && (
+        <div className="mt-2">
+          <span className="block text-xs text-gray-500 mb-1">投稿ID</span>
+          <input
+            type="text"
+            value={value.postId}
+            onChange={(e) => onChange({ ...value, postId: e.target.value })}
+            className={`${inputClassName} font-mono`}
+            placeholder="投稿管理に表示される投稿ID"
+          />
+          <p className="text-xs text-gray-500 mt-1">指定した投稿の本文を毎回新しい投稿として公開します</p>
+        </div>
+      )}
+
+      {value?.type === 'templates' && (
+        <div className="mt-2 space-y-2">
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">選び方</span>
+            <select
+              value={value.order}
+              onChange={(e) => onChange({ ...value, order: e.target.value === 'sequential' ? 'sequential' : 'random' })}
+              className={inputClassName}
+            >
+              <option value="random">ランダム</option>
+              <option value="sequential">順番に</option>
+            </select>
+          </div>
+          {value.templates.map((template, index) => (
+            <div key={index} className="flex gap-2">
+              <textarea
+                value={template}
+                onChange={(e) => onChange({
+                  ...value,
+                  templates: value.templates.map((t, i) => (i === index ? e.target.value : t))
+                })}
+                rows={2}
+                className={inputClassName}
+                placeholder={`テンプレート ${index + 1}`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, templates: value.templates.filter((_, i) => i !== index) })}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, templates: [...value.templates, ''] })}
+            className="flex items-center gap-1 text-sm text-gray-700 hover:text-gray-900"
+          >
+            <Plus className="w-4 h-4" />
+            テンプレートを追加
+          </button>
+        </div>
+      )}
+
+      {value?.type === 'ai_prompt' && (
+        <div className="mt-2 space-y-2">
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">プロンプト</span>
+            <textarea
+              value={value.prompt}
+              onChange={(e) => onChange({ ...value, prompt: e.target.value })}
+              rows={3}
+              className={inputClassName}
+              placeholder="例: テクノロジーの最新トレンドについて紹介する"
+            />
+          </div>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">プロンプトテンプレート</span>
+            <select
+              value={value.templateId || ''}
+              onChange={(e) => onChange({ ...value, templateId: e.target.value || undefined })}
+              className={inputClassName}
+            >
+              <option value="">標準のプロンプト</option>
+              {(promptTemplates || [])
+                .filter(template => template.isActive || template.id === value.templateId)
+                .map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}（v{template.version}）{template.isActive ? '' : ' - 無効'}
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">プロンプトはテンプレートの {'{topic}'} に入ります。実行時点の最新版を使います</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">トーン</span>
+              <select
+                value={value.tone}
+                onChange={(e) => onChange({ ...value, tone: e.target.value as AITone })}
+                className={inputClassName}
+              >
+                {(Object.keys(AI_TONE_LABELS) as AITone[]).map(tone => (
+                  <option key={tone} value={tone}>{AI_TONE_LABELS[tone]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">長さ</span>
+              <select
+                value={value.length}
+                onChange={(e) => onChange({ ...value, length: e.target.value as AILength })}
+                className={inputClassName}
+              >
+                {(Object.keys(AI_LENGTH_LABELS) as AILength[]).map(length => (
+                  <option key={length} value={length}>{AI_LENGTH_LABELS[length]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.splitIntoThread || false}
+              onChange={(e) => onChange({ ...value, splitIntoThread: e.target.checked || undefined })}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            上限（{THREADS_MAX_GRAPHEMES}文字）を超える生成結果は文の区切りで分割してスレッドとして投稿
+          </label>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">代替投稿（任意）</span>
+            <textarea
+              value={value.fallbackContent || ''}
+              onChange={(e) => onChange({ ...value, fallbackContent: e.target.value })}
+              rows={2}
+              className={inputClassName}
+              placeholder="未入力の場合、トークン予算の超過時は投稿を見送ります"
+            />
+          </div>
+        </div>
+      )}
+
+      {value?.type === 'feed' && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <span className="block text-xs text-gray-500 mb-1">フィードURL</span>
+              <input
+                type="url"
+                value={value.url}
+                onChange={(e) => onChange({ ...value, url: e.target.value })}
+                className={inputClassName}
+                placeholder="https://example.com/feed.xml"
+              />
+            </div>
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">形式</span>
+              <select
+                value={value.format}
+                onChange={(e) => onChange({ ...value, format: e.target.value === 'json' ? 'json' : 'rss' })}
+                className={inputClassName}
+              >
+                <option value="rss">RSS / Atom</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">投稿テンプレート</span>
+            <textarea
+              value={value.template}
+              onChange={(e) => onChange({ ...value, template: e.target.value })}
+              rows={2}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            {'{title}'} {'{link}'} {'{summary}'} が項目の内容に置き換わります。実行ごとに未投稿の項目を1件投稿します
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,16 +22,28 @@ import {
   XCircle,
   PlayCircle
 } from 'lucide-react';
+import { CONTENT_SOURCE_LABELS, parseContentSource } from '@/lib/schedule-content';
 
 interface Schedule {
   id: string;
   name: string;
   time: string;
   frequency: string;
+  cronExpression?: string | null;
+  timezone?: string;
+  contentSource?: string | null;
   isActive: boolean;
   lastRun?: string;
   nextRun?: string;
   runCount: number;
+  maxRetries?: number;
+  retryBackoffSeconds?: number;
+  retryJitter?: number;
+  failureCount?: number;
+  totalFailures?: number;
+  lastError?: string | null;
+  lastFailedAt?: string | null;
+  pausedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   user: {
@@ -95,19 +107,26 @@ export default function ScheduleManagement({ onScheduleAction }: ScheduleManagem
     fetchSchedules();
   }, [currentPage, searchTerm, frequencyFilter, statusFilter]);
 
+  const getContentSourceLabel = (contentSource?: string | null) => {
+    const { source } = parseContentSource(contentSource);
+    return source ? CONTENT_SOURCE_LABELS[source.type] : '汎用';
+  };
+
   const getFrequencyBadge = (frequency: string) => {
     const colors = {
       once: 'bg-gray-100 text-gray-800 border-gray-200',
       daily: 'bg-blue-100 text-blue-800 border-blue-200',
       weekly: 'bg-green-100 text-green-800 border-green-200',
-      monthly: 'bg-purple-100 text-purple-800 border-purple-200'
+      monthly: 'bg-purple-100 text-purple-800 border-purple-200',
+      cron: 'bg-orange-100 text-orange-800 border-orange-200'
     };
 
     const labels = {
       once: '一度のみ',
       daily: '毎日',
       weekly: '毎週',
-      monthly: '毎月'
+      monthly: '毎月',
+      cron: 'cron式'
     };
     
     return (
@@ -142,8 +161,9 @@ export default function ScheduleManagement({ onScheduleAction }: ScheduleManagem
     });
   };
 
-  const formatTime = (dateString: string) => {
+  const formatTime = (dateString: string, timeZone?: string) => {
     return new Date(dateString).toLocaleTimeString('ja-JP', {
+      timeZone,
       hour: '2-digit',
       minute: '2-digit'
     });
@@ -246,6 +266,7 @@ export default function ScheduleManagement({ onScheduleAction }: ScheduleManagem
           <option value="daily">毎日</option>
           <option value="weekly">毎週</option>
           <option value="monthly">毎月</option>
+          <option value="cron">cron式</option>
         </select>
         
         <select
@@ -321,7 +342,13 @@ export default function ScheduleManagement({ onScheduleAction }: ScheduleManagem
                     <div>
                       <p className="font-medium text-gray-900">{schedule.name}</p>
                       <p className="text-sm text-gray-500">
-                        実行時刻: {formatTime(schedule.time)}
+                        {schedule.frequency === 'cron'
+                          ? <span className="font-mono">{schedule.cronExpression}</span>
+                          : <>実行時刻: {formatTime(schedule.time, schedule.timezone)}</>}
+                        {schedule.timezone && <span className="ml-1 text-xs text-gray-400">({schedule.timezone})</span>}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        投稿内容: {getContentSourceLabel(schedule.contentSource)}
                       </p>
                     </div>
                   </td>
@@ -330,6 +357,9 @@ export default function ScheduleManagement({ onScheduleAction }: ScheduleManagem
                   </td>
                   <td className="py-3 px-4">
                     {getStatusBadge(schedule.isActive)}
+                    {schedule.pausedAt && !schedule.isActive && (
+                      <p className="text-xs text-red-600 mt-1">失敗により自動停止</p>
+                    )}
                   </td>
                   <td className="py-3 px-4">
                     <div className="text-sm text-gray-600">
@@ -337,6 +367,11 @@ export default function ScheduleManagement({ onScheduleAction }: ScheduleManagem
                         <Activity className="w-3 h-3" />
                         <span>{schedule.runCount}回実行</span>
                       </div>
+                      {!!schedule.failureCount && (
+                        <p className="text-xs text-red-600 mt-1" title={schedule.lastError || undefined}>
+                          連続失敗: {schedule.failureCount}/{schedule.maxRetries}回
+                        </p>
+                      )}
                       {schedule.lastRun && (
                         <p className="text-xs text-gray-500 mt-1">
                           最終: {formatDate(schedule.lastRun)}
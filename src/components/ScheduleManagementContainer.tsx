@@ -9,10 +9,20 @@ interface Schedule {
   name: string;
   time: string;
   frequency: string;
+  cronExpression?: string | null;
+  timezone?: string;
   isActive: boolean;
   lastRun?: string;
   nextRun?: string;
   runCount: number;
+  maxRetries?: number;
+  retryBackoffSeconds?: number;
+  retryJitter?: number;
+  failureCount?: number;
+  totalFailures?: number;
+  lastError?: string | null;
+  lastFailedAt?: string | null;
+  pausedAt?: string | null;
   createdAt: string;
   user: {
     id: string;
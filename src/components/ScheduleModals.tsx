@@ -1,18 +1,44 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Save, Trash2, AlertTriangle, Clock, Calendar, Repeat, User } from 'lucide-react';
+import { X, Save, Trash2, AlertTriangle, Clock, Calendar, Repeat, User, RotateCcw, Globe } from 'lucide-react';
+import {
+  DEFAULT_TIMEZONE,
+  formatWallTime,
+  getUpcomingRuns,
+  parseWallTime,
+  validateScheduleTiming
+} from '@/lib/schedule-timing';
+import { parseContentSource, ScheduleContentSource } from '@/lib/schedule-content';
+import ScheduleContentSourceFields from './ScheduleContentSourceFields';
+
+// タイムゾーン入力の候補
+const COMMON_TIMEZONES = ['Asia/Tokyo', 'UTC', 'America/New_York', 'America/Los_Angeles', 'Europe/London', 'Europe/Paris', 'Asia/Seoul', 'Australia/Sydney'];
+
+// プレビューに表示する実行予定の件数
+const PREVIEW_RUN_COUNT = 5;
 
 interface Schedule {
   id: string;
   name: string;
   time: string;
   frequency: string;
+  cronExpression?: string | null;
+  timezone?: string;
+  contentSource?: string | null;
   isActive: boolean;
   lastRun?: string;
   nextRun?: string;
   runCount: number;
+  maxRetries?: number;
+  retryBackoffSeconds?: number;
+  retryJitter?: number;
+  failureCount?: number;
+  totalFailures?: number;
+  lastError?: string | null;
+  lastFailedAt?: string | null;
+  pausedAt?: string | null;
   createdAt: string;
   user: {
     id: string;
@@ -46,7 +72,13 @@ export default function ScheduleModals({
     name: '',
     time: '',
     frequency: 'daily',
-    isActive: true
+    cronExpression: '',
+    timezone: DEFAULT_TIMEZONE,
+    isActive: true,
+    maxRetries: 3,
+    retryBackoffSeconds: 60,
+    retryJitter: 0.2,
+    contentSource: null as ScheduleContentSource | null
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -57,22 +89,59 @@ export default function ScheduleModals({
       name: '',
       time: '',
       frequency: 'daily',
-      isActive: true
+      cronExpression: '',
+      timezone: DEFAULT_TIMEZONE,
+      isActive: true,
+      maxRetries: 3,
+      retryBackoffSeconds: 60,
+      retryJitter: 0.2,
+      contentSource: null
     });
     setError('');
   };
 
+  // 入力中の設定での実行予定プレビュー
+  const preview = useMemo(() => {
+    if (!formData.time) {
+      return { runs: [], error: '' };
+    }
+
+    const timing = {
+      frequency: formData.frequency,
+      cronExpression: formData.cronExpression.trim(),
+      timezone: formData.timezone
+    };
+    const timingError = validateScheduleTiming(timing);
+    if (timingError) {
+      return { runs: [], error: timingError };
+    }
+
+    const time = parseWallTime(formData.time, formData.timezone);
+    if (!time) {
+      return { runs: [], error: '実行日時が不正です' };
+    }
+
+    return { runs: getUpcomingRuns({ ...timing, time }, PREVIEW_RUN_COUNT), error: '' };
+  }, [formData.time, formData.frequency, formData.cronExpression, formData.timezone]);
+
   // 編集モーダル開放時にデータを設定
   useEffect(() => {
     if (showEditModal && selectedSchedule) {
-      // ISO文字列をdatetime-localフォーマットに変換
-      const timeValue = new Date(selectedSchedule.time).toISOString().slice(0, 16);
+      // スケジュールのタイムゾーンでの時刻をdatetime-localフォーマットに変換
+      const timezone = selectedSchedule.timezone || DEFAULT_TIMEZONE;
+      const timeValue = formatWallTime(selectedSchedule.time, timezone);
       
       setFormData({
         name: selectedSchedule.name,
         time: timeValue,
         frequency: selectedSchedule.frequency,
-        isActive: selectedSchedule.isActive
+        cronExpression: selectedSchedule.cronExpression || '',
+        timezone,
+        isActive: selectedSchedule.isActive,
+        maxRetries: selectedSchedule.maxRetries ?? 3,
+        retryBackoffSeconds: selectedSchedule.retryBackoffSeconds ?? 60,
+        retryJitter: selectedSchedule.retryJitter ?? 0.2,
+        contentSource: parseContentSource(selectedSchedule.contentSource).source
       });
     } else if (showCreateModal) {
       resetForm();
@@ -86,6 +155,12 @@ export default function ScheduleModals({
       return;
     }
 
+    const { error: contentSourceError } = parseContentSource(formData.contentSource);
+    if (contentSourceError) {
+      setError(contentSourceError);
+      return;
+    }
+
     setLoading(true);
     setError('');
 
@@ -99,7 +174,13 @@ export default function ScheduleModals({
           name: formData.name.trim(),
           time: formData.time,
           frequency: formData.frequency,
-          isActive: formData.isActive
+          cronExpression: formData.frequency === 'cron' ? formData.cronExpression.trim() : null,
+          timezone: formData.timezone,
+          isActive: formData.isActive,
+          maxRetries: formData.maxRetries,
+          retryBackoffSeconds: formData.retryBackoffSeconds,
+          retryJitter: formData.retryJitter,
+          contentSource: formData.contentSource
         }),
       });
 
@@ -128,6 +209,12 @@ export default function ScheduleModals({
       return;
     }
 
+    const { error: contentSourceError } = parseContentSource(formData.contentSource);
+    if (contentSourceError) {
+      setError(contentSourceError);
+      return;
+    }
+
     setLoading(true);
     setError('');
 
@@ -141,7 +228,13 @@ export default function ScheduleModals({
           name: formData.name.trim(),
           time: formData.time,
           frequency: formData.frequency,
-          isActive: formData.isActive
+          cronExpression: formData.frequency === 'cron' ? formData.cronExpression.trim() : null,
+          timezone: formData.timezone,
+          isActive: formData.isActive,
+          maxRetries: formData.maxRetries,
+          retryBackoffSeconds: formData.retryBackoffSeconds,
+          retryJitter: formData.retryJitter,
+          contentSource: formData.contentSource
         }),
       });
 
@@ -205,6 +298,12 @@ export default function ScheduleModals({
 
   return (
     <>
+      <datalist id="schedule-timezones">
+        {COMMON_TIMEZONES.map((timezone) => (
+          <option key={timezone} value={timezone} />
+        ))}
+      </datalist>
+
       {/* 作成モーダル */}
       <AnimatePresence>
         {showCreateModal && (
@@ -287,9 +386,112 @@ export default function ScheduleModals({
                     <option value="daily">毎日</option>
                     <option value="weekly">毎週</option>
                     <option value="monthly">毎月</option>
+                    <option value="cron">cron式</option>
                   </select>
                 </div>
 
+                {formData.frequency === 'cron' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      cron式 *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.cronExpression}
+                      onChange={(e) => setFormData({ ...formData, cronExpression: e.target.value })}
+                      className="w-full p-3 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      placeholder="例: 0 9 * * MON-FRI（平日の9:00）"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">分 時 日 月 曜日 の5項目（実行日時は開始日時として扱われます）</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Globe className="w-4 h-4 inline mr-1" />
+                    タイムゾーン
+                  </label>
+                  <input
+                    type="text"
+                    list="schedule-timezones"
+                    value={formData.timezone}
+                    onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                </div>
+
+                {/* 実行予定プレビュー */}
+                {(preview.runs.length > 0 || preview.error) && (
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <p className="text-sm text-gray-600 mb-1">今後の実行予定（{formData.timezone}）</p>
+                    {preview.error ? (
+                      <p className="text-xs text-red-600">{preview.error}</p>
+                    ) : (
+                      <ul className="text-sm text-gray-800 space-y-1">
+                        {preview.runs.map((run) => (
+                          <li key={run.toISOString()}>
+                            {run.toLocaleString('ja-JP', { timeZone: formData.timezone, weekday: 'short' })}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {/* 投稿内容 */}
+                <ScheduleContentSourceFields
+                  value={formData.contentSource}
+                  onChange={(contentSource) => setFormData({ ...formData, contentSource })}
+                  accent="purple"
+                />
+
+                {/* 失敗時の再試行 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <RotateCcw className="w-4 h-4 inline mr-1" />
+                    失敗時の再試行
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <span className="block text-xs text-gray-500 mb-1">最大回数</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={formData.maxRetries}
+                        onChange={(e) => setFormData({ ...formData, maxRetries: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-xs text-gray-500 mb-1">基本間隔（秒）</span>
+                      <input
+                        type="number"
+                        min={10}
+                        max={86400}
+                        value={formData.retryBackoffSeconds}
+                        onChange={(e) => setFormData({ ...formData, retryBackoffSeconds: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-xs text-gray-500 mb-1">ジッター（0〜1）</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={formData.retryJitter}
+                        onChange={(e) => setFormData({ ...formData, retryJitter: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    失敗するたびに間隔を2倍にして再試行し、上限を超えると自動停止して通知します
+                  </p>
+                </div>
+
                 <div className="flex items-center">
                   <input
                     type="checkbox"
@@ -313,6 +515,7 @@ export default function ScheduleModals({
                     <li>• 毎日: 指定した時刻に毎日実行</li>
                     <li>• 毎週: 指定した曜日・時刻に毎週実行</li>
                     <li>• 毎月: 指定した日・時刻に毎月実行</li>
+                    <li>• cron式: 指定したcron式に一致する日時に実行</li>
                   </ul>
                 </div>
               </div>
@@ -423,9 +626,112 @@ export default function ScheduleModals({
                     <option value="daily">毎日</option>
                     <option value="weekly">毎週</option>
                     <option value="monthly">毎月</option>
+                    <option value="cron">cron式</option>
                   </select>
                 </div>
 
+                {formData.frequency === 'cron' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      cron式 *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.cronExpression}
+                      onChange={(e) => setFormData({ ...formData, cronExpression: e.target.value })}
+                      className="w-full p-3 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="例: 0 9 * * MON-FRI（平日の9:00）"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">分 時 日 月 曜日 の5項目（実行日時は開始日時として扱われます）</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Globe className="w-4 h-4 inline mr-1" />
+                    タイムゾーン
+                  </label>
+                  <input
+                    type="text"
+                    list="schedule-timezones"
+                    value={formData.timezone}
+                    onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                {/* 実行予定プレビュー */}
+                {(preview.runs.length > 0 || preview.error) && (
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <p className="text-sm text-gray-600 mb-1">今後の実行予定（{formData.timezone}）</p>
+                    {preview.error ? (
+                      <p className="text-xs text-red-600">{preview.error}</p>
+                    ) : (
+                      <ul className="text-sm text-gray-800 space-y-1">
+                        {preview.runs.map((run) => (
+                          <li key={run.toISOString()}>
+                            {run.toLocaleString('ja-JP', { timeZone: formData.timezone, weekday: 'short' })}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {/* 投稿内容 */}
+                <ScheduleContentSourceFields
+                  value={formData.contentSource}
+                  onChange={(contentSource) => setFormData({ ...formData, contentSource })}
+                  accent="blue"
+                />
+
+                {/* 失敗時の再試行 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <RotateCcw className="w-4 h-4 inline mr-1" />
+                    失敗時の再試行
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <span className="block text-xs text-gray-500 mb-1">最大回数</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={formData.maxRetries}
+                        onChange={(e) => setFormData({ ...formData, maxRetries: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-xs text-gray-500 mb-1">基本間隔（秒）</span>
+                      <input
+                        type="number"
+                        min={10}
+                        max={86400}
+                        value={formData.retryBackoffSeconds}
+                        onChange={(e) => setFormData({ ...formData, retryBackoffSeconds: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-xs text-gray-500 mb-1">ジッター（0〜1）</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={formData.retryJitter}
+                        onChange={(e) => setFormData({ ...formData, retryJitter: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    失敗するたびに間隔を2倍にして再試行し、上限を超えると自動停止して通知します
+                  </p>
+                </div>
+
                 <div className="flex items-center">
                   <input
                     type="checkbox"
@@ -463,7 +769,25 @@ export default function ScheduleModals({
                         </span>
                       </div>
                     )}
+                    {!!selectedSchedule.totalFailures && (
+                      <div className="flex justify-between text-sm">
+                        <span>失敗回数:</span>
+                        <span className="font-medium text-red-600">
+                          連続{selectedSchedule.failureCount || 0}回 / 累計{selectedSchedule.totalFailures}回
+                        </span>
+                      </div>
+                    )}
                   </div>
+                  {selectedSchedule.lastError && (
+                    <p className="text-xs text-red-600 mt-2">
+                      最終エラー{selectedSchedule.lastFailedAt && `（${new Date(selectedSchedule.lastFailedAt).toLocaleString('ja-JP')}）`}: {selectedSchedule.lastError}
+                    </p>
+                  )}
+                  {selectedSchedule.pausedAt && !selectedSchedule.isActive && (
+                    <p className="text-xs text-red-700 font-medium mt-1">
+                      再試行の上限に達したため自動停止中です。有効化すると失敗回数がリセットされます
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -531,7 +855,7 @@ export default function ScheduleModals({
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <p className="font-medium text-gray-900">{selectedSchedule.name}</p>
                   <div className="mt-2 text-sm text-gray-600 space-y-1">
-                    <p>頻度: {selectedSchedule.frequency}</p>
+                    <p>頻度: {selectedSchedule.frequency === 'cron' ? selectedSchedule.cronExpression : selectedSchedule.frequency}</p>
                     <p>実行回数: {selectedSchedule.runCount}回</p>
                     <p>ステータス: {selectedSchedule.isActive ? '有効' : '無効'}</p>
                     {selectedSchedule.nextRun && (
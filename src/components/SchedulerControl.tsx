@@ -17,9 +17,22 @@ import {
 
 interface SchedulerStatus {
   isRunning: boolean;
+  pendingJobs?: number;
+  runningJobs?: number;
+  deadJobs?: number;
   lastCheck: string;
 }
 
+interface DeadJob {
+  id: string;
+  type: string;
+  attempts: number;
+  lastError: string | null;
+  completedAt: string | null;
+}
+
+type JobStats = Record<string, Record<string, number>>;
+
 interface WorkerStatus {
   isRunning: boolean;
   checkInterval: number;
@@ -33,6 +46,7 @@ interface ExecutionResult {
   error?: string;
   postId?: string;
   threadsPostId?: string;
+  skipped?: boolean;
 }
 
 interface UpcomingSchedule {
@@ -62,6 +76,8 @@ export default function SchedulerControl() {
   const [executing, setExecuting] = useState(false);
   const [error, setError] = useState('');
   const [lastExecutionResults, setLastExecutionResults] = useState<ExecutionResult[]>([]);
+  const [jobStats, setJobStats] = useState<JobStats>({});
+  const [deadJobs, setDeadJobs] = useState<DeadJob[]>([]);
 
   const fetchStatus = async () => {
     try {
@@ -77,6 +93,8 @@ export default function SchedulerControl() {
         setStatus(schedulerData.data.status);
         setUpcomingSchedules(schedulerData.data.upcomingSchedules || []);
         setRecentExecutions(schedulerData.data.recentExecutions || []);
+        setJobStats(schedulerData.data.jobStats || {});
+        setDeadJobs(schedulerData.data.deadJobs || []);
       } else {
         setError(schedulerData.error || 'スケジューラー情報の取得に失敗しました');
       }
@@ -127,6 +145,37 @@ export default function SchedulerControl() {
     }
   };
 
+  const retryJob = async (jobId: string) => {
+    try {
+      const response = await fetch('/api/admin/scheduler', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'retry_job', jobId }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchStatus();
+      } else {
+        alert(`❌ ${data.error}`);
+      }
+    } catch (err) {
+      console.error('Job retry error:', err);
+      alert('❌ ネットワークエラーが発生しました');
+    }
+  };
+
+  const jobTypeLabels: Record<string, string> = {
+    schedule_execution: 'スケジュール実行',
+    post_publish: '予約投稿の公開',
+    engagement_sync: 'エンゲージメント同期',
+    alert_evaluation: 'アラート評価',
+    threads_token_refresh: 'トークン更新'
+  };
+
   useEffect(() => {
     fetchStatus();
     
@@ -298,19 +347,23 @@ export default function SchedulerControl() {
                 <div
                   key={index}
                   className={`p-3 rounded-lg border ${
-                    result.success 
+                    result.skipped
+                      ? 'bg-yellow-50 border-yellow-200'
+                      : result.success 
                       ? 'bg-green-50 border-green-200' 
                       : 'bg-red-50 border-red-200'
                   }`}
                 >
                   <div className="flex items-center gap-2">
-                    {result.success ? (
+                    {result.skipped ? (
+                      <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                    ) : result.success ? (
                       <CheckCircle className="w-4 h-4 text-green-600" />
                     ) : (
                       <XCircle className="w-4 h-4 text-red-600" />
                     )}
                     <span className={`text-sm font-medium ${
-                      result.success ? 'text-green-900' : 'text-red-900'
+                      result.skipped ? 'text-yellow-900' : result.success ? 'text-green-900' : 'text-red-900'
                     }`}>
                       {result.message}
                     </span>
@@ -330,6 +383,72 @@ export default function SchedulerControl() {
         )}
       </motion.div>
 
+      {/* ジョブキュー */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.05 }}
+        className="bg-white rounded-2xl shadow-lg p-6"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          ジョブキュー
+        </h3>
+
+        {Object.keys(jobStats).length === 0 ? (
+          <p className="text-gray-500 text-center py-4">ジョブはありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2">種類</th>
+                  <th className="py-2 text-right">待機中</th>
+                  <th className="py-2 text-right">実行中</th>
+                  <th className="py-2 text-right">完了</th>
+                  <th className="py-2 text-right">失敗</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(jobStats).map(([type, counts]) => (
+                  <tr key={type} className="border-b border-gray-100">
+                    <td className="py-2 text-gray-900">{jobTypeLabels[type] || type}</td>
+                    <td className="py-2 text-right text-gray-700">{counts.pending || 0}</td>
+                    <td className="py-2 text-right text-blue-700">{counts.running || 0}</td>
+                    <td className="py-2 text-right text-green-700">{counts.completed || 0}</td>
+                    <td className="py-2 text-right text-red-700">{counts.dead || 0}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {deadJobs.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <h4 className="text-sm font-semibold text-red-800">失敗したジョブ</h4>
+            {deadJobs.map((job) => (
+              <div key={job.id} className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-red-900">
+                    {jobTypeLabels[job.type] || job.type}（{job.attempts}回試行）
+                  </p>
+                  {job.lastError && <p className="text-xs text-red-600 mt-1">{job.lastError}</p>}
+                  {job.completedAt && <p className="text-xs text-gray-500 mt-1">{formatDate(job.completedAt)}</p>}
+                </div>
+                <button
+                  onClick={() => retryJob(job.id)}
+                  className="px-3 py-1 text-xs bg-white border border-red-300 text-red-700 hover:bg-red-100 rounded-lg transition-colors flex items-center gap-1"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  再実行
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
       {/* 次回実行予定 */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -387,7 +506,14 @@ export default function SchedulerControl() {
         ) : (
           <div className="space-y-2">
             {recentExecutions.map((execution) => (
-              <div key={execution.id} className="border-l-4 border-blue-400 pl-4 py-2">
+              <div
+                key={execution.id}
+                className={`border-l-4 pl-4 py-2 ${
+                  execution.action === 'schedule_execution_failed' ? 'border-red-400'
+                    : execution.action === 'schedule_skipped' || execution.action === 'schedule_budget_fallback' ? 'border-yellow-400'
+                    : 'border-blue-400'
+                }`}
+              >
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-gray-900">
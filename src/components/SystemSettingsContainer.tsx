@@ -15,7 +15,8 @@ import {
   RefreshCw,
   Plus,
   Edit3,
-  Trash2
+  Trash2,
+  FileText
 } from 'lucide-react';
 
 interface SystemSetting {
@@ -50,6 +51,7 @@ export default function SystemSettingsContainer() {
     notification: <Bell className="w-5 h-5" />,
     analytics: <BarChart3 className="w-5 h-5" />,
     security: <Shield className="w-5 h-5" />,
+    content: <FileText className="w-5 h-5" />,
     other: <AlertCircle className="w-5 h-5" />
   };
 
@@ -59,6 +61,7 @@ export default function SystemSettingsContainer() {
     notification: '通知設定',
     analytics: '分析設定',
     security: 'セキュリティ設定',
+    content: '投稿ルール',
     other: 'その他'
   };
 
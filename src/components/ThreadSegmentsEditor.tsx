@@ -0,0 +1,149 @@
+'use client';
+
+import { ArrowDown, ArrowUp, CheckCircle, Plus, Scissors, Trash2 } from 'lucide-react';
+import { ContentValidationResult } from '@/lib/content-rules';
+import { joinSegments, MAX_THREAD_SEGMENTS, splitIntoSegments } from '@/lib/thread-segments';
+import ContentValidationPanel from './ContentValidationPanel';
+
+interface ThreadSegmentsEditorProps {
+  segments: string[];
+  onChange: (segments: string[]) => void;
+  onValidationResult: (index: number, result: ContentValidationResult | null) => void;
+  userId?: string;
+  postId?: string; // 編集中の投稿（重複確認の対象から除外する）
+  publishedPositions?: number[]; // 公開済みのセグメント（編集できない）
+  accent: 'green' | 'blue';
+}
+
+// スレッド投稿（返信チェーン）の各投稿を順番に入力するエディター
+// 2件目以降は1つ前の投稿への返信として公開される
+export default function ThreadSegmentsEditor({
+  segments,
+  onChange,
+  onValidationResult,
+  userId,
+  postId,
+  publishedPositions = [],
+  accent
+}: ThreadSegmentsEditorProps) {
+  const isLocked = publishedPositions.length > 0;
+  const focusClassName = accent === 'green' ? 'focus:ring-green-500' : 'focus:ring-blue-500';
+
+  const updateSegment = (index: number, content: string) => {
+    onChange(segments.map((segment, i) => i === index ? content : segment));
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    const next = [...segments];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const removeSegment = (index: number) => {
+    onChange(segments.filter((_, i) => i !== index));
+  };
+
+  // 全体をつなげてから文の区切りで詰め直す（貼り付けたAIの長文もここで分割できる）
+  const resplit = () => {
+    const next = splitIntoSegments(joinSegments(segments));
+    onChange(next.length > 0 ? next.slice(0, MAX_THREAD_SEGMENTS) : ['']);
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLocked && (
+        <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+          公開済みの投稿があるため内容は変更できません。投稿一覧の「続きを公開」で失敗した投稿から再開できます
+        </p>
+      )}
+
+      {segments.map((segment, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-gray-600 flex items-center gap-1">
+              {index + 1}/{segments.length}
+              {index > 0 && <span className="text-gray-400">（{index}件目への返信）</span>}
+              {publishedPositions.includes(index) && (
+                <span className="text-green-600 flex items-center gap-0.5">
+                  <CheckCircle className="w-3 h-3" />
+                  公開済み
+                </span>
+              )}
+            </span>
+            {!isLocked && (
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveSegment(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                  title="上へ"
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSegment(index, 1)}
+                  disabled={index === segments.length - 1}
+                  className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                  title="下へ"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeSegment(index)}
+                  disabled={segments.length <= 1}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded disabled:opacity-30"
+                  title="削除"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+          <textarea
+            value={segment}
+            onChange={(e) => updateSegment(index, e.target.value)}
+            readOnly={isLocked}
+            className={`w-full p-2 border border-gray-300 rounded-lg focus:ring-2 ${focusClassName} focus:border-transparent resize-none text-sm read-only:bg-gray-50`}
+            rows={3}
+            placeholder={index === 0 ? '最初の投稿を入力してください...' : '続きの投稿を入力してください...'}
+          />
+          {!publishedPositions.includes(index) && (
+            <ContentValidationPanel
+              content={segment}
+              userId={userId}
+              postId={postId}
+              onResult={result => onValidationResult(index, result)}
+            />
+          )}
+        </div>
+      ))}
+
+      {!isLocked && (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onChange([...segments, ''])}
+            disabled={segments.length >= MAX_THREAD_SEGMENTS}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            投稿を追加
+          </button>
+          <button
+            type="button"
+            onClick={resplit}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            title="全体を文の区切りで上限の文字数ごとに分け直します"
+          >
+            <Scissors className="w-4 h-4" />
+            文の区切りで分割し直す
+          </button>
+          <span className="text-xs text-gray-500 ml-auto">最大{MAX_THREAD_SEGMENTS}件</span>
+        </div>
+      )}
+    </div>
+  );
+}
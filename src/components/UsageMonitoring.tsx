@@ -36,6 +36,7 @@ interface UsageSummary {
     remaining: number;
     percentage: number;
     generations: number;
+    cost: number;
   };
   timestamp: string;
 }
@@ -307,7 +308,7 @@ export default function UsageMonitoring() {
               </div>
 
               <div className="pt-4 border-t border-gray-200">
-                <div className="grid grid-cols-2 gap-4 text-center">
+                <div className="grid grid-cols-3 gap-4 text-center">
                   <div>
                     <div className="text-2xl font-bold text-gray-900">{summary.tokens.generations}</div>
                     <div className="text-sm text-gray-600">AI生成回数</div>
@@ -318,6 +319,10 @@ export default function UsageMonitoring() {
                     </div>
                     <div className="text-sm text-gray-600">平均トークン/生成</div>
                   </div>
+                  <div>
+                    <div className="text-2xl font-bold text-gray-900">${summary.tokens.cost.toFixed(4)}</div>
+                    <div className="text-sm text-gray-600">本日のコスト（USD）</div>
+                  </div>
                 </div>
               </div>
             </div>
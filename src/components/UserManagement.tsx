@@ -35,7 +35,8 @@ interface User {
   threadsAccount?: {
     username: string;
     isActive: boolean;
-  };
+    tokenExpiresAt?: string | null;
+  } | null;
 }
 
 interface UserManagementProps {
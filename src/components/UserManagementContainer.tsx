@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import UserManagement from './UserManagement';
 import UserModals from './UserModals';
 
@@ -16,6 +16,11 @@ interface User {
     generations: number;
     schedules: number;
   };
+  threadsAccount?: {
+    username: string;
+    isActive: boolean;
+    tokenExpiresAt?: string | null;
+  } | null;
 }
 
 export default function UserManagementContainer() {
@@ -25,6 +30,24 @@ export default function UserManagementContainer() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
+  // Threads OAuth コールバックからの戻り結果を表示
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const result = params.get('threads_oauth');
+    if (!result) return;
+
+    if (result === 'connected') {
+      alert(`✅ Threadsアカウント @${params.get('detail') || ''} を連携しました`);
+    } else {
+      alert(`❌ Threads連携に失敗しました: ${params.get('detail') || '不明なエラー'}`);
+    }
+
+    params.delete('threads_oauth');
+    params.delete('detail');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, []);
+
   const handleCloseModals = () => {
     setShowCreateModal(false);
     setShowEditModal(false);
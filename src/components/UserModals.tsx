@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Save, Trash2, AlertTriangle, User, Mail, Lock, Shield } from 'lucide-react';
+import { X, Save, Trash2, AlertTriangle, User, Mail, Lock, Shield, Link2, Unlink } from 'lucide-react';
 
 interface User {
   id: string;
@@ -16,6 +16,11 @@ interface User {
     generations: number;
     schedules: number;
   };
+  threadsAccount?: {
+    username: string;
+    isActive: boolean;
+    tokenExpiresAt?: string | null;
+  } | null;
 }
 
 interface UserModalsProps {
@@ -155,6 +160,55 @@ export default function UserModals({
     }
   };
 
+  // Threads連携を開始（OAuth認可画面へ遷移）
+  const handleConnectThreads = () => {
+    if (!selectedUser) return;
+    window.location.href = `/api/admin/threads/oauth/authorize?userId=${encodeURIComponent(selectedUser.id)}`;
+  };
+
+  // Threads連携を解除
+  const handleDisconnectThreads = async () => {
+    if (!selectedUser?.threadsAccount) return;
+    if (!confirm(`@${selectedUser.threadsAccount.username} の連携を解除しますか？`)) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/users/${selectedUser.id}/threads-account`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        alert('✅ Threads連携を解除しました');
+        onUserUpdated();
+      } else {
+        setError(data.error || 'Threads連携の解除に失敗しました');
+      }
+    } catch (err) {
+      setError('ネットワークエラーが発生しました');
+      console.error('Threads disconnect error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Threads連携状態の表示内容
+  const getThreadsStatus = (account: User['threadsAccount']) => {
+    if (!account) {
+      return { label: '未連携', className: 'bg-gray-100 text-gray-600' };
+    }
+    if (account.tokenExpiresAt && new Date(account.tokenExpiresAt) <= new Date()) {
+      return { label: '期限切れ', className: 'bg-red-100 text-red-700' };
+    }
+    if (!account.isActive) {
+      return { label: '無効', className: 'bg-yellow-100 text-yellow-700' };
+    }
+    return { label: '連携中', className: 'bg-green-100 text-green-700' };
+  };
+
   // ユーザー削除
   const handleDelete = async () => {
     if (!selectedUser) return;
@@ -445,6 +499,58 @@ export default function UserModals({
                     アクティブユーザー
                   </label>
                 </div>
+
+                {/* Threads連携 */}
+                <div className="border-t border-gray-200 pt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-700">
+                      <Link2 className="w-4 h-4 inline mr-1" />
+                      Threads連携
+                    </span>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${getThreadsStatus(selectedUser.threadsAccount).className}`}>
+                      {getThreadsStatus(selectedUser.threadsAccount).label}
+                    </span>
+                  </div>
+
+                  {selectedUser.threadsAccount ? (
+                    <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
+                      <div className="text-sm">
+                        <p className="text-blue-600">@{selectedUser.threadsAccount.username}</p>
+                        {selectedUser.threadsAccount.tokenExpiresAt && (
+                          <p className="text-xs text-gray-500">
+                            トークン有効期限: {new Date(selectedUser.threadsAccount.tokenExpiresAt).toLocaleString('ja-JP')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleConnectThreads}
+                          disabled={loading}
+                          className="px-3 py-1 text-xs text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          再連携
+                        </button>
+                        <button
+                          onClick={handleDisconnectThreads}
+                          disabled={loading}
+                          className="px-3 py-1 text-xs text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1"
+                        >
+                          <Unlink className="w-3 h-3" />
+                          解除
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleConnectThreads}
+                      disabled={loading}
+                      className="w-full px-4 py-2 text-sm text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      Threadsアカウントを連携
+                    </button>
+                  )}
+                </div>
               </div>
 
               <div className="flex gap-3 mt-6">
@@ -25,6 +25,19 @@ export interface AIPerformanceReport {
   }[];
   trendingHashtags: string[];
   optimalPostingTimes: number[];
+  variantPreferences: VariantPreferenceReport;
+}
+
+// 複数候補の生成で、オペレーターがどの候補を選んだかの傾向
+export interface VariantPreferenceReport {
+  batches: number;
+  decidedBatches: number;
+  selectionRate: number; // 候補を選んで投稿・予約したバッチの割合（%）
+  byPosition: { variantIndex: number; shown: number; selected: number; selectionRate: number }[];
+  byModel: { model: string; shown: number; selected: number; selectionRate: number }[];
+  selectedTraits: { avgLength: number; avgHashtags: number; avgQualityScore: number };
+  rejectedTraits: { avgLength: number; avgHashtags: number; avgQualityScore: number };
+  selectedPostPerformance: { posts: number; avgViews: number; avgEngagements: number; engagementRate: number };
 }
 
 export class AIEffectivenessAnalyzer {
@@ -75,6 +88,9 @@ export class AIEffectivenessAnalyzer {
       
       // 最適投稿時間の分析
       const optimalPostingTimes = await this.findOptimalPostingTimes(days);
+
+      // 候補の選択傾向の分析
+      const variantPreferences = await this.analyzeVariantPreferences(startDate);
       
       // エンゲージメント率計算
       const totalEngagements = aiGenerations.reduce((sum, gen) => {
@@ -91,7 +107,8 @@ export class AIEffectivenessAnalyzer {
       const contentOptimizationSuggestions = await this.generateOptimizationSuggestions(
         aiGenerations,
         modelComparison,
-        topPerformingTopics
+        topPerformingTopics,
+        variantPreferences
       );
 
       return {
@@ -101,7 +118,8 @@ export class AIEffectivenessAnalyzer {
         contentOptimizationSuggestions,
         modelComparison,
         trendingHashtags,
-        optimalPostingTimes
+        optimalPostingTimes,
+        variantPreferences
       };
 
     } catch (error) {
@@ -142,6 +160,95 @@ export class AIEffectivenessAnalyzer {
     }
   }
 
+  // 複数候補のうちオペレーターが選んだ候補の傾向を分析
+  // 候補が2件以上のバッチのみを対象とし、選ばれた候補と選ばれなかった候補を比較する
+  async analyzeVariantPreferences(startDate: Date): Promise<VariantPreferenceReport> {
+    const generations = await prisma.aIGeneration.findMany({
+      where: {
+        createdAt: { gte: startDate },
+        batchId: { not: null }
+      },
+      select: {
+        batchId: true,
+        variantIndex: true,
+        model: true,
+        generatedContent: true,
+        selectedAt: true,
+        post: { select: { views: true, engagements: true } }
+      }
+    });
+
+    const batches = new Map<string, typeof generations>();
+    for (const generation of generations) {
+      const batch = batches.get(generation.batchId!) || [];
+      batch.push(generation);
+      batches.set(generation.batchId!, batch);
+    }
+
+    const candidates = Array.from(batches.values()).filter(batch => batch.length > 1).flat();
+    const decidedBatches = new Set(candidates.filter(candidate => candidate.selectedAt).map(candidate => candidate.batchId)).size;
+    const multiVariantBatches = new Set(candidates.map(candidate => candidate.batchId)).size;
+
+    const rate = (selected: number, shown: number) => shown > 0 ? Number((selected / shown * 100).toFixed(1)) : 0;
+
+    const groupBy = <K extends string | number>(key: (candidate: typeof candidates[number]) => K) => {
+      const groups = new Map<K, { shown: number; selected: number }>();
+      for (const candidate of candidates) {
+        const group = groups.get(key(candidate)) || { shown: 0, selected: 0 };
+        group.shown++;
+        if (candidate.selectedAt) group.selected++;
+        groups.set(key(candidate), group);
+      }
+      return groups;
+    };
+
+    const byPosition = Array.from(groupBy(candidate => candidate.variantIndex).entries())
+      .map(([variantIndex, group]) => ({ variantIndex, ...group, selectionRate: rate(group.selected, group.shown) }))
+      .sort((a, b) => a.variantIndex - b.variantIndex);
+
+    const byModel = Array.from(groupBy(candidate => candidate.model).entries())
+      .map(([model, group]) => ({ model, ...group, selectionRate: rate(group.selected, group.shown) }))
+      .sort((a, b) => b.selectionRate - a.selectionRate);
+
+    const describe = async (contents: string[]) => {
+      if (contents.length === 0) {
+        return { avgLength: 0, avgHashtags: 0, avgQualityScore: 0 };
+      }
+      const scores = await Promise.all(contents.map(content => this.calculateContentQualityScore(content)));
+      const average = (values: number[]) => Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(1));
+      return {
+        avgLength: average(contents.map(content => content.length)),
+        avgHashtags: average(contents.map(content => this.extractHashtags(content).length)),
+        avgQualityScore: average(scores)
+      };
+    };
+
+    const selected = candidates.filter(candidate => candidate.selectedAt);
+    // 選ばれなかった候補は、いずれかの候補が選ばれたバッチのものだけを比較対象にする
+    const decidedBatchIds = new Set(selected.map(candidate => candidate.batchId));
+    const rejected = candidates.filter(candidate => !candidate.selectedAt && decidedBatchIds.has(candidate.batchId));
+
+    const selectedPosts = selected.map(candidate => candidate.post).filter((post): post is { views: number; engagements: number } => post !== null);
+    const totalViews = selectedPosts.reduce((sum, post) => sum + post.views, 0);
+    const totalEngagements = selectedPosts.reduce((sum, post) => sum + post.engagements, 0);
+
+    return {
+      batches: multiVariantBatches,
+      decidedBatches,
+      selectionRate: rate(decidedBatches, multiVariantBatches),
+      byPosition,
+      byModel,
+      selectedTraits: await describe(selected.map(candidate => candidate.generatedContent)),
+      rejectedTraits: await describe(rejected.map(candidate => candidate.generatedContent)),
+      selectedPostPerformance: {
+        posts: selectedPosts.length,
+        avgViews: selectedPosts.length > 0 ? Number((totalViews / selectedPosts.length).toFixed(1)) : 0,
+        avgEngagements: selectedPosts.length > 0 ? Number((totalEngagements / selectedPosts.length).toFixed(1)) : 0,
+        engagementRate: totalViews > 0 ? Number((totalEngagements / totalViews * 100).toFixed(2)) : 0
+      }
+    };
+  }
+
   // トップパフォーマンストピック識別
   private async identifyTopPerformingTopics(aiGenerations: any[]): Promise<string[]> {
     try {
@@ -271,7 +378,8 @@ export class AIEffectivenessAnalyzer {
   private async generateOptimizationSuggestions(
     aiGenerations: any[],
     modelComparison: any[],
-    topTopics: string[]
+    topTopics: string[],
+    variantPreferences: VariantPreferenceReport
   ): Promise<string[]> {
     const suggestions: string[] = [];
 
@@ -286,6 +394,21 @@ export class AIEffectivenessAnalyzer {
       suggestions.push(`最もエンゲージメントが高いトピック: ${topTopics[0]}。このようなテーマでより多くのコンテンツを生成することを検討してください。`);
     }
 
+    // 候補の選択傾向に基づく提案
+    if (variantPreferences.decidedBatches > 0) {
+      const { selectedTraits, rejectedTraits } = variantPreferences;
+      if (selectedTraits.avgLength < rejectedTraits.avgLength * 0.8) {
+        suggestions.push(`選ばれる候補は選ばれない候補より短い傾向があります（平均${selectedTraits.avgLength}文字 / ${rejectedTraits.avgLength}文字）。短めの長さ設定を検討してください。`);
+      } else if (selectedTraits.avgLength > rejectedTraits.avgLength * 1.2) {
+        suggestions.push(`選ばれる候補は選ばれない候補より長い傾向があります（平均${selectedTraits.avgLength}文字 / ${rejectedTraits.avgLength}文字）。長めの長さ設定を検討してください。`);
+      }
+
+      const preferredModel = variantPreferences.byModel.find(model => model.shown >= 5);
+      if (preferredModel && variantPreferences.byModel.length > 1) {
+        suggestions.push(`候補の採用率が最も高いモデルは ${preferredModel.model}（${preferredModel.selectionRate}%）です。`);
+      }
+    }
+
     // 一般的な最適化提案
     suggestions.push('ハッシュタグの使用により投稿の発見性を高めてください。');
     suggestions.push('最適な投稿時間帯を活用して、より多くのオーディエンスにリーチしてください。');
@@ -0,0 +1,72 @@
+import type { PromptTemplate } from '@prisma/client';
+import { prisma } from './prisma';
+import { PromptTemplateRules, renderPromptTemplate } from './prompt-templates';
+
+// AI投稿生成のプロンプト
+// 通常の生成APIとストリーミング生成APIで同じプロンプトを使う
+// テンプレートが指定されていればテンプレートから、なければ組み込みのプロンプトを組み立てる
+
+// トーンに応じたプロンプト調整
+export const TONE_PROMPTS: Record<string, string> = {
+  casual: '親しみやすく、カジュアルな',
+  professional: '専門的で、ビジネスライクな',
+  funny: 'ユーモアがあり、面白い',
+  inspirational: '感動的で、やる気を起こさせる'
+};
+
+// 長さに応じた指示
+export const LENGTH_PROMPTS: Record<string, string> = {
+  short: '簡潔で短い（50文字以内）',
+  medium: '適度な長さ（100-200文字）',
+  long: '詳細で長い（300文字以内）'
+};
+
+// 有効なテンプレートを取得（見つからない・無効化されている場合は null）
+export async function getActivePromptTemplate(id: string): Promise<PromptTemplate | null> {
+  return prisma.promptTemplate.findFirst({
+    where: { id, isActive: true }
+  });
+}
+
+// 保存時に検証済みのため、言語・絵文字の値はそのままルールとして扱う
+export function buildTemplatePrompt(
+  template: PromptTemplate,
+  values: { topic: string; tone: string; length: string },
+  variant?: { index: number; count: number }
+): string {
+  return renderPromptTemplate(template as PromptTemplate & PromptTemplateRules, values, variant);
+}
+
+// 複数の候補を生成する場合は、候補ごとに切り口を変えるよう指示する
+export function buildPostPrompt(options: {
+  topic: string;
+  tone: string;
+  length: string;
+  variantIndex?: number;
+  variantCount?: number;
+  template?: PromptTemplate | null;
+}): string {
+  const { topic, tone, length, variantIndex = 0, variantCount = 1, template } = options;
+
+  if (template) {
+    return buildTemplatePrompt(
+      template,
+      { topic, tone: TONE_PROMPTS[tone] || 'カジュアルな', length: LENGTH_PROMPTS[length] || '適度な長さ' },
+      { index: variantIndex, count: variantCount }
+    );
+  }
+
+  return `以下のトピックについて、${TONE_PROMPTS[tone] || 'カジュアルな'}トーンで${LENGTH_PROMPTS[length] || '適度な長さの'}Threads投稿を生成してください。
+
+トピック: ${topic}
+
+要件:
+- Threadsに適した投稿形式
+- ハッシュタグを2-3個含める
+- 絵文字を適度に使用
+- 読みやすく魅力的な内容
+- 日本語で生成${variantCount > 1 ? `
+- 候補${variantIndex + 1}/${variantCount}として、他の候補とは異なる切り口・書き出しにする` : ''}
+
+投稿内容のみを出力してください:`;
+}
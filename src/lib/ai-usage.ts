@@ -0,0 +1,144 @@
+import { prisma } from './prisma';
+import { apiRateLimiter } from './api-rate-limiter';
+
+// AI生成のトークン数とコストの計算・記録
+
+// 100万トークンあたりの料金（USD）
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// 生成する投稿のユーザーが指定されない対話的な生成は、管理システムからの生成として予算・履歴に記録する
+export const SYSTEM_GENERATION_USER_ID = 'admin-system';
+
+// 予算と生成履歴の記録先にするユーザーID（指定されたユーザーが存在しない場合は null）
+export async function resolveGenerationUserId(userId: unknown): Promise<string | null> {
+  if (userId === undefined || userId === null || userId === '') {
+    return SYSTEM_GENERATION_USER_ID;
+  }
+  if (typeof userId !== 'string') {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true }
+  });
+  return user?.id ?? null;
+}
+
+// 料金表を上書きするシステム設定のキー（JSON: { "モデル名": { "inputPerMillion": 0.1, "outputPerMillion": 0.4 } }）
+export const MODEL_PRICING_SETTING_KEY = 'ai_model_pricing';
+
+export const DEFAULT_MODEL_PRICING: ModelPriceTable = {
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-flash-8b': { inputPerMillion: 0.0375, outputPerMillion: 0.15 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 }
+};
+
+// Gemini のレスポンスの usageMetadata からトークン数を取り出す
+// usageMetadata が返らない場合はすべて 0 とする
+export function extractTokenUsage(response: {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}): TokenUsage {
+  const promptTokens = response.usageMetadata?.promptTokenCount || 0;
+  const completionTokens = response.usageMetadata?.candidatesTokenCount || 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: response.usageMetadata?.totalTokenCount || promptTokens + completionTokens
+  };
+}
+
+// 料金表の値を検証しながら読み込む（不正なエントリは無視）
+export function parseModelPricing(value: string): ModelPriceTable {
+  const parsed: unknown = JSON.parse(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Model pricing must be a JSON object');
+  }
+
+  const table: ModelPriceTable = {};
+  for (const [model, price] of Object.entries(parsed as Record<string, unknown>)) {
+    const { inputPerMillion, outputPerMillion } = (price || {}) as Partial<ModelPrice>;
+    if (typeof inputPerMillion === 'number' && typeof outputPerMillion === 'number' && inputPerMillion >= 0 && outputPerMillion >= 0) {
+      table[model] = { inputPerMillion, outputPerMillion };
+    }
+  }
+  return table;
+}
+
+// デフォルトの料金表にシステム設定の上書きを適用
+export async function getModelPricing(): Promise<ModelPriceTable> {
+  const setting = await prisma.systemSettings.findUnique({
+    where: { key: MODEL_PRICING_SETTING_KEY }
+  });
+
+  if (!setting) {
+    return DEFAULT_MODEL_PRICING;
+  }
+
+  try {
+    return { ...DEFAULT_MODEL_PRICING, ...parseModelPricing(setting.value) };
+  } catch (error) {
+    console.error('Invalid model pricing setting:', error);
+    return DEFAULT_MODEL_PRICING;
+  }
+}
+
+// トークン数からコスト（USD）を計算。料金表にないモデルは null
+// model は「プロバイダー/モデル名」の形式でもよい（料金表はモデル名で引く）
+export function calculateCost(model: string, usage: TokenUsage, pricing: ModelPriceTable = DEFAULT_MODEL_PRICING): number | null {
+  const price = pricing[model] || pricing[model.slice(model.indexOf('/') + 1)];
+  if (!price) {
+    return null;
+  }
+
+  const cost = (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+  return Number(cost.toFixed(6));
+}
+
+// 生成履歴をトークン数とコスト付きで保存し、予算の消費状況を通知
+export async function recordAIGeneration(data: {
+  userId: string;
+  prompt: string;
+  generatedContent: string;
+  model: string;
+  usage: TokenUsage;
+  batchId?: string;
+  variantIndex?: number;
+  promptTemplate?: { id: string; version: number } | null; // プロンプトの元になったテンプレートと版
+}) {
+  const pricing = await getModelPricing();
+
+  const generation = await prisma.aIGeneration.create({
+    data: {
+      userId: data.userId,
+      prompt: data.prompt,
+      generatedContent: data.generatedContent,
+      model: data.model,
+      promptTokens: data.usage.promptTokens,
+      completionTokens: data.usage.completionTokens,
+      tokensUsed: data.usage.totalTokens,
+      cost: calculateCost(data.model, data.usage, pricing),
+      batchId: data.batchId,
+      variantIndex: data.variantIndex,
+      promptTemplateId: data.promptTemplate?.id,
+      promptTemplateVersion: data.promptTemplate?.version
+    }
+  });
+
+  await apiRateLimiter.trackTokenUsage(data.userId, data.usage.totalTokens, data.model);
+
+  return generation;
+}
@@ -0,0 +1,12 @@
+// AI生成の複数候補に関する定数
+// 生成APIとフォームの両方から利用するため、データベースには依存しない
+
+// 1回のリクエストで生成できる候補数の上限
+export const MAX_AI_VARIANTS = 4;
+
+// 候補を採用した用途
+export type VariantSelectionPurpose = 'post' | 'schedule';
+
+export function isVariantSelectionPurpose(value: unknown): value is VariantSelectionPurpose {
+  return value === 'post' || value === 'schedule';
+}
@@ -0,0 +1,321 @@
+import { createHmac } from 'crypto';
+import { prisma } from './prisma';
+import { calculateRetryDelay, RetryPolicy } from './schedule-retry';
+import { sendMail, SmtpError } from './smtp-client';
+import { AlertChannel } from './alert-rules';
+
+// アラートの外部への送信（署名付きJSON Webhook・Slack/Discord の Incoming Webhook・SMTP メール）
+//
+// 送信先はシステム設定（notification カテゴリ）、秘密情報は環境変数で指定する
+//   ALERT_WEBHOOK_SECRET: Webhook の署名鍵（X-Alert-Signature: sha256=HMAC(`${timestamp}.${body}`)）
+//   SMTP_USER / SMTP_PASSWORD: SMTP 認証（TLS 接続時のみ送信）
+
+export const ALERT_CHANNEL_SETTING_KEYS = {
+  webhookUrl: 'alert_webhook_url',
+  chatWebhookUrl: 'alert_chat_webhook_url',
+  notificationEmail: 'notification_email',
+  emailEnabled: 'email_notifications_enabled',
+  smtpHost: 'smtp_host',
+  smtpPort: 'smtp_port',
+  smtpSecure: 'smtp_secure',
+  smtpFrom: 'smtp_from'
+} as const;
+
+// 初回を含めた送信回数と再試行の間隔
+const MAX_DELIVERY_ATTEMPTS = 3;
+const DELIVERY_RETRY_POLICY: RetryPolicy = {
+  maxRetries: MAX_DELIVERY_ATTEMPTS - 1,
+  retryBackoffSeconds: 2,
+  retryJitter: 0.2
+};
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface AlertMessage {
+  title: string;
+  message: string;
+  severity: 'info' | 'warning';
+  rule?: {
+    id: string;
+    name: string;
+    metric: string;
+    operator: string;
+    threshold: number;
+  };
+  incidentId?: string;
+  value?: number;
+  triggeredAt: string;
+  isTest: boolean;
+}
+
+export interface AlertDeliveryResult {
+  deliveryId: string;
+  channel: AlertChannel;
+  status: 'success' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+export interface AlertChannelStatus {
+  channel: AlertChannel;
+  configured: boolean;
+  target: string | null;
+  reason?: string;
+}
+
+// 送信の失敗（retryable な場合は再試行する）
+class AlertDeliveryError extends Error {
+  readonly statusCode?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { statusCode?: number; retryable: boolean }) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+    this.statusCode = options.statusCode;
+    this.retryable = options.retryable;
+  }
+}
+
+type ChannelSettings = Record<keyof typeof ALERT_CHANNEL_SETTING_KEYS, string>;
+
+async function loadChannelSettings(): Promise<ChannelSettings> {
+  const settings = await prisma.systemSettings.findMany({
+    where: { key: { in: Object.values(ALERT_CHANNEL_SETTING_KEYS) } }
+  });
+  const getSetting = (key: string) => settings.find(setting => setting.key === key)?.value?.trim() || '';
+
+  return Object.fromEntries(
+    Object.entries(ALERT_CHANNEL_SETTING_KEYS).map(([name, key]) => [name, getSetting(key)])
+  ) as ChannelSettings;
+}
+
+function parseRecipients(value: string): string[] {
+  return value.split(',').map(address => address.trim()).filter(Boolean);
+}
+
+// チャンネルの送信先（未設定・無効の場合は reason）
+function resolveTarget(channel: AlertChannel, settings: ChannelSettings): { target: string | null; reason?: string } {
+  switch (channel) {
+    case 'webhook':
+      return settings.webhookUrl
+        ? { target: settings.webhookUrl }
+        : { target: null, reason: `${ALERT_CHANNEL_SETTING_KEYS.webhookUrl} が未設定です` };
+
+    case 'chat':
+      return settings.chatWebhookUrl
+        ? { target: settings.chatWebhookUrl }
+        : { target: null, reason: `${ALERT_CHANNEL_SETTING_KEYS.chatWebhookUrl} が未設定です` };
+
+    case 'email':
+      if (settings.emailEnabled === 'false') {
+        return { target: null, reason: `${ALERT_CHANNEL_SETTING_KEYS.emailEnabled} が無効です` };
+      }
+      if (!settings.smtpHost || !settings.notificationEmail) {
+        return { target: null, reason: `${ALERT_CHANNEL_SETTING_KEYS.smtpHost} と ${ALERT_CHANNEL_SETTING_KEYS.notificationEmail} を設定してください` };
+      }
+      return { target: parseRecipients(settings.notificationEmail).join(', ') };
+  }
+}
+
+// 各チャンネルの設定状況（画面表示用）
+export async function getAlertChannelStatuses(): Promise<AlertChannelStatus[]> {
+  const settings = await loadChannelSettings();
+  const channels: AlertChannel[] = ['webhook', 'chat', 'email'];
+
+  return channels.map(channel => {
+    const { target, reason } = resolveTarget(channel, settings);
+    return { channel, configured: target !== null, target, reason };
+  });
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<number> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'threads-admin-panel-alerts',
+        ...headers
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw new AlertDeliveryError(
+      `Request to ${url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { retryable: true }
+    );
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new AlertDeliveryError(`HTTP ${response.status}: ${text.substring(0, 200)}`, {
+      statusCode: response.status,
+      retryable: response.status >= 500 || response.status === 429
+    });
+  }
+
+  return response.status;
+}
+
+// 汎用の JSON Webhook（ALERT_WEBHOOK_SECRET が設定されていれば署名する）
+function sendWebhook(url: string, alert: AlertMessage): Promise<number> {
+  const body = JSON.stringify({ type: alert.isTest ? 'alert.test' : 'alert.triggered', ...alert });
+  const secret = process.env.ALERT_WEBHOOK_SECRET;
+  if (!secret) {
+    return postJson(url, body);
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  return postJson(url, body, {
+    'X-Alert-Timestamp': timestamp,
+    'X-Alert-Signature': `sha256=${signature}`
+  });
+}
+
+// Slack / Discord の Incoming Webhook 用のメッセージ（URL から判別する）
+function formatChatPayload(url: string, alert: AlertMessage): object {
+  const host = new URL(url).hostname;
+
+  if (host === 'discord.com' || host.endsWith('.discord.com') || host === 'discordapp.com') {
+    return {
+      content: alert.isTest ? '（テスト送信）' : undefined,
+      embeds: [{
+        title: alert.title,
+        description: alert.message,
+        color: alert.severity === 'warning' ? 0xf59e0b : 0x3b82f6,
+        timestamp: alert.triggeredAt
+      }]
+    };
+  }
+
+  return {
+    text: `${alert.title}: ${alert.message}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${alert.severity === 'warning' ? ':warning: ' : ''}${alert.title}*\n${alert.message}`
+        }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `${alert.isTest ? 'テスト送信 / ' : ''}${alert.triggeredAt}` }]
+      }
+    ]
+  };
+}
+
+async function sendEmail(settings: ChannelSettings, alert: AlertMessage): Promise<number> {
+  const port = Number(settings.smtpPort) || (settings.smtpSecure === 'true' ? 465 : 587);
+
+  try {
+    await sendMail(
+      {
+        host: settings.smtpHost,
+        port,
+        secure: settings.smtpSecure === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD
+      },
+      {
+        from: settings.smtpFrom || `threads-admin-panel <alerts@${settings.smtpHost}>`,
+        to: parseRecipients(settings.notificationEmail),
+        subject: `${alert.isTest ? '[テスト] ' : ''}${alert.title}`,
+        text: `${alert.message}\n\n発生日時: ${alert.triggeredAt}\n`
+      }
+    );
+    return 250;
+  } catch (error) {
+    if (error instanceof SmtpError) {
+      throw new AlertDeliveryError(error.message, { statusCode: error.code, retryable: error.transient });
+    }
+    throw error;
+  }
+}
+
+function sendToChannel(channel: AlertChannel, target: string, settings: ChannelSettings, alert: AlertMessage): Promise<number> {
+  switch (channel) {
+    case 'webhook':
+      return sendWebhook(target, alert);
+    case 'chat':
+      return postJson(target, JSON.stringify(formatChatPayload(target, alert)));
+    case 'email':
+      return sendEmail(settings, alert);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// アラートを1つのチャンネルに送信し、結果を AlertDelivery に記録する
+// 一時的な失敗（接続エラー・5xx・429・SMTP 4xx）はバックオフしながら再試行する
+export async function deliverAlert(channel: AlertChannel, alert: AlertMessage): Promise<AlertDeliveryResult> {
+  const settings = await loadChannelSettings();
+  const { target, reason } = resolveTarget(channel, settings);
+
+  const delivery = await prisma.alertDelivery.create({
+    data: {
+      ruleId: alert.rule?.id ?? null,
+      channel,
+      target: target || '-',
+      title: alert.title,
+      isTest: alert.isTest,
+      ...(!target && { status: 'skipped', error: reason, completedAt: new Date() })
+    }
+  });
+
+  if (!target) {
+    return { deliveryId: delivery.id, channel, status: 'skipped', attempts: 0, error: reason };
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const statusCode = await sendToChannel(channel, target, settings, alert);
+
+      await prisma.alertDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'success', attempts: attempt, statusCode, error: null, completedAt: new Date() }
+      });
+      return { deliveryId: delivery.id, channel, status: 'success', attempts: attempt };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = error instanceof AlertDeliveryError ? error.retryable : false;
+      const finished = !retryable || attempt === MAX_DELIVERY_ATTEMPTS;
+
+      console.warn(`Alert delivery ${delivery.id} via ${channel} failed (attempt ${attempt}/${MAX_DELIVERY_ATTEMPTS}):`, message);
+
+      await prisma.alertDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: finished ? 'failed' : 'retrying',
+          attempts: attempt,
+          statusCode: error instanceof AlertDeliveryError ? error.statusCode ?? null : null,
+          error: message,
+          ...(finished && { completedAt: new Date() })
+        }
+      });
+
+      if (finished) {
+        return { deliveryId: delivery.id, channel, status: 'failed', attempts: attempt, error: message };
+      }
+
+      await sleep(calculateRetryDelay(DELIVERY_RETRY_POLICY, attempt));
+    }
+  }
+}
+
+// 直近の送信記録
+export function getRecentAlertDeliveries(limit: number = 50) {
+  return prisma.alertDelivery.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: { rule: { select: { name: true } } }
+  });
+}
@@ -0,0 +1,345 @@
+import { AlertRule } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  ALERT_METRICS,
+  AlertMetric,
+  compareAlertValue,
+  formatAlertMetricValue,
+  isAlertChannel,
+  isAlertMetric,
+  parseAlertActions
+} from './alert-rules';
+import { AlertDeliveryResult, AlertMessage, deliverAlert } from './alert-channels';
+import {
+  findIncidentResolvedSince,
+  findOpenIncident,
+  openIncident,
+  recordDetection,
+  reopenIncident,
+  resolveIncident,
+  resolveIncidentsWithoutActiveRule
+} from './alert-incidents';
+
+export interface AlertEvaluationResult {
+  ruleId: string;
+  name: string;
+  value?: number;
+  triggered: boolean;
+  // opened: 新しく発火、deduplicated: 開いているインシデントにまとめた、reopened: クールダウン中の再発、resolved: 条件が解消
+  incident?: { id: string; change: 'opened' | 'deduplicated' | 'reopened' | 'resolved' };
+  deliveries?: AlertDeliveryResult[];
+  error?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// 予約日時を過ぎてからこの時間が経っても予約中の投稿を「公開されていない」とみなす
+const OVERDUE_SCHEDULED_POST_GRACE_MS = 10 * 60 * 1000;
+
+// エンゲージメント率の比較に使う期間
+const ENGAGEMENT_TRAILING_DAYS = 7;
+
+function startOfDay(now: Date): Date {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+// 最後に公開に成功した後に失敗した投稿の数
+// 失敗した投稿は失敗時に更新されるため updatedAt を失敗した日時とみなす
+async function countConsecutivePublishFailures(): Promise<number> {
+  const lastPublished = await prisma.post.findFirst({
+    where: { status: 'published', publishedAt: { not: null } },
+    select: { publishedAt: true },
+    orderBy: { publishedAt: 'desc' }
+  });
+
+  return prisma.post.count({
+    where: {
+      status: 'failed',
+      ...(lastPublished?.publishedAt && { updatedAt: { gt: lastPublished.publishedAt } })
+    }
+  });
+}
+
+// 期間内に公開した投稿のエンゲージメント率（閲覧数に対するエンゲージメント数、%）
+async function getEngagementRate(from: Date, to: Date): Promise<number | null> {
+  const totals = await prisma.post.aggregate({
+    where: {
+      status: 'published',
+      publishedAt: { gte: from, lt: to }
+    },
+    _sum: { views: true, engagements: true }
+  });
+
+  const views = totals._sum.views || 0;
+  return views > 0 ? ((totals._sum.engagements || 0) / views) * 100 : null;
+}
+
+// メトリクスごとの現在値の取得
+const METRIC_RESOLVERS: Record<AlertMetric, (now: Date) => Promise<number>> = {
+  api_usage: (now) => prisma.adminLog.count({
+    where: {
+      action: 'api_usage',
+      createdAt: { gte: new Date(now.getTime() - HOUR_MS) }
+    }
+  }),
+
+  token_usage: async (now) => {
+    const tokenUsage = await prisma.aIGeneration.aggregate({
+      where: { createdAt: { gte: startOfDay(now) } },
+      _sum: { tokensUsed: true }
+    });
+    return tokenUsage._sum.tokensUsed || 0;
+  },
+
+  error_rate: async (now) => {
+    const hourAgo = new Date(now.getTime() - HOUR_MS);
+    const totalLogs = await prisma.adminLog.count({
+      where: { createdAt: { gte: hourAgo } }
+    });
+    if (totalLogs === 0) return 0;
+
+    const errorLogs = await prisma.adminLog.count({
+      where: {
+        createdAt: { gte: hourAgo },
+        action: { contains: 'error' }
+      }
+    });
+    return (errorLogs / totalLogs) * 100;
+  },
+
+  schedule_fails: (now) => prisma.adminLog.count({
+    where: {
+      action: 'schedule_execution_failed',
+      createdAt: { gte: new Date(now.getTime() - HOUR_MS) }
+    }
+  }),
+
+  schedule_failure_rate: async (now) => {
+    const dayAgo = new Date(now.getTime() - DAY_MS);
+    const [executed, failed] = await Promise.all([
+      prisma.adminLog.count({ where: { action: 'schedule_executed', createdAt: { gte: dayAgo } } }),
+      prisma.adminLog.count({ where: { action: 'schedule_execution_failed', createdAt: { gte: dayAgo } } })
+    ]);
+    const total = executed + failed;
+    return total > 0 ? (failed / total) * 100 : 0;
+  },
+
+  consecutive_publish_failures: () => countConsecutivePublishFailures(),
+
+  overdue_scheduled_posts: (now) => prisma.post.count({
+    where: {
+      status: 'scheduled',
+      scheduledFor: { lt: new Date(now.getTime() - OVERDUE_SCHEDULED_POST_GRACE_MS) }
+    }
+  }),
+
+  // アラート評価自体もジョブとして実行されるため、それ以外のジョブの動きで判断する
+  worker_heartbeat_age: async (now) => {
+    const job = await prisma.job.findFirst({
+      where: {
+        type: { not: 'alert_evaluation' },
+        heartbeatAt: { not: null }
+      },
+      orderBy: { heartbeatAt: 'desc' },
+      select: { heartbeatAt: true, completedAt: true }
+    });
+    if (!job?.heartbeatAt) return 0;
+
+    const lastSeen = Math.max(job.heartbeatAt.getTime(), job.completedAt?.getTime() ?? 0);
+    return Math.max(0, (now.getTime() - lastSeen) / 60000);
+  },
+
+  daily_ai_cost: async (now) => {
+    const cost = await prisma.aIGeneration.aggregate({
+      where: { createdAt: { gte: startOfDay(now) } },
+      _sum: { cost: true }
+    });
+    return cost._sum.cost || 0;
+  },
+
+  // 比較できる投稿がない場合は低下なし（0）とする
+  engagement_rate_drop: async (now) => {
+    const dayAgo = new Date(now.getTime() - DAY_MS);
+    const trailingFrom = new Date(dayAgo.getTime() - ENGAGEMENT_TRAILING_DAYS * DAY_MS);
+
+    const [recentRate, trailingRate] = await Promise.all([
+      getEngagementRate(dayAgo, now),
+      getEngagementRate(trailingFrom, dayAgo)
+    ]);
+    if (recentRate === null || !trailingRate) return 0;
+
+    return Math.max(0, ((trailingRate - recentRate) / trailingRate) * 100);
+  }
+};
+
+// メトリクスの現在値を取得（未知のメトリクスは null）
+async function getMetricValue(metric: string, now: Date): Promise<number | null> {
+  return isAlertMetric(metric) ? METRIC_RESOLVERS[metric](now) : null;
+}
+
+// ルールのアクションを実行（外部への送信の失敗は AlertDelivery に記録し、他のアクションは続ける）
+async function executeRuleActions(rule: AlertRule, value: number, now: Date, incidentId: string): Promise<AlertDeliveryResult[]> {
+  const metricLabel = isAlertMetric(rule.metric) ? ALERT_METRICS[rule.metric].label : rule.metric;
+  const alert: AlertMessage = {
+    title: `アラート: ${rule.name}`,
+    message: `${metricLabel} が ${formatAlertMetricValue(rule.metric, value)} になりました（条件: ${rule.operator} ${formatAlertMetricValue(rule.metric, rule.threshold)}）`,
+    severity: 'warning',
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold
+    },
+    incidentId,
+    value,
+    triggeredAt: now.toISOString(),
+    isTest: false
+  };
+  const deliveries: AlertDeliveryResult[] = [];
+
+  for (const action of parseAlertActions(rule.actions)) {
+    if (action === 'notification') {
+      await prisma.notification.create({
+        data: {
+          title: alert.title,
+          message: alert.message,
+          type: 'warning',
+          priority: 'high',
+          category: 'alert',
+          data: JSON.stringify({
+            ruleId: rule.id,
+            incidentId,
+            metric: rule.metric,
+            value,
+            threshold: rule.threshold,
+            triggeredAt: alert.triggeredAt
+          })
+        }
+      });
+    } else if (isAlertChannel(action)) {
+      deliveries.push(await deliverAlert(action, alert));
+    } else {
+      console.warn(`Unknown alert action "${action}" for rule: ${rule.name}`);
+    }
+  }
+
+  return deliveries;
+}
+
+// 条件が解消したことを通知（ルールのアクションに通知センターが含まれる場合のみ）
+async function notifyIncidentResolved(rule: AlertRule, value: number, incidentId: string) {
+  if (!parseAlertActions(rule.actions).includes('notification')) return;
+
+  await prisma.notification.create({
+    data: {
+      title: `解消: ${rule.name}`,
+      message: `${isAlertMetric(rule.metric) ? ALERT_METRICS[rule.metric].label : rule.metric} が ${formatAlertMetricValue(rule.metric, value)} に戻りました`,
+      type: 'success',
+      category: 'alert',
+      data: JSON.stringify({ ruleId: rule.id, incidentId, value })
+    }
+  });
+}
+
+// 1つのルールを評価し、インシデントを開く・まとめる・閉じる
+async function evaluateRule(rule: AlertRule, now: Date): Promise<AlertEvaluationResult> {
+  const value = await getMetricValue(rule.metric, now);
+  if (value === null) {
+    return { ruleId: rule.id, name: rule.name, triggered: false, error: `Unknown metric: ${rule.metric}` };
+  }
+
+  const triggered = compareAlertValue(value, rule.operator, rule.threshold);
+  const open = await findOpenIncident(rule.id);
+
+  if (!triggered) {
+    if (!open) {
+      return { ruleId: rule.id, name: rule.name, value, triggered };
+    }
+
+    await resolveIncident(open, now, { value });
+    await notifyIncidentResolved(rule, value, open.id);
+    return { ruleId: rule.id, name: rule.name, value, triggered, incident: { id: open.id, change: 'resolved' } };
+  }
+
+  // 開いているインシデントがあればまとめ、アクションは再実行しない
+  if (open) {
+    await recordDetection(open, value, now);
+    return { ruleId: rule.id, name: rule.name, value, triggered, incident: { id: open.id, change: 'deduplicated' } };
+  }
+
+  // クールダウン中の再発は直前に解消したインシデントを開き直す（アクションは再実行しない）
+  const cooldownStart = new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000);
+  if (rule.lastTriggered && rule.lastTriggered > cooldownStart) {
+    const recent = await findIncidentResolvedSince(rule.id, rule.lastTriggered);
+    if (recent) {
+      await reopenIncident(recent, value, now);
+      return { ruleId: rule.id, name: rule.name, value, triggered, incident: { id: recent.id, change: 'reopened' } };
+    }
+  }
+
+  const incident = await openIncident(rule, value, now);
+  const deliveries = await executeRuleActions(rule, value, now, incident.id);
+
+  await prisma.alertRule.update({
+    where: { id: rule.id },
+    data: {
+      lastTriggered: now,
+      triggerCount: { increment: 1 }
+    }
+  });
+
+  await prisma.adminLog.create({
+    data: {
+      action: 'alert_triggered',
+      details: JSON.stringify({
+        ruleId: rule.id,
+        incidentId: incident.id,
+        name: rule.name,
+        metric: rule.metric,
+        value,
+        operator: rule.operator,
+        threshold: rule.threshold
+      })
+    }
+  });
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    value,
+    triggered,
+    incident: { id: incident.id, change: 'opened' },
+    ...(deliveries.length > 0 && { deliveries })
+  };
+}
+
+// 有効なアラートルールを評価し、インシデントを更新
+export async function evaluateAlertRules(now: Date = new Date()): Promise<AlertEvaluationResult[]> {
+  const activeRules = await prisma.alertRule.findMany({
+    where: { isActive: true }
+  });
+
+  const results: AlertEvaluationResult[] = [];
+
+  for (const rule of activeRules) {
+    try {
+      results.push(await evaluateRule(rule, now));
+    } catch (error) {
+      console.error(`Error evaluating rule ${rule.id}:`, error);
+      results.push({
+        ruleId: rule.id,
+        name: rule.name,
+        triggered: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  await resolveIncidentsWithoutActiveRule(activeRules.map(rule => rule.id), now);
+
+  return results;
+}
@@ -0,0 +1,170 @@
+import { AlertIncident, AlertRule } from '@prisma/client';
+import { prisma } from './prisma';
+
+// アラートのインシデント（発火 → 承認 → 解消）
+// ルールが発火するとインシデントを開き、条件を満たしている間の再検知は同じインシデントにまとめる
+
+export type AlertIncidentStatus = 'firing' | 'acknowledged' | 'resolved';
+
+export const OPEN_INCIDENT_STATUSES: AlertIncidentStatus[] = ['firing', 'acknowledged'];
+
+export type AlertIncidentErrorKind = 'not_found' | 'invalid_state';
+
+export class AlertIncidentError extends Error {
+  readonly kind: AlertIncidentErrorKind;
+
+  constructor(message: string, kind: AlertIncidentErrorKind) {
+    super(message);
+    this.name = 'AlertIncidentError';
+    this.kind = kind;
+  }
+}
+
+// 比較演算子に対して、より条件から外れた値（> なら大きい方、< なら小さい方）
+function pickPeakValue(operator: string, current: number, value: number): number {
+  if (operator === '>' || operator === '>=') return Math.max(current, value);
+  if (operator === '<' || operator === '<=') return Math.min(current, value);
+  return value;
+}
+
+export function findOpenIncident(ruleId: string) {
+  return prisma.alertIncident.findFirst({
+    where: { ruleId, status: { in: OPEN_INCIDENT_STATUSES } },
+    orderBy: { firedAt: 'desc' }
+  });
+}
+
+// 指定日時以降に解消したインシデント（クールダウン中の再発で開き直す対象）
+export function findIncidentResolvedSince(ruleId: string, since: Date) {
+  return prisma.alertIncident.findFirst({
+    where: { ruleId, status: 'resolved', resolvedAt: { gte: since } },
+    orderBy: { resolvedAt: 'desc' }
+  });
+}
+
+export function openIncident(rule: AlertRule, value: number, now: Date) {
+  return prisma.alertIncident.create({
+    data: {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      value,
+      peakValue: value,
+      firedAt: now,
+      lastDetectedAt: now,
+      events: {
+        create: { type: 'fired', value, createdAt: now }
+      }
+    }
+  });
+}
+
+// 開いているインシデントで条件を再検知した（タイムラインには残さず、回数と値のみ更新）
+export function recordDetection(incident: AlertIncident, value: number, now: Date) {
+  return prisma.alertIncident.update({
+    where: { id: incident.id },
+    data: {
+      value,
+      peakValue: pickPeakValue(incident.operator, incident.peakValue, value),
+      detectionCount: { increment: 1 },
+      lastDetectedAt: now
+    }
+  });
+}
+
+// 解消したインシデントを開き直す（承認は取り消す）
+export function reopenIncident(incident: AlertIncident, value: number, now: Date) {
+  return prisma.alertIncident.update({
+    where: { id: incident.id },
+    data: {
+      status: 'firing',
+      value,
+      peakValue: pickPeakValue(incident.operator, incident.peakValue, value),
+      detectionCount: { increment: 1 },
+      lastDetectedAt: now,
+      acknowledgedAt: null,
+      acknowledgeNote: null,
+      resolvedAt: null,
+      events: {
+        create: { type: 'reopened', value, createdAt: now }
+      }
+    }
+  });
+}
+
+export function resolveIncident(incident: AlertIncident, now: Date, options: { value?: number; note?: string } = {}) {
+  return prisma.alertIncident.update({
+    where: { id: incident.id },
+    data: {
+      status: 'resolved',
+      resolvedAt: now,
+      ...(options.value !== undefined && { value: options.value }),
+      events: {
+        create: { type: 'resolved', value: options.value ?? null, note: options.note ?? null, createdAt: now }
+      }
+    }
+  });
+}
+
+// 無効化・削除されたルールのインシデントは評価されなくなるため閉じる
+export async function resolveIncidentsWithoutActiveRule(activeRuleIds: string[], now: Date): Promise<number> {
+  const orphaned = await prisma.alertIncident.findMany({
+    where: {
+      status: { in: OPEN_INCIDENT_STATUSES },
+      OR: [{ ruleId: null }, { ruleId: { notIn: activeRuleIds } }]
+    }
+  });
+
+  for (const incident of orphaned) {
+    await resolveIncident(incident, now, { note: 'ルールが無効化・削除されたため解消しました' });
+  }
+
+  return orphaned.length;
+}
+
+// 対応中であることを記録する（解消は条件が戻った時点で自動）
+export async function acknowledgeIncident(incidentId: string, note: string | null, now: Date = new Date()) {
+  const incident = await prisma.alertIncident.findUnique({
+    where: { id: incidentId }
+  });
+
+  if (!incident) {
+    throw new AlertIncidentError(`Alert incident not found: ${incidentId}`, 'not_found');
+  }
+
+  if (incident.status !== 'firing') {
+    throw new AlertIncidentError(
+      incident.status === 'resolved' ? 'このインシデントは解消済みです' : 'このインシデントは承認済みです',
+      'invalid_state'
+    );
+  }
+
+  return prisma.alertIncident.update({
+    where: { id: incidentId },
+    data: {
+      status: 'acknowledged',
+      acknowledgedAt: now,
+      acknowledgeNote: note,
+      events: {
+        create: { type: 'acknowledged', note, createdAt: now }
+      }
+    },
+    include: { events: { orderBy: { createdAt: 'asc' } } }
+  });
+}
+
+// インシデント一覧（open: 発火中・承認済み）
+export function listIncidents(options: { status?: AlertIncidentStatus | 'open'; limit?: number } = {}) {
+  const status = options.status === 'open'
+    ? { in: OPEN_INCIDENT_STATUSES }
+    : options.status;
+
+  return prisma.alertIncident.findMany({
+    where: status ? { status } : {},
+    orderBy: { firedAt: 'desc' },
+    take: options.limit || 50,
+    include: { events: { orderBy: { createdAt: 'asc' } } }
+  });
+}
@@ -0,0 +1,251 @@
+// アラートルールの条件・アクションの定義と入力チェック
+// クライアント（ルールの編集画面）とサーバー（API・アラート評価）の両方から利用するため、サーバー専用の処理は含めない
+
+export const ALERT_OPERATORS = ['>', '>=', '<', '<=', '=='] as const;
+
+export type AlertOperator = typeof ALERT_OPERATORS[number];
+
+export type AlertMetric =
+  | 'api_usage'
+  | 'token_usage'
+  | 'error_rate'
+  | 'schedule_fails'
+  | 'schedule_failure_rate'
+  | 'consecutive_publish_failures'
+  | 'overdue_scheduled_posts'
+  | 'worker_heartbeat_age'
+  | 'daily_ai_cost'
+  | 'engagement_rate_drop';
+
+export type AlertMetricUnit = 'count' | 'percent' | 'minutes' | 'tokens' | 'usd';
+
+export interface AlertMetricDefinition {
+  label: string;
+  description: string;
+  unit: AlertMetricUnit;
+  // ルール作成時の初期値
+  defaultOperator: AlertOperator;
+  defaultThreshold: number;
+}
+
+// アラートルールで監視できるメトリクス（値の取得は alert-engine.ts の METRIC_RESOLVERS）
+// メトリクスを追加する場合はここと METRIC_RESOLVERS の両方に追加する
+export const ALERT_METRICS: Record<AlertMetric, AlertMetricDefinition> = {
+  api_usage: {
+    label: 'API使用回数',
+    description: '直近1時間のAPI呼び出し回数',
+    unit: 'count',
+    defaultOperator: '>=',
+    defaultThreshold: 100
+  },
+  token_usage: {
+    label: 'AIトークン使用量',
+    description: '今日（0時以降）のAI生成で使用したトークンの合計',
+    unit: 'tokens',
+    defaultOperator: '>=',
+    defaultThreshold: 50000
+  },
+  error_rate: {
+    label: 'エラー率',
+    description: '直近1時間の操作ログのうち、エラーとして記録されたものの割合',
+    unit: 'percent',
+    defaultOperator: '>=',
+    defaultThreshold: 10
+  },
+  schedule_fails: {
+    label: 'スケジュール実行の失敗回数',
+    description: '直近1時間にスケジュールの実行が失敗した回数',
+    unit: 'count',
+    defaultOperator: '>=',
+    defaultThreshold: 3
+  },
+  schedule_failure_rate: {
+    label: 'スケジュール実行の失敗率',
+    description: '直近24時間のスケジュール実行のうち、失敗したものの割合',
+    unit: 'percent',
+    defaultOperator: '>=',
+    defaultThreshold: 20
+  },
+  consecutive_publish_failures: {
+    label: '連続した公開の失敗',
+    description: '直近の投稿の公開が何件続けて失敗しているか（公開に成功すると0に戻る）',
+    unit: 'count',
+    defaultOperator: '>=',
+    defaultThreshold: 3
+  },
+  overdue_scheduled_posts: {
+    label: '公開されていない予約投稿',
+    description: '予約日時を10分以上過ぎても予約中のままになっている投稿の数',
+    unit: 'count',
+    defaultOperator: '>=',
+    defaultThreshold: 1
+  },
+  worker_heartbeat_age: {
+    label: 'バックグラウンドワーカーの応答なし',
+    description: 'アラート評価以外のジョブが最後に実行・完了してからの経過時間',
+    unit: 'minutes',
+    defaultOperator: '>=',
+    defaultThreshold: 30
+  },
+  daily_ai_cost: {
+    label: 'AI生成の費用',
+    description: '今日（0時以降）のAI生成の費用の合計（料金表にないモデルは含まない）',
+    unit: 'usd',
+    defaultOperator: '>=',
+    defaultThreshold: 5
+  },
+  engagement_rate_drop: {
+    label: 'エンゲージメント率の低下',
+    description: '直近24時間に公開した投稿のエンゲージメント率が、その前の7日間の平均から何%下がったか',
+    unit: 'percent',
+    defaultOperator: '>=',
+    defaultThreshold: 30
+  }
+};
+
+export const ALERT_METRIC_UNIT_LABELS: Record<AlertMetricUnit, string> = {
+  count: '件',
+  percent: '%',
+  minutes: '分',
+  tokens: 'トークン',
+  usd: 'USD'
+};
+
+// 外部への送信チャンネル（送信処理は alert-channels.ts）
+export type AlertChannel = 'webhook' | 'chat' | 'email';
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  webhook: 'Webhook（署名付きJSON）',
+  chat: 'Slack / Discord',
+  email: 'メール'
+};
+
+export const ALERT_ACTION_LABELS: Record<string, string> = {
+  notification: '通知センターに通知',
+  ...ALERT_CHANNEL_LABELS
+};
+
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+
+export interface AlertRuleInput {
+  name: string;
+  description: string | null;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  actions: string[];
+  cooldownMinutes: number;
+  isActive: boolean;
+}
+
+export function isAlertMetric(value: unknown): value is AlertMetric {
+  return typeof value === 'string' && Object.hasOwn(ALERT_METRICS, value);
+}
+
+// メトリクスの値を単位付きで表示
+export function formatAlertMetricValue(metric: string, value: number): string {
+  const unit = isAlertMetric(metric) ? ALERT_METRICS[metric].unit : 'count';
+  const rounded = Math.round(value * 100) / 100;
+
+  return unit === 'usd' ? `$${rounded}` : `${rounded}${ALERT_METRIC_UNIT_LABELS[unit]}`;
+}
+
+export function isAlertChannel(value: unknown): value is AlertChannel {
+  return typeof value === 'string' && Object.hasOwn(ALERT_CHANNEL_LABELS, value);
+}
+
+export function isAlertOperator(value: unknown): value is AlertOperator {
+  return typeof value === 'string' && (ALERT_OPERATORS as readonly string[]).includes(value);
+}
+
+// メトリクスの値を条件と比較
+export function compareAlertValue(value: number, operator: string, threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '<': return value < threshold;
+    case '>=': return value >= threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+    default: return false;
+  }
+}
+
+// AlertRule.actions（JSON配列）を読み込む
+export function parseAlertActions(actions: string): string[] {
+  try {
+    const parsed = JSON.parse(actions);
+    return Array.isArray(parsed) ? parsed.filter((action): action is string => typeof action === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// AlertRule.condition に保存する条件の説明（評価には metric / operator / threshold を使う）
+export function formatAlertCondition(rule: { metric: string; operator: string; threshold: number }): string {
+  return JSON.stringify({ metric: rule.metric, operator: rule.operator, threshold: rule.threshold });
+}
+
+// API に渡されたアラートルールをチェック
+// partial では指定された項目のみ確認する（更新用）
+export function parseAlertRuleInput(
+  value: Record<string, unknown>,
+  options: { partial?: boolean } = {}
+): { rule: Partial<AlertRuleInput>; error?: string } {
+  const rule: Partial<AlertRuleInput> = {};
+  const has = (key: string) => value[key] !== undefined || !options.partial;
+
+  if (has('name')) {
+    if (typeof value.name !== 'string' || !value.name.trim()) {
+      return { rule, error: 'ルール名を入力してください' };
+    }
+    rule.name = value.name.trim();
+  }
+
+  if (value.description !== undefined) {
+    rule.description = typeof value.description === 'string' && value.description.trim() ? value.description.trim() : null;
+  }
+
+  if (has('metric')) {
+    if (!isAlertMetric(value.metric)) {
+      return { rule, error: `メトリクスは ${Object.keys(ALERT_METRICS).join(', ')} のいずれかを指定してください` };
+    }
+    rule.metric = value.metric;
+  }
+
+  if (has('operator')) {
+    if (!isAlertOperator(value.operator)) {
+      return { rule, error: `比較演算子は ${ALERT_OPERATORS.join(' ')} のいずれかを指定してください` };
+    }
+    rule.operator = value.operator;
+  }
+
+  if (has('threshold')) {
+    const threshold = Number(value.threshold);
+    if (value.threshold === null || value.threshold === '' || !Number.isFinite(threshold)) {
+      return { rule, error: '閾値は数値で指定してください' };
+    }
+    rule.threshold = threshold;
+  }
+
+  if (has('actions')) {
+    if (!Array.isArray(value.actions) || value.actions.length === 0 ||
+      value.actions.some(action => typeof action !== 'string' || !Object.hasOwn(ALERT_ACTION_LABELS, action))) {
+      return { rule, error: `アクションは ${Object.keys(ALERT_ACTION_LABELS).join(', ')} から1つ以上指定してください` };
+    }
+    rule.actions = Array.from(new Set(value.actions as string[]));
+  }
+
+  if (value.cooldownMinutes !== undefined || !options.partial) {
+    const cooldownMinutes = value.cooldownMinutes === undefined ? DEFAULT_ALERT_COOLDOWN_MINUTES : Number(value.cooldownMinutes);
+    if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0) {
+      return { rule, error: 'クールダウンは0以上の整数（分）で指定してください' };
+    }
+    rule.cooldownMinutes = cooldownMinutes;
+  }
+
+  if (value.isActive !== undefined || !options.partial) {
+    rule.isActive = value.isActive !== false;
+  }
+
+  return { rule };
+}
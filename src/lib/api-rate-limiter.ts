@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from './prisma';
 
 interface RateLimitResult {
@@ -17,6 +18,43 @@ interface ApiUsageStats {
   lastUsed: Date;
 }
 
+export type TokenBudgetScope = 'user' | 'global';
+export type TokenBudgetPeriod = 'day' | 'month';
+
+export interface TokenBudgetUsage {
+  scope: TokenBudgetScope;
+  period: TokenBudgetPeriod;
+  used: number;
+  limit: number;
+  remaining: number | null; // 無制限の場合は null
+  resetAt: Date;
+}
+
+export interface TokenBudgetCheck {
+  allowed: boolean;
+  budgets: TokenBudgetUsage[];
+  exceeded?: TokenBudgetUsage;
+}
+
+// トークン予算の上限を設定するシステム設定のキー
+export const TOKEN_BUDGET_SETTING_KEYS = {
+  userDay: 'max_tokens_per_day',
+  userMonth: 'max_tokens_per_month',
+  globalDay: 'global_max_tokens_per_day',
+  globalMonth: 'global_max_tokens_per_month'
+} as const;
+
+// トークン予算を使い切っている場合のエラー
+export class TokenBudgetExceededError extends Error {
+  readonly budget: TokenBudgetUsage;
+
+  constructor(budget: TokenBudgetUsage) {
+    super(`Token budget exceeded (${budget.scope}/${budget.period}): ${budget.used}/${budget.limit} tokens`);
+    this.name = 'TokenBudgetExceededError';
+    this.budget = budget;
+  }
+}
+
 export class ApiRateLimiter {
   private static instance: ApiRateLimiter;
   private usageCache: Map<string, { count: number; reset: Date }> = new Map();
@@ -235,53 +273,100 @@ export class ApiRateLimiter {
     }
   }
 
-  // トークン使用量を追跡
+  // AI生成の前にトークン予算（ユーザー別・全体の日次/月次）を確認
+  // 上限が 0 の予算は無制限として扱う
+  async checkTokenBudget(userId: string, estimatedTokens: number = 0): Promise<TokenBudgetCheck> {
+    const now = new Date();
+    const dayStart = new Date(now);
+    dayStart.setHours(0, 0, 0, 0);
+    const monthStart = new Date(dayStart);
+    monthStart.setDate(1);
+
+    const [limits, userDay, userMonth, globalDay, globalMonth] = await Promise.all([
+      this.getTokenBudgetLimits(),
+      this.sumTokensUsed({ userId, createdAt: { gte: dayStart } }),
+      this.sumTokensUsed({ userId, createdAt: { gte: monthStart } }),
+      this.sumTokensUsed({ createdAt: { gte: dayStart } }),
+      this.sumTokensUsed({ createdAt: { gte: monthStart } })
+    ]);
+
+    const nextDay = new Date(dayStart);
+    nextDay.setDate(nextDay.getDate() + 1);
+    const nextMonth = new Date(monthStart);
+    nextMonth.setMonth(nextMonth.getMonth() + 1);
+
+    const usages: Omit<TokenBudgetUsage, 'remaining'>[] = [
+      { scope: 'user', period: 'day', used: userDay, limit: limits.userDay, resetAt: nextDay },
+      { scope: 'user', period: 'month', used: userMonth, limit: limits.userMonth, resetAt: nextMonth },
+      { scope: 'global', period: 'day', used: globalDay, limit: limits.globalDay, resetAt: nextDay },
+      { scope: 'global', period: 'month', used: globalMonth, limit: limits.globalMonth, resetAt: nextMonth }
+    ];
+    const budgets: TokenBudgetUsage[] = usages.map(budget => ({
+      ...budget,
+      remaining: budget.limit > 0 ? Math.max(0, budget.limit - budget.used) : null
+    }));
+
+    const exceeded = budgets.find(budget => budget.limit > 0 && budget.used + estimatedTokens >= budget.limit);
+
+    return { allowed: !exceeded, budgets, exceeded };
+  }
+
+  // 予算を超えている場合は TokenBudgetExceededError を投げる
+  async enforceTokenBudget(userId: string, estimatedTokens: number = 0): Promise<void> {
+    const check = await this.checkTokenBudget(userId, estimatedTokens);
+
+    if (check.exceeded) {
+      await prisma.adminLog.create({
+        data: {
+          action: 'token_budget_exceeded',
+          details: `Token budget exceeded: ${check.exceeded.scope}/${check.exceeded.period} - User: ${userId}, Used: ${check.exceeded.used}, Limit: ${check.exceeded.limit}`
+        }
+      });
+
+      throw new TokenBudgetExceededError(check.exceeded);
+    }
+  }
+
+  // 生成後のトークン使用量を確認し、1日の上限の80%・100%を超えた時点で通知
   async trackTokenUsage(
     userId: string,
     tokens: number,
     model: string = 'gemini-1.5-flash'
   ): Promise<boolean> {
     try {
-      // 1日のトークン制限を取得
-      const setting = await prisma.systemSettings.findUnique({
-        where: { key: 'max_tokens_per_day' }
-      });
-      
-      const maxTokensPerDay = setting ? parseInt(setting.value) : 50000;
-      
-      // 今日の使用量を計算
+      const { userDay: maxTokensPerDay } = await this.getTokenBudgetLimits();
+      if (maxTokensPerDay <= 0) {
+        return true;
+      }
+
+      // 今日の使用量を計算（今回の生成分を含む）
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-      
-      const todayUsage = await prisma.aIGeneration.aggregate({
-        where: {
-          userId,
-          createdAt: { gte: today }
-        },
-        _sum: { tokensUsed: true }
-      });
-      
-      const currentUsage = Number(todayUsage._sum.tokensUsed) || 0;
-      const newTotal = currentUsage + tokens;
-      
-      if (newTotal > maxTokensPerDay) {
-        // トークン制限に達した
-        await prisma.notification.create({
-          data: {
-            title: 'トークン制限警告',
-            message: `本日のAI生成トークン制限（${maxTokensPerDay.toLocaleString()}トークン）に達しました`,
-            type: 'error',
-            priority: 'urgent',
-            category: 'api',
-            userId
-          }
-        });
-        
+
+      const newTotal = await this.sumTokensUsed({ userId, createdAt: { gte: today } });
+      const previousUsage = newTotal - tokens;
+
+      if (newTotal >= maxTokensPerDay) {
+        // 今回の生成でトークン制限に達した
+        if (previousUsage < maxTokensPerDay) {
+          await prisma.notification.create({
+            data: {
+              title: 'トークン制限警告',
+              message: `本日のAI生成トークン制限（${maxTokensPerDay.toLocaleString()}トークン）に達しました。以降のAI生成は翌日まで停止されます`,
+              type: 'error',
+              priority: 'urgent',
+              category: 'api',
+              userId,
+              data: JSON.stringify({ model, used: newTotal, limit: maxTokensPerDay })
+            }
+          });
+        }
+
         return false;
       }
-      
+
       // 80%を超えたら警告
-      if (currentUsage < maxTokensPerDay * 0.8 && newTotal >= maxTokensPerDay * 0.8) {
+      if (previousUsage < maxTokensPerDay * 0.8 && newTotal >= maxTokensPerDay * 0.8) {
         await prisma.notification.create({
           data: {
             title: 'トークン使用量警告',
@@ -293,7 +378,7 @@ export class ApiRateLimiter {
           }
         });
       }
-      
+
       return true;
     } catch (error) {
       console.error('Failed to track token usage:', error);
@@ -301,6 +386,33 @@ export class ApiRateLimiter {
     }
   }
 
+  // トークン予算の上限をシステム設定から取得
+  private async getTokenBudgetLimits() {
+    const settings = await prisma.systemSettings.findMany({
+      where: { key: { in: Object.values(TOKEN_BUDGET_SETTING_KEYS) } }
+    });
+
+    const getLimit = (key: string, defaultValue: number) => {
+      const value = parseInt(settings.find(setting => setting.key === key)?.value || '');
+      return Number.isNaN(value) ? defaultValue : value;
+    };
+
+    return {
+      userDay: getLimit(TOKEN_BUDGET_SETTING_KEYS.userDay, 50000),
+      userMonth: getLimit(TOKEN_BUDGET_SETTING_KEYS.userMonth, 1000000),
+      globalDay: getLimit(TOKEN_BUDGET_SETTING_KEYS.globalDay, 200000),
+      globalMonth: getLimit(TOKEN_BUDGET_SETTING_KEYS.globalMonth, 3000000)
+    };
+  }
+
+  private async sumTokensUsed(where: Prisma.AIGenerationWhereInput): Promise<number> {
+    const usage = await prisma.aIGeneration.aggregate({
+      where,
+      _sum: { tokensUsed: true }
+    });
+    return Number(usage._sum.tokensUsed) || 0;
+  }
+
   // API使用量サマリーを取得
   async getUsageSummary(userId?: string) {
     try {
@@ -331,7 +443,7 @@ export class ApiRateLimiter {
       
       const tokenUsage = await prisma.aIGeneration.aggregate({
         where: userId ? { userId, createdAt: { gte: today } } : { createdAt: { gte: today } },
-        _sum: { tokensUsed: true },
+        _sum: { tokensUsed: true, cost: true },
         _count: { id: true }
       });
       
@@ -364,7 +476,8 @@ export class ApiRateLimiter {
           limit: tokenLimit,
           remaining: Math.max(0, tokenLimit - (Number(tokenUsage._sum.tokensUsed) || 0)),
           percentage: ((Number(tokenUsage._sum.tokensUsed) || 0) / tokenLimit) * 100,
-          generations: Number(tokenUsage._count.id) || 0
+          generations: Number(tokenUsage._count.id) || 0,
+          cost: Number(tokenUsage._sum.cost) || 0
         },
         timestamp: now.toISOString()
       };
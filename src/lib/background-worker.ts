@@ -1,11 +1,38 @@
 import { scheduler } from './scheduler';
 import { prisma } from './prisma';
+import { refreshExpiringThreadsTokens } from './threads-oauth';
+import { engagementTracker } from './engagement-tracker';
+import { evaluateAlertRules } from './alert-engine';
+import { enqueueDueScheduledPosts, failStalePublishingPosts, publishScheduledPost } from './scheduled-posts';
+import { createWorkerId, jobQueue, JobHandlers, JobType } from './job-queue';
+
+// Periodic jobs and how often each one is enqueued
+const PERIODIC_JOBS: { type: Exclude<JobType, 'schedule_execution' | 'post_publish'>; intervalMs: number }[] = [
+  { type: 'alert_evaluation', intervalMs: 5 * 60 * 1000 },
+  { type: 'engagement_sync', intervalMs: 15 * 60 * 1000 },
+  { type: 'threads_token_refresh', intervalMs: 60 * 60 * 1000 }
+];
+
+// Completed jobs are kept for a week for inspection
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
 
 export class BackgroundWorker {
   private static instance: BackgroundWorker;
-  private intervalId: NodeJS.Timeout | null = null;
+  private readonly workerId = createWorkerId();
+  private timeoutId: NodeJS.Timeout | null = null;
+  private loopGeneration: number = 0;
   private isRunning: boolean = false;
-  private checkInterval: number = 60000; // Check every minute
+  private checkInterval: number = 60000; // Poll the job queue every minute
+  private lastCheck: Date | null = null;
+
+  // Handlers for every job type this worker processes
+  private readonly handlers: JobHandlers = {
+    schedule_execution: (payload) => scheduler.runScheduleJob(payload),
+    post_publish: (payload) => publishScheduledPost(payload),
+    engagement_sync: () => engagementTracker.syncRecentEngagement(),
+    alert_evaluation: () => evaluateAlertRules(),
+    threads_token_refresh: () => this.refreshThreadsTokens()
+  };
 
   static getInstance(): BackgroundWorker {
     if (!BackgroundWorker.instance) {
@@ -22,75 +49,64 @@ export class BackgroundWorker {
     }
 
     this.isRunning = true;
-    console.log('🚀 Starting background worker for schedule execution...');
-    
-    // Immediate first check
-    this.executeCheck();
-    
-    // Set up recurring checks
-    this.intervalId = setInterval(() => {
-      this.executeCheck();
-    }, this.checkInterval);
+    console.log(`🚀 Starting background worker ${this.workerId}...`);
+
+    // Immediate first check; each check schedules the next one when it finishes
+    this.runLoop(++this.loopGeneration);
 
     // Log the startup
-    this.logWorkerActivity('background_worker_started', 'Background worker started successfully');
+    this.logWorkerActivity('background_worker_started', `Background worker ${this.workerId} started successfully`);
   }
 
   // Stop the background worker
   stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
     }
-    
+
     this.isRunning = false;
+    this.loopGeneration++;
     console.log('⏹️ Background worker stopped');
-    
+
     // Log the shutdown
-    this.logWorkerActivity('background_worker_stopped', 'Background worker stopped');
+    this.logWorkerActivity('background_worker_stopped', `Background worker ${this.workerId} stopped`);
+  }
+
+  // A restart bumps the generation so a check still in flight does not schedule a second loop
+  private async runLoop(generation: number) {
+    await this.executeCheck();
+
+    if (this.isRunning && generation === this.loopGeneration) {
+      this.timeoutId = setTimeout(() => this.runLoop(generation), this.checkInterval);
+    }
   }
 
-  // Check and execute due schedules
+  // Enqueue due work and process every job that is ready
   private async executeCheck() {
+    this.lastCheck = new Date();
+
     try {
-      console.log('⏰ Background worker checking for due schedules...');
-      
-      // Check if there are any due schedules
-      const dueSchedules = await prisma.schedule.count({
-        where: {
-          isActive: true,
-          nextRun: {
-            lte: new Date()
-          }
-        }
-      });
+      await this.enqueueDueJobs(this.lastCheck);
 
-      if (dueSchedules === 0) {
-        console.log('📅 No schedules due for execution');
-        return;
-      }
+      const results = await jobQueue.drain(this.workerId, this.handlers);
 
-      console.log(`📋 Found ${dueSchedules} due schedules, executing...`);
-      
-      // Execute the schedules using the scheduler
-      const results = await scheduler.executeSchedules();
-      
       if (results.length > 0) {
-        const successful = results.filter(r => r.success).length;
-        const failed = results.filter(r => !r.success).length;
-        
-        console.log(`✅ Background worker completed execution: ${successful} successful, ${failed} failed`);
-        
+        const completed = results.filter(r => r.status === 'completed').length;
+        const failed = results.length - completed;
+
+        console.log(`✅ Background worker processed ${results.length} jobs: ${completed} completed, ${failed} failed`);
+
         // Log the execution
         await this.logWorkerActivity(
           'background_execution_completed',
-          `Background execution completed: ${successful} successful, ${failed} failed out of ${results.length} total`
+          `Background execution completed: ${completed} completed, ${failed} failed out of ${results.length} jobs`
         );
       }
 
     } catch (error) {
       console.error('❌ Background worker execution error:', error);
-      
+
       // Log the error
       await this.logWorkerActivity(
         'background_worker_error',
@@ -99,6 +115,34 @@ export class BackgroundWorker {
     }
   }
 
+  // Enqueue due schedules, scheduled posts and periodic jobs; dedupe keys keep other instances from enqueuing them again
+  private async enqueueDueJobs(now: Date) {
+    await scheduler.enqueueDueSchedules();
+    await failStalePublishingPosts(now);
+    await enqueueDueScheduledPosts(now);
+
+    for (const { type, intervalMs } of PERIODIC_JOBS) {
+      await jobQueue.enqueuePeriodic(type, {}, intervalMs, now);
+    }
+
+    await jobQueue.purgeCompleted(new Date(now.getTime() - COMPLETED_JOB_RETENTION_MS));
+  }
+
+  // Refresh Threads access tokens that are about to expire
+  private async refreshThreadsTokens() {
+    const results = await refreshExpiringThreadsTokens();
+
+    if (results.length > 0) {
+      const failed = results.filter(r => !r.success).length;
+      await this.logWorkerActivity(
+        'threads_token_refresh_completed',
+        `Threads token refresh completed: ${results.length - failed} refreshed, ${failed} failed`
+      );
+    }
+
+    return results;
+  }
+
   // Log worker activities
   private async logWorkerActivity(action: string, details: string) {
     try {
@@ -114,11 +158,13 @@ export class BackgroundWorker {
   }
 
   // Get worker status
-  getStatus() {
+  async getStatus() {
     return {
       isRunning: this.isRunning,
+      workerId: this.workerId,
       checkInterval: this.checkInterval,
-      lastCheck: new Date().toISOString()
+      lastCheck: this.lastCheck?.toISOString() || null,
+      jobs: await jobQueue.getStats()
     };
   }
 
@@ -129,7 +175,7 @@ export class BackgroundWorker {
     }
 
     this.checkInterval = intervalMs;
-    
+
     // Restart with new interval if currently running
     if (this.isRunning) {
       this.stop();
@@ -141,4 +187,4 @@ export class BackgroundWorker {
 }
 
 // Export singleton instance
-export const backgroundWorker = BackgroundWorker.getInstance();
\ No newline at end of file
+export const backgroundWorker = BackgroundWorker.getInstance();
@@ -0,0 +1,166 @@
+// Threads に公開する前の投稿内容のチェック
+// クライアント（入力中の表示）とサーバー（公開前の検証）の両方から利用するため、サーバー専用の処理は含めない
+
+// Threads の本文の上限（書記素＝見た目の1文字で数える）
+export const THREADS_MAX_GRAPHEMES = 500;
+
+export interface ContentRules {
+  maxHashtags: number;
+  maxLinks: number;
+  bannedWords: string[];
+  duplicateWindowDays: number; // この日数以内に公開した投稿と同じ内容は公開しない（0で確認しない）
+}
+
+export const DEFAULT_CONTENT_RULES: ContentRules = {
+  maxHashtags: 5,
+  maxLinks: 5,
+  bannedWords: [],
+  duplicateWindowDays: 7
+};
+
+export type ContentRule = 'empty' | 'length' | 'hashtags' | 'links' | 'banned_words' | 'duplicate' | 'similar';
+
+// error は公開を止める。warning は表示のみ
+export interface ContentIssue {
+  rule: ContentRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ContentValidationResult {
+  valid: boolean;
+  graphemes: number;
+  hashtags: string[];
+  links: string[];
+  issues: ContentIssue[];
+}
+
+export interface RecentPublishedPost {
+  id: string;
+  content: string;
+  publishedAt: Date | string | null;
+}
+
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&/#])#([\p{L}\p{N}_]+)/gu;
+const LINK_PATTERN = /https?:\/\/[^\s<>"'　]+/g;
+
+// 絵文字や結合文字を1文字として数える（Intl.Segmenter がない環境ではコードポイント数）
+export function countGraphemes(text: string): number {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)).length;
+  }
+  return Array.from(text).length;
+}
+
+export function extractHashtags(text: string): string[] {
+  return Array.from(text.matchAll(HASHTAG_PATTERN), match => `#${match[1]}`);
+}
+
+export function extractLinks(text: string): string[] {
+  return text.match(LINK_PATTERN) || [];
+}
+
+// 禁止ワードの設定値（改行・カンマ区切り）を一覧にする
+export function parseBannedWords(value: string): string[] {
+  return Array.from(new Set(
+    value.split(/[\n,、]/).map(word => word.trim()).filter(Boolean)
+  ));
+}
+
+// 空白の違いだけの投稿は同じ内容とみなす
+function normalizeForDuplicate(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// ハッシュタグ・リンク・記号を除いた本文が同じ投稿は似た内容とみなす
+function normalizeForSimilarity(text: string): string {
+  return normalizeForDuplicate(text)
+    .replace(LINK_PATTERN, '')
+    .replace(HASHTAG_PATTERN, '')
+    .replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// 投稿内容をルールに照らしてチェック
+// recentPosts には重複確認の対象期間内に公開した投稿を渡す
+export function validateContent(
+  text: string,
+  rules: ContentRules = DEFAULT_CONTENT_RULES,
+  recentPosts: RecentPublishedPost[] = []
+): ContentValidationResult {
+  const graphemes = countGraphemes(text);
+  const hashtags = extractHashtags(text);
+  const links = extractLinks(text);
+  const issues: ContentIssue[] = [];
+
+  if (!text.trim()) {
+    issues.push({ rule: 'empty', severity: 'error', message: '投稿内容を入力してください' });
+  }
+
+  if (graphemes > THREADS_MAX_GRAPHEMES) {
+    issues.push({
+      rule: 'length',
+      severity: 'error',
+      message: `文字数が上限を超えています（${graphemes}/${THREADS_MAX_GRAPHEMES}文字）`
+    });
+  }
+
+  if (hashtags.length > rules.maxHashtags) {
+    issues.push({
+      rule: 'hashtags',
+      severity: 'error',
+      message: `ハッシュタグが多すぎます（${hashtags.length}/${rules.maxHashtags}個）`
+    });
+  }
+
+  if (links.length > rules.maxLinks) {
+    issues.push({
+      rule: 'links',
+      severity: 'error',
+      message: `リンクが多すぎます（${links.length}/${rules.maxLinks}件）`
+    });
+  }
+
+  const lowerText = text.normalize('NFKC').toLowerCase();
+  const bannedWords = rules.bannedWords.filter(word => lowerText.includes(word.normalize('NFKC').toLowerCase()));
+  if (bannedWords.length > 0) {
+    issues.push({
+      rule: 'banned_words',
+      severity: 'error',
+      message: `禁止ワードが含まれています: ${bannedWords.join(', ')}`
+    });
+  }
+
+  if (text.trim()) {
+    const duplicate = recentPosts.find(post => normalizeForDuplicate(post.content) === normalizeForDuplicate(text));
+    const similarKey = normalizeForSimilarity(text);
+    const similar = !duplicate && similarKey
+      ? recentPosts.find(post => normalizeForSimilarity(post.content) === similarKey)
+      : undefined;
+
+    if (duplicate) {
+      issues.push({
+        rule: 'duplicate',
+        severity: 'error',
+        message: `最近公開した投稿と同じ内容です${formatPublishedAt(duplicate)}`
+      });
+    } else if (similar) {
+      issues.push({
+        rule: 'similar',
+        severity: 'warning',
+        message: `最近公開した投稿とハッシュタグ・リンク以外が同じ内容です${formatPublishedAt(similar)}`
+      });
+    }
+  }
+
+  return {
+    valid: issues.every(issue => issue.severity !== 'error'),
+    graphemes,
+    hashtags,
+    links,
+    issues
+  };
+}
+
+function formatPublishedAt(post: RecentPublishedPost): string {
+  return post.publishedAt ? `（${new Date(post.publishedAt).toLocaleString('ja-JP')}公開）` : '';
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import {
+  ContentRules,
+  ContentValidationResult,
+  DEFAULT_CONTENT_RULES,
+  parseBannedWords,
+  validateContent
+} from './content-rules';
+
+// 投稿ルールを設定するシステム設定のキー
+export const CONTENT_RULE_SETTING_KEYS = {
+  maxHashtags: 'content_max_hashtags',
+  maxLinks: 'content_max_links',
+  bannedWords: 'content_banned_words',
+  duplicateWindowDays: 'content_duplicate_window_days'
+} as const;
+
+export const CONTENT_VALIDATION_ERROR_MESSAGE = '投稿内容が投稿ルールに違反しています';
+
+// ルールに違反する内容を公開しようとした場合のエラー
+export class ContentValidationError extends Error {
+  readonly result: ContentValidationResult;
+
+  constructor(result: ContentValidationResult) {
+    super(`Content validation failed: ${result.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join(' / ')}`);
+    this.name = 'ContentValidationError';
+    this.result = result;
+  }
+}
+
+// システム設定から投稿ルールを読み込む（未設定・不正な値はデフォルト）
+export async function getContentRules(): Promise<ContentRules> {
+  const settings = await prisma.systemSettings.findMany({
+    where: { key: { in: Object.values(CONTENT_RULE_SETTING_KEYS) } }
+  });
+  const getSetting = (key: string) => settings.find(setting => setting.key === key)?.value;
+
+  const getCount = (key: string, fallback: number) => {
+    const value = Number(getSetting(key));
+    return getSetting(key) !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    maxHashtags: getCount(CONTENT_RULE_SETTING_KEYS.maxHashtags, DEFAULT_CONTENT_RULES.maxHashtags),
+    maxLinks: getCount(CONTENT_RULE_SETTING_KEYS.maxLinks, DEFAULT_CONTENT_RULES.maxLinks),
+    bannedWords: parseBannedWords(getSetting(CONTENT_RULE_SETTING_KEYS.bannedWords) || ''),
+    duplicateWindowDays: getCount(CONTENT_RULE_SETTING_KEYS.duplicateWindowDays, DEFAULT_CONTENT_RULES.duplicateWindowDays)
+  };
+}
+
+// 投稿者が最近公開した投稿と照らし合わせてチェック
+// 公開処理中の投稿自身は excludePostId で除外する
+export async function validatePostContent(
+  content: string,
+  options: { userId: string; excludePostId?: string }
+): Promise<ContentValidationResult> {
+  const rules = await getContentRules();
+
+  const recentPosts = rules.duplicateWindowDays > 0
+    ? await prisma.post.findMany({
+      where: {
+        userId: options.userId,
+        status: 'published',
+        publishedAt: { gte: new Date(Date.now() - rules.duplicateWindowDays * 24 * 60 * 60 * 1000) },
+        ...(options.excludePostId && { id: { not: options.excludePostId } })
+      },
+      select: { id: true, content: true, publishedAt: true },
+      orderBy: { publishedAt: 'desc' }
+    })
+    : [];
+
+  return validateContent(content, rules, recentPosts);
+}
+
+// スレッド投稿の各セグメントをチェックし、1つの結果にまとめる
+// 違反内容には何件目のセグメントかを付ける
+export async function validateThreadContent(
+  segments: { position: number; content: string }[],
+  options: { userId: string; excludePostId?: string }
+): Promise<ContentValidationResult> {
+  const results = await Promise.all(segments.map(async segment => ({
+    position: segment.position,
+    result: await validatePostContent(segment.content, options)
+  })));
+
+  return {
+    valid: results.every(({ result }) => result.valid),
+    graphemes: results.reduce((total, { result }) => total + result.graphemes, 0),
+    hashtags: results.flatMap(({ result }) => result.hashtags),
+    links: results.flatMap(({ result }) => result.links),
+    issues: results.flatMap(({ position, result }) => result.issues.map(issue => ({
+      ...issue,
+      message: `${position + 1}件目: ${issue.message}`
+    })))
+  };
+}
+
+// ルール違反があれば ContentValidationError を投げる
+export async function assertValidContent(
+  content: string,
+  options: { userId: string; excludePostId?: string }
+): Promise<ContentValidationResult> {
+  const result = await validatePostContent(content, options);
+  if (!result.valid) {
+    throw new ContentValidationError(result);
+  }
+  return result;
+}
+
+// 投稿ルール違反のレスポンス（違反内容をフォームに表示できるよう結果をそのまま返す）
+export function createContentValidationErrorResponse(result: ContentValidationResult) {
+  return NextResponse.json(
+    {
+      error: CONTENT_VALIDATION_ERROR_MESSAGE,
+      errorKind: 'content_invalid',
+      issues: result.issues,
+      validation: result
+    },
+    { status: 422 }
+  );
+}
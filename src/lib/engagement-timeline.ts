@@ -0,0 +1,138 @@
+// 投稿公開後のエンゲージメント推移（EngagementSnapshot）の集計
+// 分析APIとグラフコンポーネントの両方から利用するため、データベースには依存しない
+
+// 推移を並べて比較できる投稿数の上限
+export const MAX_TIMELINE_POSTS = 5;
+
+export type TimelineMilestoneKey = '1h' | '24h' | '7d';
+
+export const TIMELINE_MILESTONES: { key: TimelineMilestoneKey; label: string; hours: number }[] = [
+  { key: '1h', label: '1時間', hours: 1 },
+  { key: '24h', label: '1日', hours: 24 },
+  { key: '7d', label: '1週間', hours: 24 * 7 }
+];
+
+export interface SnapshotLike {
+  capturedAt: Date | string;
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  engagements: number;
+}
+
+export interface TimelinePoint {
+  hoursSincePublish: number;
+  capturedAt: string;
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  engagements: number;
+}
+
+export interface MilestoneValue {
+  views: number;
+  engagements: number;
+  engagementRate: number;
+}
+
+export type TimelineMilestones = Record<TimelineMilestoneKey, MilestoneValue | null>;
+
+export interface PostTimeline {
+  postId: string;
+  userId: string;
+  content: string;
+  publishedAt: string;
+  user?: { name: string | null; email: string };
+  current: MilestoneValue;
+  milestones: TimelineMilestones;
+  points: TimelinePoint[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toMilestoneValue(views: number, engagements: number): MilestoneValue {
+  return {
+    views,
+    engagements,
+    engagementRate: views > 0 ? Number((engagements / views * 100).toFixed(2)) : 0
+  };
+}
+
+// スナップショットを公開からの経過時間順の点に変換
+export function buildTimelinePoints(publishedAt: Date, snapshots: SnapshotLike[]): TimelinePoint[] {
+  return snapshots
+    .map(snapshot => {
+      const capturedAt = new Date(snapshot.capturedAt);
+      return {
+        hoursSincePublish: Number(((capturedAt.getTime() - publishedAt.getTime()) / HOUR_MS).toFixed(2)),
+        capturedAt: capturedAt.toISOString(),
+        views: snapshot.views,
+        likes: snapshot.likes,
+        replies: snapshot.replies,
+        reposts: snapshot.reposts,
+        quotes: snapshot.quotes,
+        engagements: snapshot.engagements
+      };
+    })
+    .filter(point => point.hoursSincePublish >= 0)
+    .sort((a, b) => a.hoursSincePublish - b.hoursSincePublish);
+}
+
+// 各節目（1時間・1日・1週間）時点の値
+// 節目までに経過していない、または節目以前のスナップショットがない場合は null
+export function getTimelineMilestones(publishedAt: Date, points: TimelinePoint[], now: Date = new Date()): TimelineMilestones {
+  const elapsedHours = (now.getTime() - publishedAt.getTime()) / HOUR_MS;
+  const milestones = {} as TimelineMilestones;
+
+  for (const { key, hours } of TIMELINE_MILESTONES) {
+    const reached = [...points].reverse().find(point => point.hoursSincePublish <= hours);
+    milestones[key] = elapsedHours >= hours && reached ? toMilestoneValue(reached.views, reached.engagements) : null;
+  }
+
+  return milestones;
+}
+
+export function buildPostTimeline(
+  post: { id: string; userId: string; content: string; publishedAt: Date; views: number; engagements: number; user?: { name: string | null; email: string } },
+  snapshots: SnapshotLike[],
+  now: Date = new Date()
+): PostTimeline {
+  const points = buildTimelinePoints(post.publishedAt, snapshots);
+
+  return {
+    postId: post.id,
+    userId: post.userId,
+    content: post.content,
+    publishedAt: post.publishedAt.toISOString(),
+    user: post.user,
+    current: toMilestoneValue(post.views, post.engagements),
+    milestones: getTimelineMilestones(post.publishedAt, points, now),
+    points
+  };
+}
+
+// 複数投稿の節目ごとの平均（アカウント単位の比較用）
+export function averageMilestones(timelines: PostTimeline[]): TimelineMilestones & { postCount: number } {
+  const result = { postCount: timelines.length } as TimelineMilestones & { postCount: number };
+
+  for (const { key } of TIMELINE_MILESTONES) {
+    const values = timelines
+      .map(timeline => timeline.milestones[key])
+      .filter((value): value is MilestoneValue => value !== null);
+
+    if (values.length === 0) {
+      result[key] = null;
+      continue;
+    }
+
+    const views = values.reduce((sum, value) => sum + value.views, 0) / values.length;
+    const engagements = values.reduce((sum, value) => sum + value.engagements, 0) / values.length;
+    result[key] = toMilestoneValue(Number(views.toFixed(1)), Number(engagements.toFixed(1)));
+  }
+
+  return result;
+}
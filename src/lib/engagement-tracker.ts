@@ -1,13 +1,21 @@
 import { prisma } from './prisma';
-
-export interface EngagementMetrics {
-  postId: string;
-  views: number;
-  engagements: number;
-  likes?: number;
-  replies?: number;
-  reposts?: number;
-  timestamp: Date;
+import { ThreadsApiError, ThreadsPostInsights } from './threads-client';
+import { isThreadsDemoMode, ThreadsAccountError } from './threads-publisher';
+import {
+  DemoInsightsClient,
+  getInsightsClientForUser,
+  InsightsClientFactory,
+  InsightsSource,
+  ThreadsInsightsClient,
+  totalEngagements
+} from './threads-insights';
+
+export interface EngagementSyncResult {
+  checked: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: { postId: string; error: string }[];
 }
 
 export interface EngagementTrend {
@@ -27,54 +35,30 @@ export class EngagementTracker {
     return EngagementTracker.instance;
   }
 
-  // 投稿のエンゲージメントを更新
-  async updatePostEngagement(postId: string, metrics: Partial<EngagementMetrics>) {
-    try {
-      const updatedPost = await prisma.post.update({
-        where: { id: postId },
+  // インサイトのスナップショットを保存し、投稿の最新値を更新
+  async recordEngagementSnapshot(postId: string, insights: ThreadsPostInsights, source: InsightsSource = 'threads') {
+    const engagements = totalEngagements(insights);
+
+    const [snapshot] = await prisma.$transaction([
+      prisma.engagementSnapshot.create({
         data: {
-          views: metrics.views,
-          engagements: metrics.engagements,
-          updatedAt: new Date()
+          postId,
+          ...insights,
+          engagements,
+          source
         }
-      });
-
-      // エンゲージメント履歴を記録
-      await this.recordEngagementHistory(postId, metrics);
-
-      console.log(`📊 Updated engagement for post ${postId}: views=${metrics.views}, engagements=${metrics.engagements}`);
-      return updatedPost;
-
-    } catch (error) {
-      console.error('Failed to update post engagement:', error);
-      throw error;
-    }
-  }
-
-  // エンゲージメント履歴を記録
-  private async recordEngagementHistory(postId: string, metrics: Partial<EngagementMetrics>) {
-    try {
-      // 履歴テーブルがない場合はスキップ（必要に応じて後で実装）
-      // await prisma.engagementHistory.create({
-      //   data: {
-      //     postId,
-      //     views: metrics.views || 0,
-      //     engagements: metrics.engagements || 0,
-      //     timestamp: new Date()
-      //   }
-      // });
-
-      // 代わりに管理ログに記録
-      await prisma.adminLog.create({
+      }),
+      prisma.post.update({
+        where: { id: postId },
         data: {
-          action: 'engagement_updated',
-          details: `Post ${postId} engagement updated: views=${metrics.views}, engagements=${metrics.engagements}`
+          views: insights.views,
+          engagements
         }
-      });
+      })
+    ]);
 
-    } catch (error) {
-      console.error('Failed to record engagement history:', error);
-    }
+    console.log(`📊 Recorded engagement for post ${postId}: views=${insights.views}, engagements=${engagements}`);
+    return snapshot;
   }
 
   // 投稿のパフォーマンスを分析
@@ -304,27 +288,85 @@ export class EngagementTracker {
     }
   }
 
-  // デモ用のランダムエンゲージメントを生成
-  async generateRandomEngagement(postId: string) {
-    try {
-      const post = await prisma.post.findUnique({ where: { id: postId } });
-      if (!post) return null;
+  // 直近に公開された投稿のインサイトをThreadsから取得してスナップショットを保存
+  // デモ投稿（demo_）はデモモードの場合のみシミュレーションした値で更新する
+  async syncRecentEngagement(
+    days: number = 7,
+    clientFactory: InsightsClientFactory = getInsightsClientForUser
+  ): Promise<EngagementSyncResult> {
+    const since = new Date();
+    since.setDate(since.getDate() - days);
 
-      // 現在の値に基づいてランダムな増加を生成
-      const viewsIncrease = Math.floor(Math.random() * 20) + 1;
-      const engagementsIncrease = Math.floor(Math.random() * 5);
+    const posts = await prisma.post.findMany({
+      where: {
+        status: 'published',
+        publishedAt: { gte: since },
+        threadsPostId: { not: null }
+      },
+      select: { id: true, userId: true, threadsPostId: true },
+      orderBy: { publishedAt: 'desc' }
+    });
 
-      const newViews = post.views + viewsIncrease;
-      const newEngagements = post.engagements + engagementsIncrease;
+    const result: EngagementSyncResult = { checked: posts.length, updated: 0, skipped: 0, failed: 0, errors: [] };
+    const clients = new Map<string, ThreadsInsightsClient | null>();
+    const demoClient = new DemoInsightsClient();
+
+    for (const post of posts) {
+      const threadsPostId = post.threadsPostId!;
+      const isDemo = threadsPostId.startsWith('demo_');
+
+      let client: ThreadsInsightsClient | null;
+      if (isDemo) {
+        client = isThreadsDemoMode() ? demoClient : null;
+      } else {
+        if (!clients.has(post.userId)) {
+          clients.set(post.userId, await this.getInsightsClient(post.userId, clientFactory));
+        }
+        client = clients.get(post.userId)!;
+      }
+
+      if (!client) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const insights = await client.getPostInsights(threadsPostId);
+        await this.recordEngagementSnapshot(post.id, insights, isDemo ? 'demo' : 'threads');
+        result.updated++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push({ postId: post.id, error: error instanceof Error ? error.message : 'Unknown error' });
+
+        // レート制限に達した場合は残りを次回の同期に回す
+        if (error instanceof ThreadsApiError && error.kind === 'rate_limit') {
+          result.skipped += posts.length - posts.indexOf(post) - 1;
+          break;
+        }
+      }
+    }
 
-      return await this.updatePostEngagement(postId, {
-        views: newViews,
-        engagements: newEngagements
+    if (result.failed > 0) {
+      await prisma.adminLog.create({
+        data: {
+          action: 'engagement_sync_error',
+          details: `Engagement sync: ${result.updated} updated, ${result.failed} failed, ${result.skipped} skipped - ${result.errors[0].error}`
+        }
       });
+    }
 
+    return result;
+  }
+
+  // 投稿者のインサイト取得クライアントを生成（アカウント未連携・無効の場合は null）
+  private async getInsightsClient(userId: string, clientFactory: InsightsClientFactory): Promise<ThreadsInsightsClient | null> {
+    try {
+      return await clientFactory(userId);
     } catch (error) {
-      console.error('Failed to generate random engagement:', error);
-      return null;
+      if (error instanceof ThreadsAccountError) {
+        return null;
+      }
+      throw error;
     }
   }
 }
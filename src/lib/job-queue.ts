@@ -0,0 +1,396 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { Job, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// データベースをバックエンドにしたジョブキュー
+// 複数のNext.jsインスタンスから同時に処理しても、リースを取得したワーカーだけがジョブを実行する
+
+export type JobType =
+  | 'schedule_execution'
+  | 'post_publish'
+  | 'engagement_sync'
+  | 'alert_evaluation'
+  | 'threads_token_refresh';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface JobPayloads {
+  schedule_execution: { scheduleId: string; scheduledFor: string };
+  post_publish: { postId: string; scheduledFor: string };
+  engagement_sync: Record<string, never>;
+  alert_evaluation: Record<string, never>;
+  threads_token_refresh: Record<string, never>;
+}
+
+export interface JobContext {
+  job: Job;
+  workerId: string;
+  attempt: number;
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+
+export type JobHandlers = { [T in JobType]?: JobHandler<T> };
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  priority?: number;
+  maxAttempts?: number;
+  dedupeKey?: string;
+}
+
+export interface JobRunResult {
+  jobId: string;
+  type: JobType;
+  status: 'completed' | 'retrying' | 'dead' | 'lease_lost';
+  result?: unknown;
+  error?: string;
+}
+
+export type JobQueueStats = Partial<Record<JobType, Partial<Record<JobStatus, number>>>>;
+
+// リース期間（ハートビートで延長される）
+export const JOB_LEASE_MS = 2 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+
+// 再試行までの待機時間（指数バックオフ）
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// プロセスごとに一意なワーカーIDを生成
+export function createWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+}
+
+export class JobQueue {
+  private static instance: JobQueue;
+
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  // ジョブを登録（dedupeKey が既に登録済みの場合は null を返す）
+  async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: EnqueueOptions = {}
+  ): Promise<Job | null> {
+    try {
+      return await prisma.job.create({
+        data: {
+          type,
+          payload: JSON.stringify(payload),
+          runAt: options.runAt || new Date(),
+          priority: options.priority ?? 0,
+          maxAttempts: options.maxAttempts ?? 3,
+          dedupeKey: options.dedupeKey
+        }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // 終了したジョブ（完了・デッドレター）の重複防止キーを解放し、同じキーで登録し直せるようにする
+  async releaseDedupeKey(dedupeKey: string): Promise<boolean> {
+    const released = await prisma.job.updateMany({
+      where: { dedupeKey, status: { in: ['completed', 'dead'] } },
+      data: { dedupeKey: null }
+    });
+
+    return released.count > 0;
+  }
+
+  // 一定間隔で実行するジョブを登録（同じ時間枠では1件のみ）
+  async enqueuePeriodic<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    intervalMs: number,
+    now: Date = new Date()
+  ): Promise<Job | null> {
+    const slot = new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+
+    return this.enqueue(type, payload, {
+      runAt: slot,
+      dedupeKey: `${type}:${slot.toISOString()}`
+    });
+  }
+
+  // 実行可能なジョブを1件取得してリースを取る
+  async claim(workerId: string, types?: JobType[]): Promise<Job | null> {
+    const now = new Date();
+
+    const candidates = await prisma.job.findMany({
+      where: {
+        ...(types && { type: { in: types } }),
+        OR: [
+          { status: 'pending', runAt: { lte: now } },
+          // リース切れ（ワーカーの停止や再起動）のジョブは再取得できる
+          { status: 'running', lockedUntil: { lt: now } }
+        ]
+      },
+      orderBy: [{ priority: 'desc' }, { runAt: 'asc' }],
+      take: 5
+    });
+
+    for (const candidate of candidates) {
+      if (candidate.attempts >= candidate.maxAttempts) {
+        await this.deadLetter(candidate, candidate.lastError || 'Lease expired on final attempt');
+        continue;
+      }
+
+      // 条件付き更新で、他のワーカーより先に取得できた場合のみ採用
+      const claimed = await prisma.job.updateMany({
+        where: {
+          id: candidate.id,
+          status: candidate.status,
+          attempts: candidate.attempts
+        },
+        data: {
+          status: 'running',
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + JOB_LEASE_MS),
+          heartbeatAt: now,
+          startedAt: now,
+          attempts: { increment: 1 }
+        }
+      });
+
+      if (claimed.count === 1) {
+        return prisma.job.findUnique({ where: { id: candidate.id } });
+      }
+    }
+
+    return null;
+  }
+
+  // 重複防止キーのジョブがワーカーに実行されている最中か（リースが切れていない）
+  async hasActiveLease(dedupeKey: string, now: Date = new Date()): Promise<boolean> {
+    const job = await prisma.job.findUnique({
+      where: { dedupeKey }
+    });
+
+    return job?.status === 'running' && !!job.lockedUntil && job.lockedUntil >= now;
+  }
+
+  // リースを延長（リースを失っていた場合は false）
+  async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+    const now = new Date();
+    const updated = await prisma.job.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: 'running' },
+      data: {
+        heartbeatAt: now,
+        lockedUntil: new Date(now.getTime() + JOB_LEASE_MS)
+      }
+    });
+
+    return updated.count === 1;
+  }
+
+  // ジョブを完了にする
+  async complete(job: Job, workerId: string, result: unknown): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId, status: 'running' },
+      data: {
+        status: 'completed',
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: null,
+        result: JSON.stringify(result ?? null)
+      }
+    });
+
+    return updated.count === 1;
+  }
+
+  // ジョブの失敗を記録し、再試行またはデッドレターに回す
+  async fail(job: Job, workerId: string, message: string): Promise<'retrying' | 'dead' | 'lease_lost'> {
+    if (job.attempts >= job.maxAttempts) {
+      return (await this.deadLetter(job, message, workerId)) ? 'dead' : 'lease_lost';
+    }
+
+    const delay = Math.min(RETRY_BASE_MS * Math.pow(2, job.attempts - 1), RETRY_MAX_MS);
+    const updated = await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId, status: 'running' },
+      data: {
+        status: 'pending',
+        runAt: new Date(Date.now() + delay),
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: message
+      }
+    });
+
+    return updated.count === 1 ? 'retrying' : 'lease_lost';
+  }
+
+  // 試行回数を使い切ったジョブをデッドレターに移動して通知
+  private async deadLetter(job: Job, message: string, workerId?: string): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: {
+        id: job.id,
+        attempts: job.attempts,
+        ...(workerId ? { lockedBy: workerId, status: 'running' } : { status: job.status })
+      },
+      data: {
+        status: 'dead',
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: message
+      }
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    console.error(`💀 Job ${job.type} (${job.id}) moved to dead letter after ${job.attempts} attempts: ${message}`);
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'job_dead_lettered',
+        details: JSON.stringify({ jobId: job.id, type: job.type, attempts: job.attempts, error: message })
+      }
+    });
+
+    await prisma.notification.create({
+      data: {
+        title: 'バックグラウンドジョブ失敗',
+        message: `ジョブ「${job.type}」が${job.attempts}回失敗したため停止しました: ${message}`,
+        type: 'error',
+        priority: 'high',
+        category: 'system',
+        data: JSON.stringify({ jobId: job.id, type: job.type, payload: job.payload })
+      }
+    });
+
+    return true;
+  }
+
+  // 取得したジョブをハンドラーで実行
+  async run(job: Job, workerId: string, handlers: JobHandlers): Promise<JobRunResult> {
+    const type = job.type as JobType;
+    const handler = handlers[type] as JobHandler<JobType> | undefined;
+
+    if (!handler) {
+      const message = `No handler registered for job type "${job.type}"`;
+      return { jobId: job.id, type, status: await this.fail(job, workerId, message), error: message };
+    }
+
+    let leaseLost = false;
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await this.heartbeat(job.id, workerId))) {
+          leaseLost = true;
+        }
+      } catch (error) {
+        console.error(`Failed to heartbeat job ${job.id}:`, error);
+      }
+    }, HEARTBEAT_MS);
+
+    try {
+      const result = await handler(JSON.parse(job.payload), { job, workerId, attempt: job.attempts });
+      clearInterval(heartbeat);
+
+      const completed = await this.complete(job, workerId, result);
+      return {
+        jobId: job.id,
+        type,
+        status: completed && !leaseLost ? 'completed' : 'lease_lost',
+        result
+      };
+
+    } catch (error) {
+      clearInterval(heartbeat);
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Job ${job.type} (${job.id}) failed on attempt ${job.attempts}:`, error);
+
+      return { jobId: job.id, type, status: await this.fail(job, workerId, message), error: message };
+    }
+  }
+
+  // 実行可能なジョブがなくなるまで（最大 limit 件）処理
+  async drain(
+    workerId: string,
+    handlers: JobHandlers,
+    options: { types?: JobType[]; limit?: number } = {}
+  ): Promise<JobRunResult[]> {
+    const types = options.types || (Object.keys(handlers) as JobType[]);
+    const limit = options.limit ?? 50;
+    const results: JobRunResult[] = [];
+
+    while (results.length < limit) {
+      const job = await this.claim(workerId, types);
+      if (!job) break;
+
+      results.push(await this.run(job, workerId, handlers));
+    }
+
+    return results;
+  }
+
+  // デッドレターのジョブを再実行待ちに戻す
+  async retryDeadJob(jobId: string): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: { id: jobId, status: 'dead' },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(),
+        completedAt: null
+      }
+    });
+
+    return updated.count === 1;
+  }
+
+  // 完了済みの古いジョブを削除
+  async purgeCompleted(olderThan: Date): Promise<number> {
+    const deleted = await prisma.job.deleteMany({
+      where: {
+        status: 'completed',
+        completedAt: { lt: olderThan }
+      }
+    });
+
+    return deleted.count;
+  }
+
+  // 種類・状態ごとのジョブ件数を取得
+  async getStats(): Promise<JobQueueStats> {
+    const groups = await prisma.job.groupBy({
+      by: ['type', 'status'],
+      _count: { _all: true }
+    });
+
+    const stats: JobQueueStats = {};
+    for (const group of groups) {
+      const type = group.type as JobType;
+      stats[type] = { ...stats[type], [group.status as JobStatus]: group._count._all };
+    }
+
+    return stats;
+  }
+
+  // デッドレターのジョブ一覧を取得
+  async getDeadJobs(limit: number = 20): Promise<Job[]> {
+    return prisma.job.findMany({
+      where: { status: 'dead' },
+      orderBy: { completedAt: 'desc' },
+      take: limit
+    });
+  }
+}
+
+// ジョブキューのシングルトンインスタンス
+export const jobQueue = JobQueue.getInstance();
@@ -0,0 +1,313 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { prisma } from './prisma';
+import { extractTokenUsage, TokenUsage } from './ai-usage';
+
+// AI生成に使うLLMプロバイダーの抽象化
+// Gemini、OpenAI互換API（llama.cpp / Ollama などのローカルサーバーを含む）、オフライン用のスタブを切り替えられる
+
+export type LLMProviderName = 'gemini' | 'openai' | 'stub';
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI互換API',
+  stub: 'オフラインスタブ'
+};
+
+export const DEFAULT_LLM_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  stub: 'stub-1'
+};
+
+// プロバイダー・モデルを設定するシステム設定のキー
+export const LLM_SETTING_KEYS = {
+  provider: 'ai_provider',
+  model: 'ai_model',
+  openaiBaseUrl: 'ai_openai_base_url'
+} as const;
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// OpenAI互換APIのタイムアウト（ローカルモデルは生成に時間がかかるため長め）
+const OPENAI_REQUEST_TIMEOUT_MS = 60000;
+
+// スタブのストリーミングで一度に渡す文字数と間隔
+const STUB_STREAM_CHUNK_SIZE = 4;
+const STUB_STREAM_DELAY_MS = 30;
+
+export interface LLMGenerateRequest {
+  model: string;
+  prompt: string;
+  signal?: AbortSignal; // 中断された場合は呼び出しを取り消す
+}
+
+export interface LLMGenerateResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResult>;
+  // 生成されたテキストを届いた順に onText へ渡し、完了後に全体とトークン数を返す
+  stream(request: LLMGenerateRequest, onText: (delta: string) => void): Promise<LLMGenerateResult>;
+}
+
+// プロバイダーの設定不備や呼び出し失敗
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName | string;
+
+  constructor(provider: LLMProviderName | string, message: string) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+  }
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && Object.hasOwn(LLM_PROVIDER_LABELS, value);
+}
+
+// AIGeneration.model に記録する識別子（例: gemini/gemini-1.5-flash）
+export function formatModelId(provider: LLMProviderName, model: string): string {
+  return `${provider}/${model}`;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenerativeAI | null = null;
+
+  constructor(private readonly apiKey: string | undefined = process.env.GEMINI_API_KEY) {}
+
+  async generate({ model, prompt, signal }: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const result = await this.getClient().getGenerativeModel({ model }).generateContent(prompt, { signal });
+
+    return {
+      text: result.response.text(),
+      usage: extractTokenUsage(result.response)
+    };
+  }
+
+  async stream({ model, prompt, signal }: LLMGenerateRequest, onText: (delta: string) => void): Promise<LLMGenerateResult> {
+    const result = await this.getClient().getGenerativeModel({ model }).generateContentStream(prompt, { signal });
+
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) onText(delta);
+    }
+
+    const response = await result.response;
+    return {
+      text: response.text(),
+      usage: extractTokenUsage(response)
+    };
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.apiKey) {
+      throw new LLMProviderError(this.name, 'GEMINI_API_KEY is not set');
+    }
+
+    if (!this.client) {
+      this.client = new GoogleGenerativeAI(this.apiKey);
+    }
+    return this.client;
+  }
+}
+
+// /chat/completions を提供するOpenAI互換サーバー
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private readonly baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+    private readonly apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  async generate({ model, prompt, signal }: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const response = await this.requestCompletion({ model, prompt, signal }, false);
+
+    const data = await response.json() as {
+      choices?: { message?: { content?: string } }[];
+      usage?: OpenAIUsage;
+    };
+
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new LLMProviderError(this.name, 'Chat completion response did not include any content');
+    }
+
+    return { text: text.trim(), usage: toTokenUsage(data.usage) };
+  }
+
+  // stream: true の応答（SSE の data: 行）を読み、差分を順に渡す
+  async stream({ model, prompt, signal }: LLMGenerateRequest, onText: (delta: string) => void): Promise<LLMGenerateResult> {
+    const response = await this.requestCompletion({ model, prompt, signal }, true);
+    if (!response.body) {
+      throw new LLMProviderError(this.name, 'Chat completion response has no body');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    let usage: OpenAIUsage | undefined;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+
+        const chunk = JSON.parse(payload) as {
+          choices?: { delta?: { content?: string } }[];
+          usage?: OpenAIUsage;
+        };
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        if (chunk.usage) usage = chunk.usage;
+      }
+    }
+
+    return { text: text.trim(), usage: toTokenUsage(usage) };
+  }
+
+  private async requestCompletion({ model, prompt, signal }: LLMGenerateRequest, stream: boolean): Promise<Response> {
+    const timeout = AbortSignal.timeout(OPENAI_REQUEST_TIMEOUT_MS);
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LLMProviderError(this.name, `Chat completion request failed: ${response.status} ${response.statusText} ${body.slice(0, 200)}`.trim());
+    }
+
+    return response;
+  }
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function toTokenUsage(usage: OpenAIUsage | undefined): TokenUsage {
+  const promptTokens = usage?.prompt_tokens || 0;
+  const completionTokens = usage?.completion_tokens || 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens || promptTokens + completionTokens
+  };
+}
+
+// ネットワークを使わず、同じプロンプトには常に同じ結果を返すスタブ（テスト・オフライン用）
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+
+  async generate({ model, prompt, signal }: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    signal?.throwIfAborted();
+
+    const subject = prompt
+      .split('\n')
+      .map(line => line.trim())
+      .find(line => /^(トピック|指示):/.test(line))
+      ?.replace(/^(トピック|指示):\s*/, '') || prompt.trim().split('\n')[0];
+
+    // プロンプト全体から文面を選ぶため、バリエーション指定が違えば別の文面になる
+    const hash = Array.from(prompt).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+    const templates = [
+      `${subject.slice(0, 100)}について考えてみました✨ みなさんはどう思いますか？`,
+      `今日のテーマは「${subject.slice(0, 100)}」📝 ぜひ感想を聞かせてください！`,
+      `${subject.slice(0, 100)}、気になっている人も多いのでは？👀 詳しくはまた投稿します`
+    ];
+    const text = `${templates[hash % templates.length]} #${model.replace(/[^A-Za-z0-9]/g, '')} #オフライン生成`;
+
+    // 文字数からおおよそのトークン数を決める
+    const promptTokens = Math.ceil(prompt.length / 2);
+    const completionTokens = Math.ceil(text.length / 2);
+
+    return {
+      text,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  // 生成結果を数文字ずつ区切って渡す
+  async stream(request: LLMGenerateRequest, onText: (delta: string) => void): Promise<LLMGenerateResult> {
+    const result = await this.generate(request);
+    const characters = Array.from(result.text);
+
+    for (let index = 0; index < characters.length; index += STUB_STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, STUB_STREAM_DELAY_MS));
+      request.signal?.throwIfAborted();
+      onText(characters.slice(index, index + STUB_STREAM_CHUNK_SIZE).join(''));
+    }
+
+    return result;
+  }
+}
+
+export interface ResolvedLLM {
+  provider: LLMProvider;
+  model: string;
+  modelId: string;
+}
+
+// システム設定とリクエストの指定からプロバイダーとモデルを決定
+// リクエストでプロバイダーだけを変えた場合は、そのプロバイダーの既定モデルを使う
+export async function resolveLLM(overrides: { provider?: string; model?: string } = {}): Promise<ResolvedLLM> {
+  const settings = await prisma.systemSettings.findMany({
+    where: { key: { in: Object.values(LLM_SETTING_KEYS) } }
+  });
+  const getSetting = (key: string) => settings.find(setting => setting.key === key)?.value?.trim() || undefined;
+
+  const providerName = overrides.provider || getSetting(LLM_SETTING_KEYS.provider) || 'gemini';
+  if (!isLLMProviderName(providerName)) {
+    throw new LLMProviderError(providerName, `Unknown LLM provider: ${providerName}`);
+  }
+
+  const configuredModel = overrides.provider && overrides.provider !== getSetting(LLM_SETTING_KEYS.provider)
+    ? undefined
+    : getSetting(LLM_SETTING_KEYS.model);
+  const model = overrides.model?.trim() || configuredModel || DEFAULT_LLM_MODELS[providerName];
+
+  return {
+    provider: createProvider(providerName, getSetting(LLM_SETTING_KEYS.openaiBaseUrl)),
+    model,
+    modelId: formatModelId(providerName, model)
+  };
+}
+
+function createProvider(name: LLMProviderName, openaiBaseUrl?: string): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider(openaiBaseUrl || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL);
+    case 'stub':
+      return new StubLLMProvider();
+  }
+}
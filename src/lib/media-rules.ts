@@ -0,0 +1,99 @@
+// 投稿に添付するメディア（画像・動画）の種類と上限
+// クライアント（アップロード前の確認）とサーバー（アップロード・投稿作成時の確認）の両方から利用するため、サーバー専用の処理は含めない
+
+export type PostMediaType = 'IMAGE' | 'VIDEO';
+
+// Threads が受け付ける形式（MIMEタイプ → 保存時の拡張子）
+export const MEDIA_MIME_TYPES: Record<string, { mediaType: PostMediaType; extension: string }> = {
+  'image/jpeg': { mediaType: 'IMAGE', extension: 'jpg' },
+  'image/png': { mediaType: 'IMAGE', extension: 'png' },
+  'video/mp4': { mediaType: 'VIDEO', extension: 'mp4' },
+  'video/quicktime': { mediaType: 'VIDEO', extension: 'mov' }
+};
+
+export const MAX_MEDIA_BYTES: Record<PostMediaType, number> = {
+  IMAGE: 8 * 1024 * 1024,
+  VIDEO: 100 * 1024 * 1024
+};
+
+// アップロードしたメディアを配信するパス（Threads が取得できるよう認証なしで配信する）
+export const MEDIA_PUBLIC_PATH = '/media';
+
+// カルーセルに含められるメディア数の上限（2件以上でカルーセルとして公開する）
+export const MAX_POST_MEDIA = 20;
+
+export const MEDIA_TYPE_LABELS: Record<PostMediaType, string> = {
+  IMAGE: '画像',
+  VIDEO: '動画'
+};
+
+// アップロードしたメディアの情報（アップロードAPIの結果をそのまま投稿作成APIに渡す）
+export interface PostMediaInput {
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  mediaType: PostMediaType;
+  size: number;
+}
+
+// 保存するファイル名（ランダムな32文字 + 拡張子）。配信時のパスの確認にも使う
+export const MEDIA_FILE_NAME_PATTERN = /^[a-f0-9]{32}\.(jpg|png|mp4|mov)$/;
+
+export function getMediaMimeInfo(mimeType: string) {
+  return MEDIA_MIME_TYPES[mimeType] || null;
+}
+
+// アップロードするファイルの形式とサイズを確認（問題がなければ null）
+export function checkMediaFile(file: { type: string; size: number }): string | null {
+  const info = getMediaMimeInfo(file.type);
+  if (!info) {
+    return '対応していないファイル形式です（JPEG・PNG・MP4・MOVのみ）';
+  }
+
+  if (file.size > MAX_MEDIA_BYTES[info.mediaType]) {
+    return `${MEDIA_TYPE_LABELS[info.mediaType]}は${Math.floor(MAX_MEDIA_BYTES[info.mediaType] / 1024 / 1024)}MBまでです`;
+  }
+
+  return null;
+}
+
+// 添付メディア数に応じた Threads の投稿形式
+export function getThreadsPostMediaType(media: { mediaType: PostMediaType }[]): 'TEXT' | PostMediaType | 'CAROUSEL' {
+  if (media.length === 0) return 'TEXT';
+  if (media.length === 1) return media[0].mediaType;
+  return 'CAROUSEL';
+}
+
+// API に渡されたメディアの一覧をチェック
+export function parsePostMediaInput(value: unknown): { media: PostMediaInput[]; error?: string } {
+  if (value === undefined || value === null) {
+    return { media: [] };
+  }
+
+  if (!Array.isArray(value)) {
+    return { media: [], error: 'メディアは配列で指定してください' };
+  }
+
+  if (value.length > MAX_POST_MEDIA) {
+    return { media: [], error: `添付できるメディアは${MAX_POST_MEDIA}件までです` };
+  }
+
+  const media: PostMediaInput[] = [];
+  for (const item of value) {
+    const info = item && typeof item.mimeType === 'string' ? getMediaMimeInfo(item.mimeType) : null;
+
+    if (!info || typeof item.fileName !== 'string' || !MEDIA_FILE_NAME_PATTERN.test(item.fileName)) {
+      return { media: [], error: 'メディアの指定が正しくありません。アップロードし直してください' };
+    }
+
+    media.push({
+      fileName: item.fileName,
+      originalName: typeof item.originalName === 'string' ? item.originalName : item.fileName,
+      mimeType: item.mimeType,
+      mediaType: info.mediaType,
+      size: typeof item.size === 'number' ? item.size : 0
+    });
+  }
+
+  return { media };
+}
@@ -0,0 +1,137 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from './prisma';
+import {
+  checkMediaFile,
+  getMediaMimeInfo,
+  MEDIA_FILE_NAME_PATTERN,
+  MEDIA_MIME_TYPES,
+  MEDIA_PUBLIC_PATH,
+  PostMediaInput,
+  PostMediaType
+} from './media-rules';
+
+// Threads がメディアを取得する公開URL（例: https://admin.example.com）を設定するシステム設定のキー
+export const MEDIA_PUBLIC_BASE_URL_SETTING_KEY = 'media_public_base_url';
+
+export type MediaErrorKind = 'invalid_file' | 'not_found' | 'public_url_missing';
+
+// メディアの保存・公開に関するエラー
+export class MediaError extends Error {
+  readonly kind: MediaErrorKind;
+
+  constructor(message: string, kind: MediaErrorKind) {
+    super(message);
+    this.name = 'MediaError';
+    this.kind = kind;
+  }
+}
+
+// アップロードしたメディアの保存先（MEDIA_UPLOAD_DIR で変更できる）
+export function getMediaUploadDir(): string {
+  return path.resolve(process.env.MEDIA_UPLOAD_DIR || path.join(process.cwd(), 'uploads'));
+}
+
+// 保存先のパス（ファイル名の形式を確認し、保存先の外を指さないようにする）
+function resolveMediaPath(fileName: string): string {
+  if (!MEDIA_FILE_NAME_PATTERN.test(fileName)) {
+    throw new MediaError(`Invalid media file name: ${fileName}`, 'not_found');
+  }
+  return path.join(getMediaUploadDir(), fileName);
+}
+
+// アップロードされたファイルを確認して保存
+export async function saveMediaUpload(file: File): Promise<PostMediaInput> {
+  const error = checkMediaFile(file);
+  if (error) {
+    throw new MediaError(error, 'invalid_file');
+  }
+
+  const info = getMediaMimeInfo(file.type)!;
+  const fileName = `${randomBytes(16).toString('hex')}.${info.extension}`;
+
+  await mkdir(getMediaUploadDir(), { recursive: true });
+  await writeFile(resolveMediaPath(fileName), Buffer.from(await file.arrayBuffer()));
+
+  return {
+    fileName,
+    originalName: file.name || fileName,
+    mimeType: file.type,
+    mediaType: info.mediaType,
+    size: file.size
+  };
+}
+
+// 配信用にファイルを読み込む（存在しない場合は null）
+export async function readMediaFile(fileName: string): Promise<{ data: Buffer; mimeType: string } | null> {
+  if (!MEDIA_FILE_NAME_PATTERN.test(fileName)) return null;
+
+  const extension = path.extname(fileName).slice(1);
+  const mimeType = Object.keys(MEDIA_MIME_TYPES).find(type => MEDIA_MIME_TYPES[type].extension === extension);
+
+  try {
+    return { data: await readFile(resolveMediaPath(fileName)), mimeType: mimeType || 'application/octet-stream' };
+  } catch {
+    return null;
+  }
+}
+
+// アップロードディレクトリに見つからないメディアのファイル名
+export async function findMissingMediaFiles(media: { fileName: string }[]): Promise<string[]> {
+  const missing: string[] = [];
+  for (const item of media) {
+    try {
+      await stat(resolveMediaPath(item.fileName));
+    } catch {
+      missing.push(item.fileName);
+    }
+  }
+  return missing;
+}
+
+// 投稿から外した・投稿ごと削除したメディアのファイルを削除（失敗しても処理は続ける）
+export async function deleteMediaFiles(fileNames: string[]): Promise<void> {
+  await Promise.all(fileNames.map(async fileName => {
+    try {
+      await unlink(resolveMediaPath(fileName));
+    } catch (error) {
+      console.warn(`Failed to delete media file ${fileName}:`, error);
+    }
+  }));
+}
+
+// メディアの公開URLのベース（システム設定 → 環境変数 MEDIA_PUBLIC_BASE_URL の順）
+export async function getMediaPublicBaseUrl(): Promise<string | null> {
+  const setting = await prisma.systemSettings.findUnique({
+    where: { key: MEDIA_PUBLIC_BASE_URL_SETTING_KEY }
+  });
+  const baseUrl = setting?.value?.trim() || process.env.MEDIA_PUBLIC_BASE_URL || '';
+
+  return baseUrl ? baseUrl.replace(/\/$/, '') : null;
+}
+
+// Threads に渡すメディアの公開URL
+export async function getMediaPublicUrls(
+  media: { fileName: string; mediaType: string }[]
+): Promise<{ mediaType: PostMediaType; url: string }[]> {
+  if (media.length === 0) return [];
+
+  const baseUrl = await getMediaPublicBaseUrl();
+  if (!baseUrl) {
+    throw new MediaError(
+      `Media public URL is not configured (set ${MEDIA_PUBLIC_BASE_URL_SETTING_KEY} or MEDIA_PUBLIC_BASE_URL)`,
+      'public_url_missing'
+    );
+  }
+
+  const missing = await findMissingMediaFiles(media);
+  if (missing.length > 0) {
+    throw new MediaError(`Media file not found: ${missing.join(', ')}`, 'not_found');
+  }
+
+  return media.map(item => ({
+    mediaType: item.mediaType as PostMediaType,
+    url: `${baseUrl}${MEDIA_PUBLIC_PATH}/${item.fileName}`
+  }));
+}
@@ -0,0 +1,92 @@
+import { AlertIncident, AlertIncidentEvent, Notification } from '@prisma/client';
+import { prisma } from './prisma';
+
+// 通知・アラートのインシデントの変更をダッシュボードに push する server-sent events 用の差分取得
+// 通知はバックグラウンドワーカーを含む複数の箇所・プロセスで作成されるため、updatedAt をカーソルにして DB から差分を読む
+// イベントIDはカーソル（ミリ秒）で、再接続時の Last-Event-ID から続きを送る
+
+// サーバー側で差分を確認する間隔
+export const NOTIFICATION_STREAM_POLL_MS = 2000;
+
+// 変更がなくても接続を保つためのコメントを送る間隔
+export const NOTIFICATION_STREAM_KEEPALIVE_MS = 25000;
+
+// 一度に送る変更の上限（超えた分は次の確認で送る）
+const MAX_CHANGES_PER_POLL = 100;
+
+export interface NotificationStreamChanges {
+  notifications: { change: 'created' | 'updated'; notification: Notification }[];
+  incidents: (AlertIncident & { events: AlertIncidentEvent[] })[];
+  cursor: Date;
+}
+
+// Last-Event-ID（ミリ秒）からカーソルを復元（ない・不正な場合は現在時刻から）
+export function parseStreamCursor(lastEventId: string | null, now: Date = new Date()): Date {
+  const millis = lastEventId ? Number(lastEventId) : NaN;
+  return Number.isFinite(millis) && millis > 0 && millis <= now.getTime() ? new Date(millis) : now;
+}
+
+// 管理画面のベルに表示する未読数（システム全体の通知）
+export function countUnreadNotifications(): Promise<number> {
+  return prisma.notification.count({
+    where: { isRead: false, userId: null }
+  });
+}
+
+// カーソル以降に作成・更新された通知とインシデント
+// 同じミリ秒に複数の変更が入る場合に備えてカーソルと同時刻の行も読み、送信済みのものは seenAtCursor で除く
+export async function collectNotificationChanges(
+  cursor: Date,
+  seenAtCursor: Set<string>
+): Promise<NotificationStreamChanges> {
+  const [notifications, incidents] = await Promise.all([
+    prisma.notification.findMany({
+      where: { updatedAt: { gte: cursor }, userId: null },
+      orderBy: { updatedAt: 'asc' },
+      take: MAX_CHANGES_PER_POLL
+    }),
+    prisma.alertIncident.findMany({
+      where: { updatedAt: { gte: cursor } },
+      orderBy: { updatedAt: 'asc' },
+      take: MAX_CHANGES_PER_POLL,
+      include: { events: { orderBy: { createdAt: 'asc' } } }
+    })
+  ]);
+
+  // 上限で打ち切った場合は、打ち切った時刻より後の変更を次の確認に回す
+  const limits = [notifications, incidents]
+    .filter(rows => rows.length === MAX_CHANGES_PER_POLL)
+    .map(rows => rows[rows.length - 1].updatedAt.getTime());
+  const until = limits.length > 0 ? Math.min(...limits) : Infinity;
+
+  const isNew = (key: string, updatedAt: Date) => updatedAt.getTime() <= until &&
+    (updatedAt.getTime() > cursor.getTime() || !seenAtCursor.has(key));
+  const freshNotifications = notifications.filter(item => isNew(`notification:${item.id}:${item.updatedAt.getTime()}`, item.updatedAt));
+  const freshIncidents = incidents.filter(item => isNew(`incident:${item.id}:${item.updatedAt.getTime()}`, item.updatedAt));
+
+  const latest = Math.max(
+    cursor.getTime(),
+    ...freshNotifications.map(item => item.updatedAt.getTime()),
+    ...freshIncidents.map(item => item.updatedAt.getTime())
+  );
+
+  // カーソルが進んだら同時刻の送信済みの記録を入れ替える
+  if (latest > cursor.getTime()) {
+    seenAtCursor.clear();
+  }
+  for (const item of freshNotifications) {
+    if (item.updatedAt.getTime() === latest) seenAtCursor.add(`notification:${item.id}:${latest}`);
+  }
+  for (const item of freshIncidents) {
+    if (item.updatedAt.getTime() === latest) seenAtCursor.add(`incident:${item.id}:${latest}`);
+  }
+
+  return {
+    notifications: freshNotifications.map(notification => ({
+      change: notification.createdAt >= cursor ? 'created' as const : 'updated' as const,
+      notification
+    })),
+    incidents: freshIncidents,
+    cursor: new Date(latest)
+  };
+}
@@ -0,0 +1,169 @@
+// AI生成のプロンプトテンプレートの定義・検証・展開
+// クライアント（テンプレート管理画面のプレビュー）とサーバーの両方から利用するため、サーバー専用の処理は含めない
+
+export type PromptLanguage = 'ja' | 'en' | 'ko' | 'zh';
+
+export type EmojiUsage = 'none' | 'few' | 'moderate' | 'many';
+
+export interface PromptTemplateRules {
+  language: PromptLanguage;
+  hashtagMin: number;
+  hashtagMax: number;
+  emojiUsage: EmojiUsage;
+}
+
+export interface PromptTemplateInput extends PromptTemplateRules {
+  name: string;
+  description: string | null;
+  body: string;
+  isActive: boolean;
+}
+
+// テンプレート本文で使える変数と説明
+export const PROMPT_TEMPLATE_VARIABLES = {
+  topic: 'トピック・指示',
+  tone: 'トーン',
+  length: '長さ',
+  date: '生成日（例: 2024年5月1日）',
+  weekday: '曜日',
+  language: '出力する言語'
+} as const;
+
+export type PromptTemplateVariable = keyof typeof PROMPT_TEMPLATE_VARIABLES;
+
+export type PromptTemplateValues = Partial<Record<PromptTemplateVariable, string>>;
+
+export const PROMPT_LANGUAGE_LABELS: Record<PromptLanguage, string> = {
+  ja: '日本語',
+  en: '英語',
+  ko: '韓国語',
+  zh: '中国語'
+};
+
+export const EMOJI_USAGE_LABELS: Record<EmojiUsage, string> = {
+  none: '使わない',
+  few: '控えめ（1-2個）',
+  moderate: '適度',
+  many: '多め'
+};
+
+// 1投稿あたりのハッシュタグ数の上限（Threads の表示で埋もれない程度）
+export const MAX_TEMPLATE_HASHTAGS = 10;
+
+export const DEFAULT_PROMPT_TEMPLATE_BODY = `以下のトピックについて、{tone}トーンで{length}のThreads投稿を生成してください。
+
+トピック: {topic}`;
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
+
+// 本文に含まれる未定義の変数名
+export function findUnknownVariables(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of Array.from(body.matchAll(VARIABLE_PATTERN))) {
+    if (!Object.hasOwn(PROMPT_TEMPLATE_VARIABLES, name)) {
+      unknown.add(name);
+    }
+  }
+  return Array.from(unknown);
+}
+
+// リクエストの内容を検証してテンプレートの値に変換
+export function parsePromptTemplateInput(input: Record<string, unknown>): { template: PromptTemplateInput | null; error?: string } {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const body = typeof input.body === 'string' ? input.body.trim() : '';
+
+  if (!name || !body) {
+    return { template: null, error: 'テンプレート名と本文は必須です' };
+  }
+
+  if (!body.includes('{topic}')) {
+    return { template: null, error: '本文には {topic} を含めてください' };
+  }
+
+  const unknownVariables = findUnknownVariables(body);
+  if (unknownVariables.length > 0) {
+    return { template: null, error: `使用できない変数が含まれています: ${unknownVariables.map(v => `{${v}}`).join(', ')}` };
+  }
+
+  const hashtagMin = input.hashtagMin === undefined ? 2 : Number(input.hashtagMin);
+  const hashtagMax = input.hashtagMax === undefined ? 3 : Number(input.hashtagMax);
+  if (
+    !Number.isInteger(hashtagMin) || !Number.isInteger(hashtagMax) ||
+    hashtagMin < 0 || hashtagMax > MAX_TEMPLATE_HASHTAGS || hashtagMin > hashtagMax
+  ) {
+    return { template: null, error: `ハッシュタグ数は0〜${MAX_TEMPLATE_HASHTAGS}の範囲で、最小は最大以下にしてください` };
+  }
+
+  return {
+    template: {
+      name,
+      description: typeof input.description === 'string' && input.description.trim() ? input.description.trim() : null,
+      body,
+      language: isOneOf(input.language, Object.keys(PROMPT_LANGUAGE_LABELS) as PromptLanguage[]) ? input.language : 'ja',
+      hashtagMin,
+      hashtagMax,
+      emojiUsage: isOneOf(input.emojiUsage, Object.keys(EMOJI_USAGE_LABELS) as EmojiUsage[]) ? input.emojiUsage : 'moderate',
+      isActive: input.isActive === undefined ? true : input.isActive === true
+    }
+  };
+}
+
+// 生成日時から {date} {weekday} の値を作る
+export function getDateValues(date: Date = new Date(), timeZone = 'Asia/Tokyo'): Pick<PromptTemplateValues, 'date' | 'weekday'> {
+  return {
+    date: date.toLocaleDateString('ja-JP', { timeZone, year: 'numeric', month: 'long', day: 'numeric' }),
+    weekday: date.toLocaleDateString('ja-JP', { timeZone, weekday: 'long' })
+  };
+}
+
+function describeHashtagRule({ hashtagMin, hashtagMax }: PromptTemplateRules): string {
+  if (hashtagMax === 0) return 'ハッシュタグは使わない';
+  if (hashtagMin === hashtagMax) return `ハッシュタグを${hashtagMin}個含める`;
+  return `ハッシュタグを${hashtagMin}-${hashtagMax}個含める`;
+}
+
+function describeEmojiRule({ emojiUsage }: PromptTemplateRules): string {
+  switch (emojiUsage) {
+    case 'none': return '絵文字は使わない';
+    case 'few': return '絵文字は1-2個までにする';
+    case 'moderate': return '絵文字を適度に使用';
+    case 'many': return '絵文字を多めに使って華やかにする';
+  }
+}
+
+// テンプレートの変数を置き換え、ハッシュタグ・絵文字・言語のルールを要件として付け加える
+export function renderPromptTemplate(
+  template: { body: string } & PromptTemplateRules,
+  values: PromptTemplateValues,
+  variant: { index: number; count: number } = { index: 0, count: 1 }
+): string {
+  const allValues: PromptTemplateValues = {
+    ...getDateValues(),
+    language: PROMPT_LANGUAGE_LABELS[template.language],
+    ...values
+  };
+
+  const body = template.body.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.hasOwn(PROMPT_TEMPLATE_VARIABLES, name) ? allValues[name as PromptTemplateVariable] ?? '' : match
+  );
+
+  const requirements = [
+    'Threadsに適した投稿形式',
+    describeHashtagRule(template),
+    describeEmojiRule(template),
+    '読みやすく魅力的な内容',
+    `${PROMPT_LANGUAGE_LABELS[template.language]}で生成`,
+    ...(variant.count > 1 ? [`候補${variant.index + 1}/${variant.count}として、他の候補とは異なる切り口・書き出しにする`] : [])
+  ];
+
+  return `${body}
+
+要件:
+${requirements.map(requirement => `- ${requirement}`).join('\n')}
+
+投稿内容のみを出力してください:`;
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { apiRateLimiter } from './api-rate-limiter';
+import { apiRateLimiter, TokenBudgetExceededError } from './api-rate-limiter';
 import { prisma } from './prisma';
 
 export interface RateLimitOptions {
@@ -262,4 +262,33 @@ export function createMaintenanceMiddleware() {
       return await handler();
     }
   };
-}
\ No newline at end of file
+}
+
+// トークン予算超過時のレスポンス（429）
+export function createTokenBudgetExceededResponse(error: TokenBudgetExceededError): NextResponse {
+  const { budget } = error;
+  const retryAfter = Math.max(1, Math.ceil((budget.resetAt.getTime() - Date.now()) / 1000));
+
+  return NextResponse.json(
+    {
+      error: `${budget.scope === 'user' ? 'ユーザー' : 'システム全体'}の${budget.period === 'day' ? '1日' : '1か月'}のトークン予算を使い切りました`,
+      code: 'token_budget_exceeded',
+      budget: {
+        scope: budget.scope,
+        period: budget.period,
+        used: budget.used,
+        limit: budget.limit,
+        resetAt: budget.resetAt.toISOString()
+      },
+      retryAfter
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfter.toString(),
+        'X-TokenBudget-Limit': budget.limit.toString(),
+        'X-TokenBudget-Reset': budget.resetAt.toISOString()
+      }
+    }
+  );
+}
@@ -0,0 +1,285 @@
+// スケジュールの投稿内容ソースの定義と検証
+// クライアント（ScheduleModals）とサーバーの両方から利用するため、サーバー専用の処理は含めない
+
+export type ContentSourceType = 'post' | 'templates' | 'ai_prompt' | 'feed';
+
+export type AITone = 'friendly' | 'casual' | 'professional' | 'humorous';
+
+export type AILength = 'short' | 'medium' | 'long';
+
+export interface PostContentSource {
+  type: 'post';
+  postId: string;
+}
+
+export interface TemplatesContentSource {
+  type: 'templates';
+  templates: string[];
+  order: 'random' | 'sequential';
+}
+
+export interface AIPromptContentSource {
+  type: 'ai_prompt';
+  prompt: string;
+  tone: AITone;
+  length: AILength;
+  templateId?: string; // プロンプトテンプレートのID。未設定なら組み込みのプロンプトを使う
+  splitIntoThread?: boolean; // 生成結果が1投稿の上限を超える場合、文の区切りでスレッド投稿に分割する
+  fallbackContent?: string; // AI生成できない場合（トークン予算超過・生成失敗）の代替投稿。未設定なら予算超過時は投稿を見送る
+}
+
+export interface FeedContentSource {
+  type: 'feed';
+  url: string;
+  format: 'rss' | 'json';
+  // {title} {link} {summary} を置き換える
+  template: string;
+}
+
+export type ScheduleContentSource =
+  | PostContentSource
+  | TemplatesContentSource
+  | AIPromptContentSource
+  | FeedContentSource;
+
+// 実行ごとに引き継ぐ状態（順番に使うテンプレートの位置、投稿済みのフィード項目）
+export interface ScheduleContentState {
+  templateIndex?: number;
+  lastFeedItemId?: string;
+}
+
+export const CONTENT_SOURCE_LABELS: Record<ContentSourceType, string> = {
+  post: '固定の投稿',
+  templates: 'テンプレート',
+  ai_prompt: 'AI生成',
+  feed: 'RSS/JSONフィード'
+};
+
+export const AI_TONE_LABELS: Record<AITone, string> = {
+  friendly: '親しみやすい',
+  casual: 'カジュアル',
+  professional: 'プロフェッショナル',
+  humorous: 'ユーモラス'
+};
+
+export const AI_LENGTH_LABELS: Record<AILength, string> = {
+  short: '短め（50-100文字）',
+  medium: '普通（100-200文字）',
+  long: '長め（200-400文字）'
+};
+
+export const DEFAULT_FEED_TEMPLATE = '{title}\n{link}';
+
+// 新規作成時の各ソースの初期値
+export function createDefaultContentSource(type: ContentSourceType): ScheduleContentSource {
+  switch (type) {
+    case 'post':
+      return { type, postId: '' };
+    case 'templates':
+      return { type, templates: [], order: 'random' };
+    case 'ai_prompt':
+      return { type, prompt: '', tone: 'friendly', length: 'medium' };
+    case 'feed':
+      return { type, url: '', format: 'rss', template: DEFAULT_FEED_TEMPLATE };
+  }
+}
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
+
+// リクエストや保存済みJSONの内容ソースを検証して型付きの値に変換
+export function parseContentSource(input: unknown): { source: ScheduleContentSource | null; error?: string } {
+  if (input === null || input === undefined || input === '') {
+    return { source: null };
+  }
+
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      return { source: null, error: '投稿内容の設定が不正です' };
+    }
+  }
+
+  if (typeof raw !== 'object' || raw === null) {
+    return { source: null, error: '投稿内容の設定が不正です' };
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  switch (value.type) {
+    case 'post':
+      if (typeof value.postId !== 'string' || !value.postId.trim()) {
+        return { source: null, error: '投稿IDを指定してください' };
+      }
+      return { source: { type: 'post', postId: value.postId.trim() } };
+
+    case 'templates': {
+      const templates = Array.isArray(value.templates)
+        ? value.templates.filter((template): template is string => typeof template === 'string' && template.trim() !== '')
+        : [];
+      if (templates.length === 0) {
+        return { source: null, error: 'テンプレートを1件以上入力してください' };
+      }
+      return {
+        source: {
+          type: 'templates',
+          templates: templates.map(template => template.trim()),
+          order: value.order === 'sequential' ? 'sequential' : 'random'
+        }
+      };
+    }
+
+    case 'ai_prompt':
+      if (typeof value.prompt !== 'string' || !value.prompt.trim()) {
+        return { source: null, error: 'AI生成のプロンプトを入力してください' };
+      }
+      return {
+        source: {
+          type: 'ai_prompt',
+          prompt: value.prompt.trim(),
+          tone: isOneOf(value.tone, Object.keys(AI_TONE_LABELS) as AITone[]) ? value.tone : 'friendly',
+          length: isOneOf(value.length, Object.keys(AI_LENGTH_LABELS) as AILength[]) ? value.length : 'medium',
+          ...(typeof value.templateId === 'string' && value.templateId.trim()
+            ? { templateId: value.templateId.trim() }
+            : {}),
+          ...(value.splitIntoThread === true ? { splitIntoThread: true } : {}),
+          ...(typeof value.fallbackContent === 'string' && value.fallbackContent.trim()
+            ? { fallbackContent: value.fallbackContent.trim() }
+            : {})
+        }
+      };
+
+    case 'feed': {
+      if (typeof value.url !== 'string' || !/^https?:\/\//.test(value.url.trim())) {
+        return { source: null, error: 'フィードのURLは http(s):// で始まる必要があります' };
+      }
+      return {
+        source: {
+          type: 'feed',
+          url: value.url.trim(),
+          format: value.format === 'json' ? 'json' : 'rss',
+          template: typeof value.template === 'string' && value.template.trim() ? value.template : DEFAULT_FEED_TEMPLATE
+        }
+      };
+    }
+
+    default:
+      return { source: null, error: '投稿内容の種類が不正です' };
+  }
+}
+
+export function parseContentState(input: string | null | undefined): ScheduleContentState {
+  if (!input) return {};
+
+  try {
+    const parsed = JSON.parse(input);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+}
+
+// フィード項目の要約は投稿文字数に収まるよう短くする
+const FEED_SUMMARY_MAX_LENGTH = 200;
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    // エスケープされたHTMLの説明文も多いため、デコード後のタグも除去する
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readXmlTag(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXmlText(match[1]) : '';
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function toFeedItem(id: string, title: string, link: string, summary: string): FeedItem | null {
+  const itemId = id || link || title;
+  if (!itemId) return null;
+  return { id: itemId, title, link, summary: truncate(summary, FEED_SUMMARY_MAX_LENGTH) };
+}
+
+// RSS 2.0 / Atom の項目を取り出す（フィードに記載された順）
+function parseXmlFeed(body: string): FeedItem[] {
+  const blocks = body.match(/<item[\s>][\s\S]*?<\/item>/gi) || body.match(/<entry[\s>][\s\S]*?<\/entry>/gi) || [];
+
+  return blocks
+    .map(block => {
+      const atomLink = block.match(/<link[^>]*href="([^"]+)"[^>]*\/?>/i);
+      const link = readXmlTag(block, 'link') || (atomLink ? decodeXmlText(atomLink[1]) : '');
+      return toFeedItem(
+        readXmlTag(block, 'guid') || readXmlTag(block, 'id'),
+        readXmlTag(block, 'title'),
+        link,
+        readXmlTag(block, 'description') || readXmlTag(block, 'summary') || readXmlTag(block, 'content')
+      );
+    })
+    .filter((item): item is FeedItem => item !== null);
+}
+
+// JSON Feed（items配列）または項目オブジェクトの配列を取り出す
+function parseJsonFeed(body: string): FeedItem[] {
+  const parsed = JSON.parse(body);
+  const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.items) ? parsed.items : [];
+  const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '');
+
+  return items
+    .map(item => {
+      if (typeof item !== 'object' || item === null) return null;
+      const value = item as Record<string, unknown>;
+      return toFeedItem(
+        text(value.id) || text(value.guid),
+        text(value.title),
+        text(value.url) || text(value.link),
+        decodeXmlText(text(value.summary) || text(value.content_text) || text(value.description))
+      );
+    })
+    .filter((item): item is FeedItem => item !== null);
+}
+
+export function parseFeedItems(body: string, format: FeedContentSource['format']): FeedItem[] {
+  return format === 'json' ? parseJsonFeed(body) : parseXmlFeed(body);
+}
+
+// 前回投稿した項目より新しいもののうち最も古い項目を選ぶ（初回・前回項目が消えた場合は最新のみ）
+export function selectNextFeedItem(items: FeedItem[], lastFeedItemId?: string): FeedItem | null {
+  if (items.length === 0) return null;
+  if (!lastFeedItemId) return items[0];
+
+  const lastIndex = items.findIndex(item => item.id === lastFeedItemId);
+  if (lastIndex === -1) return items[0];
+
+  return lastIndex > 0 ? items[lastIndex - 1] : null;
+}
+
+export function renderFeedTemplate(template: string, item: FeedItem): string {
+  return template
+    .replace(/\{title\}/g, item.title)
+    .replace(/\{link\}/g, item.link)
+    .replace(/\{summary\}/g, item.summary)
+    .trim();
+}
@@ -0,0 +1,59 @@
+// スケジュール実行失敗時の再試行ポリシー
+
+export interface RetryPolicy {
+  maxRetries: number;
+  retryBackoffSeconds: number;
+  retryJitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  retryBackoffSeconds: 60,
+  retryJitter: 0.2
+};
+
+// 再試行間隔の上限（6時間）
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// リクエストから再試行ポリシーを検証して取り出す（未指定の項目は含めない）
+export function parseRetryPolicy(input: Record<string, unknown>): { policy: Partial<RetryPolicy>; error?: string } {
+  const policy: Partial<RetryPolicy> = {};
+
+  if (input.maxRetries !== undefined) {
+    const value = Number(input.maxRetries);
+    if (!Number.isInteger(value) || value < 0 || value > 10) {
+      return { policy, error: '最大再試行回数は0〜10の整数で指定してください' };
+    }
+    policy.maxRetries = value;
+  }
+
+  if (input.retryBackoffSeconds !== undefined) {
+    const value = Number(input.retryBackoffSeconds);
+    if (!Number.isInteger(value) || value < 10 || value > 86400) {
+      return { policy, error: '再試行の基本間隔は10〜86400秒の整数で指定してください' };
+    }
+    policy.retryBackoffSeconds = value;
+  }
+
+  if (input.retryJitter !== undefined) {
+    const value = Number(input.retryJitter);
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      return { policy, error: 'ジッターは0〜1の範囲で指定してください' };
+    }
+    policy.retryJitter = value;
+  }
+
+  return { policy };
+}
+
+// n回目の失敗後の待機時間を計算（基本間隔 × 2^(n-1) に ±ジッター）
+export function calculateRetryDelay(
+  policy: RetryPolicy,
+  failureCount: number,
+  random: () => number = Math.random
+): number {
+  const base = policy.retryBackoffSeconds * 1000 * Math.pow(2, Math.max(failureCount - 1, 0));
+  const jitter = base * policy.retryJitter * (random() * 2 - 1);
+
+  return Math.min(Math.max(Math.round(base + jitter), 0), MAX_RETRY_DELAY_MS);
+}
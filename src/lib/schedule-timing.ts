@@ -0,0 +1,361 @@
+// スケジュールの次回実行日時の計算（cron式・IANAタイムゾーン対応）
+// サーバーのローカル時刻に依存せず、スケジュールごとのタイムゾーンの壁時計時刻で計算する
+//
+// 夏時間の扱い:
+// - 切り替えで存在しない時刻（例: 2:30 が飛ばされる日）は、切り替え後の同じ経過時刻（3:30）に実行
+// - 2回現れる時刻（例: 1:30 が繰り返される日）は、1回目のみ実行
+
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+
+export const SCHEDULE_FREQUENCIES = ['once', 'daily', 'weekly', 'monthly', 'cron'] as const;
+
+export type ScheduleFrequency = typeof SCHEDULE_FREQUENCIES[number];
+
+export interface ScheduleTiming {
+  time: Date | string;
+  frequency: string;
+  cronExpression?: string | null;
+  timezone?: string | null;
+}
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // 日と曜日の両方が指定された場合はどちらかに一致すれば実行（標準のcronと同じ）
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// うるう年の2月29日まで探せるよう、最大8年先まで探索する
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// IANAタイムゾーン名として有効か
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 指定タイムゾーンでの壁時計時刻を取得
+function toWallTime(date: Date, timeZone: string): WallTime & { second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+// 指定時点でのUTCからのオフセット（ミリ秒）
+function getOffsetMs(timestamp: number, timeZone: string): number {
+  const wall = toWallTime(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+// 壁時計時刻をUTCの時刻に変換（夏時間の切り替えは冒頭のルールで解決）
+function wallTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetBefore = getOffsetMs(naive - 24 * 60 * 60 * 1000, timeZone);
+  const offsetAfter = getOffsetMs(naive + 24 * 60 * 60 * 1000, timeZone);
+
+  const matches = [naive - offsetBefore, naive - offsetAfter].filter(candidate => {
+    const actual = toWallTime(new Date(candidate), timeZone);
+    return actual.year === wall.year && actual.month === wall.month && actual.day === wall.day &&
+      actual.hour === wall.hour && actual.minute === wall.minute;
+  });
+
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+
+  // 存在しない時刻は切り替え前のオフセットで換算すると、切り替え後の時刻にずれる
+  return new Date(naive - offsetBefore);
+}
+
+// "YYYY-MM-DDTHH:mm" 形式の壁時計時刻をタイムゾーン付きで解釈
+export function parseWallTime(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return wallTimeToUtc({ year, month, day, hour, minute }, timeZone);
+}
+
+// 日時をタイムゾーンの壁時計時刻 "YYYY-MM-DDTHH:mm" に変換（datetime-local 入力用）
+export function formatWallTime(date: Date | string, timeZone: string): string {
+  const wall = toWallTime(new Date(date), timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+// リクエストの日時を解釈（オフセットなしの文字列はスケジュールのタイムゾーンの時刻とみなす）
+export function parseScheduleTime(value: string | Date, timeZone: string): Date | null {
+  if (value instanceof Date) return value;
+
+  const date = parseWallTime(value, timeZone) || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseCronValue(value: string, names: string[] | null, offset: number): number {
+  const upper = value.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + offset;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseCronField(field: string, min: number, max: number, names: string[] | null = null, nameOffset = 0): { values: number[]; restricted: boolean } {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseCronValue(from, names, nameOffset);
+      end = parseCronValue(to, names, nameOffset);
+    } else {
+      start = parseCronValue(rangePart, names, nameOffset);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values: Array.from(values).sort((a, b) => a - b), restricted: field !== '*' };
+}
+
+// 5フィールドのcron式（分 時 日 月 曜日）を解析
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day-of-month month day-of-week)');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfMonth = parseCronField(dayOfMonth, 1, 31);
+  // 曜日は 0-7（0と7はどちらも日曜日）
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, DAY_NAMES, 0);
+
+  return {
+    minutes: parseCronField(minute, 0, 59).values,
+    hours: parseCronField(hour, 0, 23).values,
+    daysOfMonth: new Set(daysOfMonth.values),
+    months: new Set(parseCronField(month, 1, 12, MONTH_NAMES, 1).values),
+    daysOfWeek: new Set(daysOfWeek.values.map(day => day % 7)),
+    dayOfMonthRestricted: daysOfMonth.restricted,
+    dayOfWeekRestricted: daysOfWeek.restricted
+  };
+}
+
+function matchesDay(cron: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = cron.daysOfMonth.has(dayOfMonth);
+  const dowMatch = cron.daysOfWeek.has(dayOfWeek);
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+// cron式に一致する、after より後の最初の時刻
+export function getNextCronRun(cron: CronSchedule, after: Date, timeZone: string): Date | null {
+  const start = toWallTime(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!cron.months.has(month) || !matchesDay(cron, day, date.getUTCDay())) {
+      continue;
+    }
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = wallTimeToUtc({ year, month, day, hour, minute }, timeZone);
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// 毎月の基準日の時刻のうち、after より後の最初の時刻
+// 基準日がない月（例: 31日に対する4月）は月末日に実行する
+function getNextMonthlyRun(base: Date, after: Date, timeZone: string): Date {
+  const anchor = toWallTime(base, timeZone);
+  const start = toWallTime(after, timeZone);
+
+  // after と同じ月の実行時刻が過ぎていれば、翌月の実行時刻が必ず after より後になる
+  for (let offset = 0; ; offset++) {
+    const firstOfMonth = new Date(Date.UTC(start.year, start.month - 1 + offset, 1));
+    const year = firstOfMonth.getUTCFullYear();
+    const month = firstOfMonth.getUTCMonth() + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+    const candidate = wallTimeToUtc(
+      { year, month, day: Math.min(anchor.day, lastDay), hour: anchor.hour, minute: anchor.minute },
+      timeZone
+    );
+    if (candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+}
+
+// daily・weekly・cron の頻度をcron式に変換（基準時刻のタイムゾーンでの時刻・曜日を使う）
+// monthly は月末の扱いをcron式で表せないため getNextMonthlyRun で計算する
+export function toCronExpression(timing: ScheduleTiming): string | null {
+  const timeZone = timing.timezone || DEFAULT_TIMEZONE;
+  const base = new Date(timing.time);
+  const wall = toWallTime(base, timeZone);
+  const dayOfWeek = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+
+  switch (timing.frequency) {
+    case 'daily':
+      return `${wall.minute} ${wall.hour} * * *`;
+    case 'weekly':
+      return `${wall.minute} ${wall.hour} * * ${dayOfWeek}`;
+    case 'cron':
+      return timing.cronExpression || null;
+    default:
+      return null;
+  }
+}
+
+// 頻度・cron式・タイムゾーンの組み合わせを検証
+export function validateScheduleTiming(timing: Omit<ScheduleTiming, 'time'>): string | null {
+  if (!(SCHEDULE_FREQUENCIES as readonly string[]).includes(timing.frequency)) {
+    return `頻度は ${SCHEDULE_FREQUENCIES.join(', ')} のいずれかを指定してください`;
+  }
+
+  if (timing.timezone && !isValidTimeZone(timing.timezone)) {
+    return `無効なタイムゾーンです: ${timing.timezone}`;
+  }
+
+  if (timing.frequency === 'cron') {
+    if (!timing.cronExpression) {
+      return 'cron式を入力してください';
+    }
+    try {
+      const cron = parseCronExpression(timing.cronExpression);
+      if (!getNextCronRun(cron, new Date(), timing.timezone || DEFAULT_TIMEZONE)) {
+        return 'cron式に一致する実行日時がありません';
+      }
+    } catch (error) {
+      return `無効なcron式です: ${error instanceof Error ? error.message : timing.cronExpression}`;
+    }
+  }
+
+  return null;
+}
+
+// 次回実行日時を計算（基準時刻より前には実行しない。一致する日時がなければ null）
+export function calculateNextRun(timing: ScheduleTiming, after: Date = new Date()): Date | null {
+  const base = new Date(timing.time);
+
+  if (timing.frequency === 'once') {
+    return base;
+  }
+
+  // 基準時刻そのものも候補に含めるため、基準時刻の分の直前から探す
+  const notBefore = new Date(Math.floor(base.getTime() / 60000) * 60000 - 1);
+  const from = after.getTime() > notBefore.getTime() ? after : notBefore;
+
+  if (timing.frequency === 'monthly') {
+    return getNextMonthlyRun(base, from, timing.timezone || DEFAULT_TIMEZONE);
+  }
+
+  const expression = toCronExpression(timing);
+  if (!expression) {
+    return null;
+  }
+
+  return getNextCronRun(parseCronExpression(expression), from, timing.timezone || DEFAULT_TIMEZONE);
+}
+
+// 今後 count 回分の実行日時を取得（プレビュー用）
+export function getUpcomingRuns(timing: ScheduleTiming, count: number, after: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  let next = calculateNextRun(timing, after);
+
+  while (next && runs.length < count) {
+    runs.push(next);
+    if (timing.frequency === 'once') break;
+    next = calculateNextRun(timing, next);
+  }
+
+  return runs;
+}
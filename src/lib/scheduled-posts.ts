@@ -0,0 +1,159 @@
+import { prisma } from './prisma';
+import { JOB_LEASE_MS, jobQueue, JobPayloads } from './job-queue';
+import { describePublishError, publishPostForUser } from './threads-publisher';
+
+// 公開中のまま止まった予約投稿に記録するエラー
+const STALE_PUBLISHING_ERROR = '公開中にワーカーが停止したため、Threads に公開されたか確認できませんでした。Threads を確認してから再公開してください';
+
+export interface ScheduledPostResult {
+  postId: string;
+  success: boolean;
+  threadsPostId?: string;
+  error?: string;
+}
+
+function postPublishDedupeKey(postId: string, scheduledFor: Date): string {
+  return `post_publish:${postId}:${scheduledFor.toISOString()}`;
+}
+
+// 予約日時を過ぎた投稿を公開ジョブとして登録（同じ予約は1回だけ登録される）
+export async function enqueueDueScheduledPosts(now: Date = new Date()): Promise<number> {
+  const duePosts = await prisma.post.findMany({
+    where: {
+      status: 'scheduled',
+      scheduledFor: { lte: now }
+    },
+    select: { id: true, scheduledFor: true },
+    orderBy: { scheduledFor: 'asc' }
+  });
+
+  let enqueued = 0;
+  for (const post of duePosts) {
+    const dedupeKey = postPublishDedupeKey(post.id, post.scheduledFor!);
+
+    // 予約中の投稿に終了済みのジョブが残っているのは、失敗した投稿を同じ日時で予約し直した場合など
+    // 前回のジョブのキーを解放しないと登録できず、公開されないまま残る
+    await jobQueue.releaseDedupeKey(dedupeKey);
+
+    const job = await jobQueue.enqueue(
+      'post_publish',
+      { postId: post.id, scheduledFor: post.scheduledFor!.toISOString() },
+      { priority: 10, dedupeKey }
+    );
+    if (job) enqueued++;
+  }
+
+  return enqueued;
+}
+
+// 公開中のまま止まった予約投稿を failed にする
+// 予約を確保した後にワーカーが停止したりリースを失ったりすると、再試行のジョブは publishing の投稿を飛ばすため、公開も失敗もしないまま残る
+// Threads に公開済みの可能性があるため、二重投稿を避けて自動では公開し直さない
+export async function failStalePublishingPosts(now: Date = new Date()): Promise<number> {
+  const stalePosts = await prisma.post.findMany({
+    where: {
+      status: 'publishing',
+      scheduledFor: { not: null },
+      updatedAt: { lt: new Date(now.getTime() - JOB_LEASE_MS) }
+    },
+    include: { user: { select: { name: true, email: true } } }
+  });
+
+  let failed = 0;
+  for (const post of stalePosts) {
+    // 公開ジョブがまだリースを保っている間は公開中として扱う
+    if (await jobQueue.hasActiveLease(postPublishDedupeKey(post.id, post.scheduledFor!), now)) continue;
+
+    const updated = await prisma.post.updateMany({
+      where: { id: post.id, status: 'publishing', updatedAt: post.updatedAt },
+      data: { status: 'failed', error: STALE_PUBLISHING_ERROR }
+    });
+    if (updated.count === 0) continue;
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'scheduled_post_failed',
+        details: `${post.user.name || post.user.email}: ${post.content.substring(0, 50)}... - stale_publishing: ${STALE_PUBLISHING_ERROR}`
+      }
+    });
+
+    console.error(`❌ Scheduled post ${post.id} was left publishing after its job lost the lease, marked as failed`);
+    failed++;
+  }
+
+  return failed;
+}
+
+// 予約投稿の公開ジョブのハンドラー
+// 公開前にステータスを scheduled → publishing に条件付きで更新して予約を確保するため、
+// 予約日時の変更や取り消し、ジョブの重複取得があっても二重に投稿されることはない
+export async function publishScheduledPost(payload: JobPayloads['post_publish']): Promise<ScheduledPostResult | null> {
+  const claimed = await prisma.post.updateMany({
+    where: {
+      id: payload.postId,
+      status: 'scheduled',
+      scheduledFor: new Date(payload.scheduledFor)
+    },
+    data: { status: 'publishing' }
+  });
+
+  if (claimed.count === 0) {
+    console.log(`⏭️ Scheduled post ${payload.postId} at ${payload.scheduledFor} was changed or already handled, skipping`);
+    return null;
+  }
+
+  const post = await prisma.post.findUnique({
+    where: { id: payload.postId },
+    include: { user: { select: { name: true, email: true } } }
+  });
+
+  if (!post) return null;
+
+  const author = post.user.name || post.user.email;
+
+  try {
+    const outcome = await publishPostForUser(post);
+
+    await prisma.post.update({
+      where: { id: post.id },
+      data: {
+        status: 'published',
+        publishedAt: new Date(),
+        threadsPostId: outcome.threadsPostId,
+        error: null
+      }
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'scheduled_post_published',
+        details: `${author}: ${post.content.substring(0, 50)}... - Threads ID: ${outcome.threadsPostId}`
+      }
+    });
+
+    console.log(`✅ Published scheduled post ${post.id}`);
+    return { postId: post.id, success: true, threadsPostId: outcome.threadsPostId };
+
+  } catch (error) {
+    // 公開に失敗した投稿は再試行せず failed にする（投稿管理から再公開できる。スレッド投稿は続きから公開される）
+    const failure = describePublishError(error);
+
+    await prisma.post.update({
+      where: { id: post.id },
+      data: {
+        status: 'failed',
+        error: failure.message
+      }
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'scheduled_post_failed',
+        details: `${author}: ${post.content.substring(0, 50)}... - ${failure.error}: ${failure.message}`
+      }
+    });
+
+    console.error(`❌ Failed to publish scheduled post ${post.id}:`, failure.message);
+    return { postId: post.id, success: false, error: failure.message };
+  }
+}
@@ -1,7 +1,34 @@
 import { prisma } from './prisma';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+import { Prisma, Schedule } from '@prisma/client';
+import { publishTextForUser, publishThreadForPost, ThreadsPublishOutcome } from './threads-publisher';
+import { joinSegments, splitIntoSegments } from './thread-segments';
+import { createWorkerId, jobQueue, JobPayloads } from './job-queue';
+import { calculateRetryDelay } from './schedule-retry';
+import { calculateNextRun } from './schedule-timing';
+import { recordAIGeneration } from './ai-usage';
+import { buildTemplatePrompt, getActivePromptTemplate } from './ai-prompts';
+import { resolveLLM } from './llm-provider';
+import { apiRateLimiter } from './api-rate-limiter';
+import {
+  AI_LENGTH_LABELS,
+  AI_TONE_LABELS,
+  AIPromptContentSource,
+  FeedContentSource,
+  parseContentSource,
+  parseContentState,
+  parseFeedItems,
+  PostContentSource,
+  renderFeedTemplate,
+  ScheduleContentState,
+  selectNextFeedItem,
+  TemplatesContentSource
+} from './schedule-content';
+
+// フィード取得のタイムアウト
+const FEED_FETCH_TIMEOUT_MS = 15000;
+
+// AI生成に失敗し、代替投稿も設定されていない場合の投稿
+const DEFAULT_AI_FALLBACK_CONTENT = `今日も良い一日を過ごしましょう！✨ 皆さんはどんな一日でしたか？ #日常 #つぶやき #AI`;
 
 export interface ScheduleExecutionResult {
   scheduleId: string;
@@ -10,11 +37,14 @@ export interface ScheduleExecutionResult {
   error?: string;
   postId?: string;
   threadsPostId?: string;
+  retryAt?: string;
+  paused?: boolean;
+  skipped?: boolean;
 }
 
 export class ScheduleExecutor {
   private static instance: ScheduleExecutor;
-  private isRunning: boolean = false;
+  private readonly workerId = createWorkerId();
 
   static getInstance(): ScheduleExecutor {
     if (!ScheduleExecutor.instance) {
@@ -23,65 +53,71 @@ export class ScheduleExecutor {
     return ScheduleExecutor.instance;
   }
 
-  // メイン実行関数
+  // メイン実行関数（期限の来たスケジュールをキューに登録し、その場で処理する）
   async executeSchedules(): Promise<ScheduleExecutionResult[]> {
-    if (this.isRunning) {
-      console.log('Scheduler is already running, skipping...');
-      return [];
-    }
-
-    this.isRunning = true;
-    const results: ScheduleExecutionResult[] = [];
-
-    try {
-      console.log('🔄 Starting schedule execution check...');
+    console.log('🔄 Starting schedule execution check...');
 
-      // 実行すべきスケジュールを取得
-      const dueSchedules = await this.getDueSchedules();
-      console.log(`📅 Found ${dueSchedules.length} schedules due for execution`);
+    const enqueued = await this.enqueueDueSchedules();
+    console.log(`📅 Enqueued ${enqueued} schedules due for execution`);
 
-      // 各スケジュールを実行
-      for (const schedule of dueSchedules) {
+    const results: ScheduleExecutionResult[] = [];
+    await jobQueue.drain(this.workerId, {
+      schedule_execution: async (payload) => {
         try {
-          const result = await this.executeSchedule(schedule);
-          results.push(result);
-          
-          // 実行後にスケジュールを更新
-          await this.updateScheduleAfterExecution(schedule, result.success);
-          
+          const result = await this.runScheduleJob(payload);
+          if (result) results.push(result);
+          return result;
         } catch (error) {
-          console.error(`❌ Error executing schedule ${schedule.id}:`, error);
           results.push({
-            scheduleId: schedule.id,
+            scheduleId: payload.scheduleId,
             success: false,
             message: 'Execution failed',
             error: error instanceof Error ? error.message : 'Unknown error'
           });
+          throw error;
         }
       }
+    });
 
-      console.log(`✅ Schedule execution completed. ${results.length} schedules processed.`);
-      return results;
-
-    } catch (error) {
-      console.error('❌ Critical error in schedule execution:', error);
-      throw error;
-    } finally {
-      this.isRunning = false;
-    }
+    console.log(`✅ Schedule execution completed. ${results.length} schedules processed.`);
+    return results;
   }
 
-  // 実行すべきスケジュールを取得
-  private async getDueSchedules() {
-    const now = new Date();
-    
-    return await prisma.schedule.findMany({
+  // 期限の来たスケジュールを実行ジョブとして登録（同じ実行予定は1回だけ登録される）
+  async enqueueDueSchedules(): Promise<number> {
+    const dueSchedules = await prisma.schedule.findMany({
       where: {
         isActive: true,
         nextRun: {
-          lte: now
+          lte: new Date()
         }
       },
+      select: { id: true, nextRun: true },
+      orderBy: {
+        nextRun: 'asc'
+      }
+    });
+
+    let enqueued = 0;
+    for (const schedule of dueSchedules) {
+      const scheduledFor = schedule.nextRun!.toISOString();
+      const job = await jobQueue.enqueue(
+        'schedule_execution',
+        { scheduleId: schedule.id, scheduledFor },
+        { priority: 10, dedupeKey: `schedule_execution:${schedule.id}:${scheduledFor}` }
+      );
+      if (job) enqueued++;
+    }
+
+    return enqueued;
+  }
+
+  // スケジュール実行ジョブのハンドラー
+  // 実行前に nextRun を条件付きで進めて実行予定を確保するため、
+  // ジョブが再試行・重複取得されても同じ予定が二重に投稿されることはない
+  async runScheduleJob(payload: JobPayloads['schedule_execution']): Promise<ScheduleExecutionResult | null> {
+    const schedule = await prisma.schedule.findUnique({
+      where: { id: payload.scheduleId },
       include: {
         user: {
           select: {
@@ -91,26 +127,131 @@ export class ScheduleExecutor {
             role: true
           }
         }
+      }
+    });
+
+    if (!schedule || !schedule.isActive) {
+      console.log(`⏭️ Schedule ${payload.scheduleId} is no longer active, skipping`);
+      return null;
+    }
+
+    const claimed = await prisma.schedule.updateMany({
+      where: {
+        id: schedule.id,
+        isActive: true,
+        nextRun: new Date(payload.scheduledFor)
       },
-      orderBy: {
-        nextRun: 'asc'
+      data: this.getRunClaimUpdate(schedule)
+    });
+
+    if (claimed.count === 0) {
+      console.log(`⏭️ Schedule ${schedule.id} run at ${payload.scheduledFor} was already handled, skipping`);
+      return null;
+    }
+
+    const result = await this.executeSchedule(schedule);
+    return await this.recordExecutionOutcome(schedule, result);
+  }
+
+  // 実行結果を記録し、失敗時は再試行の予約または自動停止を行う
+  private async recordExecutionOutcome(schedule: Schedule, result: ScheduleExecutionResult): Promise<ScheduleExecutionResult> {
+    if (result.success) {
+      if (schedule.failureCount > 0 || schedule.pausedAt) {
+        await prisma.schedule.update({
+          where: { id: schedule.id },
+          data: { failureCount: 0, pausedAt: null }
+        });
       }
+      return result;
+    }
+
+    const now = new Date();
+    const failureCount = schedule.failureCount + 1;
+    const failureData = {
+      failureCount,
+      totalFailures: { increment: 1 },
+      lastError: result.error || result.message,
+      lastFailedAt: now
+    };
+
+    // 再試行回数が残っている場合はバックオフ後に再実行
+    if (failureCount <= schedule.maxRetries) {
+      const retryAt = new Date(now.getTime() + calculateRetryDelay(schedule, failureCount));
+
+      await prisma.schedule.update({
+        where: { id: schedule.id },
+        data: { ...failureData, isActive: true, nextRun: retryAt }
+      });
+
+      await prisma.adminLog.create({
+        data: {
+          action: 'schedule_retry_scheduled',
+          details: `Schedule retry ${failureCount}/${schedule.maxRetries} scheduled: ${schedule.name} - Retry at: ${retryAt.toISOString()}`
+        }
+      });
+
+      console.log(`🔁 Schedule ${schedule.id} failed (${failureCount}/${schedule.maxRetries}), retrying at ${retryAt.toISOString()}`);
+      return { ...result, retryAt: retryAt.toISOString() };
+    }
+
+    // 再試行回数を使い切った場合は自動停止して通知
+    await prisma.schedule.update({
+      where: { id: schedule.id },
+      data: { ...failureData, isActive: false, pausedAt: now }
     });
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'schedule_auto_paused',
+        details: `Schedule auto-paused after ${failureCount} consecutive failures: ${schedule.name} - ${failureData.lastError}`
+      }
+    });
+
+    await prisma.notification.create({
+      data: {
+        title: 'スケジュール自動停止',
+        message: `「${schedule.name}」が${failureCount}回連続で失敗したため自動停止しました: ${failureData.lastError}`,
+        type: 'error',
+        priority: 'high',
+        category: 'schedule',
+        data: JSON.stringify({
+          scheduleId: schedule.id,
+          failureCount,
+          lastError: failureData.lastError
+        })
+      }
+    });
+
+    console.log(`⏸️ Schedule ${schedule.id} auto-paused after ${failureCount} failures`);
+    return { ...result, paused: true };
   }
 
   // 個別スケジュール実行
-  private async executeSchedule(schedule: any): Promise<ScheduleExecutionResult> {
+  private async executeSchedule(schedule: Schedule): Promise<ScheduleExecutionResult> {
     console.log(`🚀 Executing schedule: ${schedule.name} (${schedule.id})`);
 
     try {
-      // スケジュールの種類に応じて処理を分岐
-      switch (schedule.name) {
-        case '毎日の挨拶投稿':
-          return await this.executeGreetingPost(schedule);
-        
-        case 'AI自動投稿':
-          return await this.executeAIPost(schedule);
-        
+      const { source, error } = parseContentSource(schedule.contentSource);
+      if (error) {
+        throw new Error(`Invalid content source: ${error}`);
+      }
+
+      const state = parseContentState(schedule.contentState);
+
+      // 投稿内容ソースの種類に応じて処理を分岐
+      switch (source?.type) {
+        case 'post':
+          return await this.executeFixedPost(schedule, source);
+
+        case 'templates':
+          return await this.executeTemplatePost(schedule, source, state);
+
+        case 'ai_prompt':
+          return await this.executeAIPost(schedule, source);
+
+        case 'feed':
+          return await this.executeFeedPost(schedule, source, state);
+
         default:
           return await this.executeGenericPost(schedule);
       }
@@ -135,39 +276,93 @@ export class ScheduleExecutor {
     }
   }
 
-  // 挨拶投稿の実行
-  private async executeGreetingPost(schedule: any): Promise<ScheduleExecutionResult> {
-    const greetings = [
-      'おはようございます！今日も素晴らしい一日になりますように✨ #挨拶 #おはよう',
-      '今日も一日お疲れ様でした🌅 新しい一日の始まりです！ #朝活 #新しい日',
-      'Hello! 今日も頑張りましょう💪 良い一日をお過ごしください #motivation #daily',
-      '素敵な朝ですね☀️ 今日も楽しく過ごしましょう！ #morning #positive',
-      '新しい一日の始まり🌱 今日はどんな発見があるでしょうか？ #新しい日 #発見'
-    ];
-
-    const content = greetings[Math.floor(Math.random() * greetings.length)];
-    
-    return await this.createAndPostContent(schedule, content, 'greeting_post');
+  // 既存投稿の内容を投稿
+  private async executeFixedPost(schedule: Schedule, source: PostContentSource): Promise<ScheduleExecutionResult> {
+    const post = await prisma.post.findUnique({
+      where: { id: source.postId },
+      select: { content: true }
+    });
+
+    if (!post) {
+      throw new Error(`Post not found: ${source.postId}`);
+    }
+
+    return await this.createAndPostContent(schedule, post.content, 'fixed_post');
+  }
+
+  // テンプレートからランダムまたは順番に選んで投稿
+  private async executeTemplatePost(
+    schedule: Schedule,
+    source: TemplatesContentSource,
+    state: ScheduleContentState
+  ): Promise<ScheduleExecutionResult> {
+    const index = source.order === 'sequential'
+      ? (state.templateIndex || 0) % source.templates.length
+      : Math.floor(Math.random() * source.templates.length);
+
+    const result = await this.createAndPostContent(schedule, source.templates[index], 'template_post');
+
+    if (source.order === 'sequential') {
+      await this.saveContentState(schedule, { ...state, templateIndex: index + 1 });
+    }
+
+    return result;
   }
 
   // AI投稿の実行
-  private async executeAIPost(schedule: any): Promise<ScheduleExecutionResult> {
+  private async executeAIPost(schedule: Schedule, source: AIPromptContentSource): Promise<ScheduleExecutionResult> {
+    // トークン予算を使い切っている場合はAI生成を行わず、代替投稿を使うか今回の投稿を見送る
+    const budget = await apiRateLimiter.checkTokenBudget(schedule.userId);
+    if (budget.exceeded) {
+      const reason = `Token budget exceeded (${budget.exceeded.scope}/${budget.exceeded.period}): ${budget.exceeded.used}/${budget.exceeded.limit}`;
+
+      if (source.fallbackContent) {
+        await prisma.adminLog.create({
+          data: {
+            action: 'schedule_budget_fallback',
+            details: `Schedule used fallback content: ${schedule.name} - ${reason}`
+          }
+        });
+        return await this.createAndPostContent(schedule, source.fallbackContent, 'budget_fallback_post');
+      }
+
+      await prisma.adminLog.create({
+        data: {
+          action: 'schedule_skipped',
+          details: `Schedule skipped: ${schedule.name} - ${reason}`
+        }
+      });
+
+      console.log(`⏭️ Token budget exceeded, skipping schedule: ${schedule.name}`);
+      return {
+        scheduleId: schedule.id,
+        success: true,
+        skipped: true,
+        message: 'Skipped: token budget exceeded'
+      };
+    }
+
+    let content: string;
+
     try {
-      const topics = [
-        'テクノロジーの最新トレンド',
-        '今日の天気と気分',
-        'おすすめの本やアプリ',
-        '健康とウェルネス',
-        '創造性とインスピレーション'
-      ];
-
-      const topic = topics[Math.floor(Math.random() * topics.length)];
-      
-      // AI生成
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-      const prompt = `以下のトピックについて、親しみやすいトーンで適度な長さ（100-200文字）のThreads投稿を生成してください。
+      // AI生成（プロバイダー・モデルはシステム設定に従う）
+      const llm = await resolveLLM();
+
+      // テンプレートが削除・無効化されている場合は組み込みのプロンプトで生成を続ける
+      const promptTemplate = source.templateId ? await getActivePromptTemplate(source.templateId) : null;
+      if (source.templateId && !promptTemplate) {
+        console.warn(`⚠️ Prompt template not available for schedule ${schedule.name}: ${source.templateId}`);
+      }
+
+      const prompt = promptTemplate
+        ? buildTemplatePrompt(promptTemplate, {
+          topic: source.prompt,
+          tone: AI_TONE_LABELS[source.tone],
+          length: AI_LENGTH_LABELS[source.length]
+        })
+        : `以下の指示に沿って、${AI_TONE_LABELS[source.tone]}トーンで${AI_LENGTH_LABELS[source.length]}のThreads投稿を生成してください。
 
-トピック: ${topic}
+指示: ${source.prompt}
 
 要件:
 - Threadsに適した投稿形式
@@ -178,79 +373,130 @@ export class ScheduleExecutor {
 
 投稿内容のみを出力してください:`;
 
-      const result = await model.generateContent(prompt);
-      const content = result.response.text();
+      const result = await llm.provider.generate({ model: llm.model, prompt });
+      content = result.text;
 
       // AI生成記録を保存
-      await prisma.aIGeneration.create({
-        data: {
-          userId: schedule.userId,
-          prompt: topic,
-          generatedContent: content,
-          model: 'gemini-1.5-flash',
-          tokensUsed: Math.floor(Math.random() * 500) + 100
-        }
+      await recordAIGeneration({
+        userId: schedule.userId,
+        prompt: source.prompt,
+        generatedContent: content,
+        model: llm.modelId,
+        usage: result.usage,
+        promptTemplate
       });
 
-      return await this.createAndPostContent(schedule, content, 'ai_post');
-
     } catch (error) {
       console.error('AI generation failed:', error);
-      // フォールバックとして定型文を使用
-      const fallbackContent = `今日も良い一日を過ごしましょう！✨ 皆さんはどんな一日でしたか？ #日常 #つぶやき #AI`;
-      return await this.createAndPostContent(schedule, fallbackContent, 'fallback_post');
+      // フォールバックとして代替投稿を使用（Threads投稿の失敗はここで握りつぶさない）
+      return await this.createAndPostContent(schedule, source.fallbackContent || DEFAULT_AI_FALLBACK_CONTENT, 'fallback_post');
+    }
+
+    // 長い生成結果は設定に応じて文の区切りで分割し、スレッドとして投稿する
+    const segments = source.splitIntoThread ? splitIntoSegments(content) : [];
+    return await this.createAndPostContent(schedule, content, 'ai_post', segments);
+  }
+
+  // フィードの新しい項目を1件投稿（新しい項目がなければ投稿しない）
+  private async executeFeedPost(
+    schedule: Schedule,
+    source: FeedContentSource,
+    state: ScheduleContentState
+  ): Promise<ScheduleExecutionResult> {
+    const response = await fetch(source.url, {
+      headers: { Accept: source.format === 'json' ? 'application/json' : 'application/rss+xml, application/atom+xml, text/xml' },
+      signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feed request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const item = selectNextFeedItem(parseFeedItems(await response.text(), source.format), state.lastFeedItemId);
+
+    if (!item) {
+      console.log(`⏭️ No new feed items for schedule: ${schedule.name}`);
+      return {
+        scheduleId: schedule.id,
+        success: true,
+        message: 'No new feed items'
+      };
     }
+
+    const result = await this.createAndPostContent(schedule, renderFeedTemplate(source.template, item), 'feed_post');
+    await this.saveContentState(schedule, { ...state, lastFeedItemId: item.id });
+
+    return result;
   }
 
-  // 汎用投稿の実行
-  private async executeGenericPost(schedule: any): Promise<ScheduleExecutionResult> {
+  // 汎用投稿の実行（投稿内容ソースが未設定の場合）
+  private async executeGenericPost(schedule: Schedule): Promise<ScheduleExecutionResult> {
     const content = `定期投稿: ${schedule.name} 📅 ${new Date().toLocaleString('ja-JP')} #定期投稿 #自動化`;
     return await this.createAndPostContent(schedule, content, 'generic_post');
   }
 
+  // 次回以降の実行に引き継ぐ状態を保存
+  private async saveContentState(schedule: Schedule, state: ScheduleContentState) {
+    await prisma.schedule.update({
+      where: { id: schedule.id },
+      data: { contentState: JSON.stringify(state) }
+    });
+  }
+
   // 投稿作成とThreads投稿
+  // segments が2件以上ある場合はスレッド投稿として公開する（途中で失敗した場合は投稿管理から続きを公開できる）
   private async createAndPostContent(
-    schedule: any, 
+    schedule: Schedule,
     content: string, 
-    type: string
+    type: string,
+    segments: string[] = []
   ): Promise<ScheduleExecutionResult> {
     try {
+      const isThread = segments.length >= 2;
+
       // データベースに投稿を作成
       const post = await prisma.post.create({
         data: {
           userId: schedule.userId,
-          content,
+          content: isThread ? joinSegments(segments) : content,
           status: 'published',
-          publishedAt: new Date()
+          publishedAt: new Date(),
+          ...(isThread && {
+            segments: {
+              create: segments.map((segment, position) => ({ position, content: segment }))
+            }
+          })
         }
       });
 
-      // Threads APIに投稿（デモモード）
-      const threadsAccessToken = process.env.THREADS_ACCESS_TOKEN;
-      let threadsPostId = null;
+      // 投稿者の連携済みThreadsアカウントで投稿
+      let outcome: ThreadsPublishOutcome;
+
+      try {
+        outcome = isThread
+          ? await publishThreadForPost(post)
+          : await publishTextForUser(schedule.userId, content, { postId: post.id });
+      } catch (threadsError) {
+        const message = threadsError instanceof Error ? threadsError.message : 'Unknown error';
+
+        await prisma.post.update({
+          where: { id: post.id },
+          data: {
+            status: 'failed',
+            publishedAt: null,
+            error: message
+          }
+        });
 
-      if (threadsAccessToken) {
-        // 実際のThreads API呼び出し（実装済みのロジックを使用）
-        try {
-          // 実際のAPI呼び出し処理
-          threadsPostId = 'actual_' + Date.now();
-        } catch (threadsError) {
-          console.warn('Threads API call failed, using demo mode');
-          threadsPostId = 'demo_' + Date.now();
-        }
-      } else {
-        // デモモード
-        threadsPostId = 'demo_' + Date.now();
+        throw threadsError;
       }
 
-      // 投稿にThreads IDを更新
+      const threadsPostId = outcome.threadsPostId;
+
+      // 閲覧数・エンゲージメントはインサイト同期ジョブで取得する
       await prisma.post.update({
         where: { id: post.id },
-        data: {
-          threadsPostId,
-          views: Math.floor(Math.random() * 50),
-          engagements: Math.floor(Math.random() * 10)
-        }
+        data: { threadsPostId }
       });
 
       // 成功ログを記録
@@ -277,65 +523,35 @@ export class ScheduleExecutor {
     }
   }
 
-  // スケジュール実行後の更新
-  private async updateScheduleAfterExecution(schedule: any, success: boolean) {
-    const updateData: any = {
+  // 実行予定を確保する際の更新内容（実行回数と次回実行日時）
+  private getRunClaimUpdate(schedule: Schedule): Prisma.ScheduleUpdateInput {
+    const updateData: Prisma.ScheduleUpdateInput = {
       lastRun: new Date(),
-      runCount: schedule.runCount + 1
+      runCount: { increment: 1 }
     };
 
-    // 次回実行日時を計算
-    if (success && schedule.frequency !== 'once') {
-      updateData.nextRun = this.calculateNextRun(schedule.time, schedule.frequency);
-    } else if (schedule.frequency === 'once') {
-      // 一度のみの場合は無効化
-      updateData.isActive = false;
-    }
-
-    await prisma.schedule.update({
-      where: { id: schedule.id },
-      data: updateData
-    });
-
-    console.log(`📊 Updated schedule ${schedule.id}: next run = ${updateData.nextRun?.toISOString()}`);
-  }
-
-  // 次回実行日時を計算
-  private calculateNextRun(baseTime: Date, frequency: string): Date {
-    const now = new Date();
-    const next = new Date(baseTime);
+    const nextRun = schedule.frequency === 'once' ? null : calculateNextRun(schedule, new Date());
 
-    switch (frequency) {
-      case 'daily':
-        while (next <= now) {
-          next.setDate(next.getDate() + 1);
-        }
-        break;
-      
-      case 'weekly':
-        while (next <= now) {
-          next.setDate(next.getDate() + 7);
-        }
-        break;
-      
-      case 'monthly':
-        while (next <= now) {
-          next.setMonth(next.getMonth() + 1);
-        }
-        break;
-      
-      default:
-        // once の場合はそのまま返す
-        break;
+    if (nextRun) {
+      updateData.nextRun = nextRun;
+    } else {
+      // 一度のみ、または以降の実行日時がない場合は無効化
+      updateData.isActive = false;
     }
 
-    return next;
+    return updateData;
   }
 
   // スケジューラーの状態を取得
-  getStatus() {
+  async getStatus() {
+    const stats = await jobQueue.getStats();
+    const jobs = stats.schedule_execution || {};
+
     return {
-      isRunning: this.isRunning,
+      isRunning: (jobs.running || 0) > 0,
+      pendingJobs: jobs.pending || 0,
+      runningJobs: jobs.running || 0,
+      deadJobs: jobs.dead || 0,
       lastCheck: new Date().toISOString()
     };
   }
@@ -0,0 +1,231 @@
+import { randomBytes } from 'crypto';
+import net from 'net';
+import { hostname } from 'os';
+import tls from 'tls';
+
+// アラートメール送信用の最小限の SMTP クライアント
+// テキストメールの送信のみ対応（STARTTLS・SMTPS、AUTH PLAIN）
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // true: 接続時から TLS（SMTPS、通常は465番）、false: サーバーが対応していれば STARTTLS
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+const DEFAULT_SMTP_TIMEOUT_MS = 15000;
+
+// SMTP の接続・応答エラー（4xx や接続失敗は一時的なエラーとして再試行できる）
+export class SmtpError extends Error {
+  readonly code?: number;
+  readonly transient: boolean;
+
+  constructor(message: string, options: { code?: number; transient?: boolean } = {}) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = options.code;
+    this.transient = options.transient ?? (options.code === undefined || (options.code >= 400 && options.code < 500));
+  }
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+// 応答を1行ずつ読み取る接続（STARTTLS 後は TLS のソケットに差し替える）
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (line: string) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => {
+      socket.destroy(new SmtpError(`SMTP connection timed out after ${this.timeoutMs}ms`));
+    });
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    socket.on('error', (error) => this.fail(error instanceof SmtpError ? error : new SmtpError(error.message)));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private flush() {
+    if (this.waiting && this.lines.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.lines.shift()!);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private readLine(): Promise<string> {
+    if (this.lines.length > 0) return Promise.resolve(this.lines.shift()!);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // 複数行の応答（250-... / 250 ...）をまとめて読み取る
+  async read(): Promise<SmtpResponse> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.readLine();
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10), lines };
+      }
+    }
+  }
+
+  async command(line: string, expected: number[], label: string = line.split(' ')[0]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpResponse> {
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new SmtpError(`SMTP ${label} failed: ${response.code} ${response.lines.join(' ')}`, { code: response.code });
+    }
+    return response;
+  }
+
+  async upgradeToTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secured = tls.connect({ socket: plain, servername: host }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+    this.attach(this.socket);
+  }
+
+  get isSecure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  close() {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+
+    socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError(`SMTP connection to ${config.host}:${config.port} timed out`)));
+    socket.once('error', (error) => reject(error instanceof SmtpError ? error : new SmtpError(error.message)));
+  });
+}
+
+// 「名前 <address>」形式からアドレスを取り出す
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// 本文は base64 で送るため、行頭のドットのエスケープは不要
+function buildMessage(message: MailMessage): string {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+// メールを1通送信
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) {
+    throw new SmtpError('No recipients', { transient: false });
+  }
+
+  const timeoutMs = config.timeoutMs || DEFAULT_SMTP_TIMEOUT_MS;
+  const connection = new SmtpConnection(await connect(config, timeoutMs), timeoutMs);
+  const clientName = hostname() || 'localhost';
+
+  try {
+    await connection.expect([220], 'greeting');
+    const ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+
+    if (!config.secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgradeToTls(config.host);
+      await connection.command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (config.user) {
+      // 暗号化されていない接続では認証情報を送らない
+      if (!connection.isSecure) {
+        throw new SmtpError(`SMTP server ${config.host} does not support TLS; refusing to send credentials`, { transient: false });
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+
+    await connection.command('DATA', [354]);
+    await connection.command(`${buildMessage(message)}\r\n.`, [250], 'message');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,99 @@
+// スレッド投稿（返信チェーン）のセグメントの分割・入力チェック
+// クライアント（投稿フォーム）とサーバー（API・スケジューラー）の両方から利用するため、サーバー専用の処理は含めない
+import { countGraphemes, THREADS_MAX_GRAPHEMES } from './content-rules';
+
+// 1つのスレッドに含められるセグメント数の上限
+export const MAX_THREAD_SEGMENTS = 10;
+
+// 投稿一覧・検索用に Post.content へ保存する際のセグメントの区切り
+export const THREAD_SEGMENT_SEPARATOR = '\n\n';
+
+// 文の終わり（句点・感嘆符・疑問符と続く閉じ括弧、空白が続くピリオド、改行）
+const SENTENCE_END_PATTERN = /[。！？!?]+[」』）)"'”’]*[ \t]*|\.(?:[ \t]+|$)|\n+/g;
+
+function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), part => part.segment);
+  }
+  return Array.from(text);
+}
+
+// 文単位に分ける（区切りの記号・空白は直前の文に含める）
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (end > start) {
+      sentences.push(text.slice(start, end));
+      start = end;
+    }
+  }
+
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+
+  return sentences;
+}
+
+// 長い文章を文の区切りで上限の文字数以内のセグメントに分割
+// 1文だけで上限を超える場合はその文を文字数で区切る
+export function splitIntoSegments(text: string, maxGraphemes: number = THREADS_MAX_GRAPHEMES): string[] {
+  const segments: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) segments.push(current.trim());
+    current = '';
+  };
+
+  for (const sentence of splitSentences(text.trim())) {
+    if (countGraphemes((current + sentence).trim()) <= maxGraphemes) {
+      current += sentence;
+      continue;
+    }
+
+    flush();
+
+    if (countGraphemes(sentence.trim()) <= maxGraphemes) {
+      current = sentence;
+      continue;
+    }
+
+    const graphemes = splitGraphemes(sentence.trim());
+    for (let i = 0; i < graphemes.length; i += maxGraphemes) {
+      current = graphemes.slice(i, i + maxGraphemes).join('');
+      if (i + maxGraphemes < graphemes.length) flush();
+    }
+  }
+
+  flush();
+  return segments;
+}
+
+// セグメントをつなげた本文（一覧・検索用）
+export function joinSegments(segments: string[]): string {
+  return segments.join(THREAD_SEGMENT_SEPARATOR);
+}
+
+// API に渡されたセグメントの一覧をチェック
+// 空のセグメントは取り除き、2件未満なら単独の投稿として segments: null を返す
+export function parseThreadSegments(value: unknown): { segments: string[] | null; error?: string } {
+  if (value === undefined || value === null) {
+    return { segments: null };
+  }
+
+  if (!Array.isArray(value) || value.some(segment => typeof segment !== 'string')) {
+    return { segments: null, error: 'スレッドの投稿は文字列の配列で指定してください' };
+  }
+
+  const segments = (value as string[]).map(segment => segment.trim()).filter(Boolean);
+
+  if (segments.length > MAX_THREAD_SEGMENTS) {
+    return { segments: null, error: `スレッドに含められる投稿は${MAX_THREAD_SEGMENTS}件までです` };
+  }
+
+  return { segments: segments.length >= 2 ? segments : null };
+}
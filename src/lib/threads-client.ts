@@ -0,0 +1,319 @@
+// Threads Graph API クライアント
+// コンテナ作成 → ステータス待機 → 公開 の2段階フローを共通化する
+
+export const DEFAULT_THREADS_API_URL = 'https://graph.threads.net/v1.0';
+
+// THREADS_API_BASE_URL でローカルのモックサーバーに向けられる
+export function getThreadsApiBaseUrl(): string {
+  return (process.env.THREADS_API_BASE_URL || DEFAULT_THREADS_API_URL).replace(/\/$/, '');
+}
+
+export type ThreadsErrorKind =
+  | 'auth'
+  | 'permission'
+  | 'rate_limit'
+  | 'invalid_request'
+  | 'container_failed'
+  | 'timeout'
+  | 'server'
+  | 'network';
+
+export type ThreadsMediaType = 'TEXT' | 'IMAGE' | 'VIDEO' | 'CAROUSEL';
+
+export type ThreadsContainerStatus = 'IN_PROGRESS' | 'FINISHED' | 'ERROR' | 'EXPIRED' | 'PUBLISHED';
+
+export interface ThreadsContainerParams {
+  mediaType: ThreadsMediaType;
+  text?: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  children?: string[];
+  isCarouselItem?: boolean;
+  replyToId?: string;
+}
+
+export interface ThreadsMediaItem {
+  mediaType: 'IMAGE' | 'VIDEO';
+  url: string; // Threads のサーバーから取得できる公開URL
+}
+
+export interface ThreadsClientOptions {
+  accessToken: string;
+  userId?: string;
+  baseUrl?: string;
+  pollIntervalMs?: number;
+  pollTimeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export interface ThreadsPublishResult {
+  containerId: string;
+  threadsPostId: string;
+}
+
+export const THREADS_INSIGHT_METRICS = ['views', 'likes', 'replies', 'reposts', 'quotes'] as const;
+
+export type ThreadsInsightMetric = typeof THREADS_INSIGHT_METRICS[number];
+
+export type ThreadsPostInsights = Record<ThreadsInsightMetric, number>;
+
+interface InsightsResponse {
+  data?: {
+    name?: string;
+    values?: { value?: number }[];
+    total_value?: { value?: number };
+  }[];
+}
+
+// Graph APIのエラーを種類別に扱うためのエラークラス
+export class ThreadsApiError extends Error {
+  readonly kind: ThreadsErrorKind;
+  readonly status?: number;
+  readonly code?: number;
+  readonly subcode?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    kind: ThreadsErrorKind,
+    details: { status?: number; code?: number; subcode?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ThreadsApiError';
+    this.kind = kind;
+    this.status = details.status;
+    this.code = details.code;
+    this.subcode = details.subcode;
+    this.retryable = kind === 'rate_limit' || kind === 'server' || kind === 'network' || kind === 'timeout';
+  }
+}
+
+interface GraphErrorBody {
+  error?: {
+    message?: string;
+    error_user_msg?: string;
+    code?: number;
+    error_subcode?: number;
+  };
+}
+
+// HTTPステータスとGraph APIのエラーコードからエラー種別を判定
+export function mapThreadsError(status: number, body: GraphErrorBody | null): ThreadsApiError {
+  const error = body?.error || {};
+  const code: number | undefined = typeof error.code === 'number' ? error.code : undefined;
+  const subcode: number | undefined = typeof error.error_subcode === 'number' ? error.error_subcode : undefined;
+  const message: string = error.error_user_msg || error.message || `HTTP ${status}`;
+
+  let kind: ThreadsErrorKind;
+  if (code === 190 || status === 401) {
+    kind = 'auth';
+  } else if (code === 4 || code === 17 || code === 32 || code === 613 || status === 429) {
+    kind = 'rate_limit';
+  } else if (code === 10 || code === 200 || status === 403) {
+    kind = 'permission';
+  } else if (status >= 500 || code === 1 || code === 2) {
+    kind = 'server';
+  } else {
+    kind = 'invalid_request';
+  }
+
+  return new ThreadsApiError(`Threads API Error: ${message}`, kind, { status, code, subcode });
+}
+
+function toMediaContainerParams(item: ThreadsMediaItem): ThreadsContainerParams {
+  return item.mediaType === 'IMAGE'
+    ? { mediaType: 'IMAGE', imageUrl: item.url }
+    : { mediaType: 'VIDEO', videoUrl: item.url };
+}
+
+export class ThreadsClient {
+  private readonly accessToken: string;
+  private readonly userId: string;
+  private readonly baseUrl: string;
+  private readonly pollIntervalMs: number;
+  private readonly pollTimeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: ThreadsClientOptions) {
+    this.accessToken = options.accessToken;
+    this.userId = options.userId || 'me';
+    this.baseUrl = (options.baseUrl || getThreadsApiBaseUrl()).replace(/\/$/, '');
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.pollTimeoutMs = options.pollTimeoutMs ?? 60000;
+    this.fetchImpl = options.fetchImpl || fetch;
+  }
+
+  // メディアコンテナを作成
+  async createContainer(params: ThreadsContainerParams): Promise<string> {
+    const body: Record<string, unknown> = { media_type: params.mediaType };
+
+    if (params.text) body.text = params.text;
+    if (params.imageUrl) body.image_url = params.imageUrl;
+    if (params.videoUrl) body.video_url = params.videoUrl;
+    if (params.children?.length) body.children = params.children.join(',');
+    if (params.isCarouselItem) body.is_carousel_item = true;
+    if (params.replyToId) body.reply_to_id = params.replyToId;
+
+    const data = await this.request<{ id?: string }>('POST', `/${this.userId}/threads`, body);
+
+    if (!data?.id) {
+      throw new ThreadsApiError('Threads API Error: container id missing in response', 'server');
+    }
+
+    return data.id;
+  }
+
+  // コンテナのステータスを取得
+  async getContainerStatus(containerId: string): Promise<{ status: ThreadsContainerStatus; errorMessage?: string }> {
+    const data = await this.request<{ status?: ThreadsContainerStatus; error_message?: string }>(
+      'GET',
+      `/${containerId}?fields=status,error_message`
+    );
+
+    return {
+      status: data?.status || 'IN_PROGRESS',
+      errorMessage: data?.error_message
+    };
+  }
+
+  // コンテナが FINISHED になるまで待機
+  async waitForContainer(containerId: string): Promise<void> {
+    const deadline = Date.now() + this.pollTimeoutMs;
+
+    while (true) {
+      const { status, errorMessage } = await this.getContainerStatus(containerId);
+
+      if (status === 'FINISHED' || status === 'PUBLISHED') {
+        return;
+      }
+
+      if (status === 'ERROR' || status === 'EXPIRED') {
+        throw new ThreadsApiError(
+          `Threads container ${status.toLowerCase()}: ${errorMessage || containerId}`,
+          'container_failed'
+        );
+      }
+
+      if (Date.now() + this.pollIntervalMs > deadline) {
+        throw new ThreadsApiError(`Threads container was not ready within ${this.pollTimeoutMs}ms`, 'timeout');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  // コンテナを公開
+  async publishContainer(containerId: string): Promise<string> {
+    const data = await this.request<{ id?: string }>('POST', `/${this.userId}/threads_publish`, {
+      creation_id: containerId
+    });
+
+    if (!data?.id) {
+      throw new ThreadsApiError('Threads Publish Error: post id missing in response', 'server');
+    }
+
+    return data.id;
+  }
+
+  // コンテナ作成から公開までを一括実行
+  async publish(params: ThreadsContainerParams): Promise<ThreadsPublishResult> {
+    const containerId = await this.createContainer(params);
+    await this.waitForContainer(containerId);
+    const threadsPostId = await this.publishContainer(containerId);
+
+    return { containerId, threadsPostId };
+  }
+
+  // テキスト投稿（replyToId を指定すると、その投稿への返信として公開する）
+  async publishText(text: string, options: { replyToId?: string } = {}): Promise<ThreadsPublishResult> {
+    return this.publish({ mediaType: 'TEXT', text, replyToId: options.replyToId });
+  }
+
+  // 画像・動画を添付して投稿（1件なら IMAGE / VIDEO、2件以上ならカルーセル）
+  // カルーセルは各メディアのコンテナがすべて FINISHED になってからまとめて公開する
+  async publishWithMedia(
+    text: string,
+    media: ThreadsMediaItem[],
+    options: { replyToId?: string } = {}
+  ): Promise<ThreadsPublishResult> {
+    if (media.length === 0) {
+      return this.publishText(text, options);
+    }
+
+    if (media.length === 1) {
+      return this.publish({ ...toMediaContainerParams(media[0]), text, replyToId: options.replyToId });
+    }
+
+    const children: string[] = [];
+    for (const item of media) {
+      children.push(await this.createContainer({ ...toMediaContainerParams(item), isCarouselItem: true }));
+    }
+    for (const childId of children) {
+      await this.waitForContainer(childId);
+    }
+
+    return this.publish({ mediaType: 'CAROUSEL', children, text, replyToId: options.replyToId });
+  }
+
+  // 投稿のインサイト（表示回数・いいね・返信・再投稿・引用）を取得
+  async getPostInsights(threadsPostId: string): Promise<ThreadsPostInsights> {
+    const data = await this.request<InsightsResponse>(
+      'GET',
+      `/${threadsPostId}/insights?metric=${THREADS_INSIGHT_METRICS.join(',')}`
+    );
+
+    return parseInsightsResponse(data);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<T | null> {
+    return threadsGraphRequest<T>(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.accessToken}`
+      },
+      body: body ? JSON.stringify(body) : undefined
+    }, this.fetchImpl);
+  }
+}
+
+// インサイトのレスポンスを指標ごとの値に変換（値が返らなかった指標は0）
+export function parseInsightsResponse(data: InsightsResponse | null): ThreadsPostInsights {
+  const insights: ThreadsPostInsights = { views: 0, likes: 0, replies: 0, reposts: 0, quotes: 0 };
+
+  for (const entry of data?.data || []) {
+    const metric = THREADS_INSIGHT_METRICS.find(name => name === entry.name);
+    if (!metric) continue;
+
+    const value = entry.total_value?.value ?? entry.values?.[0]?.value;
+    insights[metric] = typeof value === 'number' && Number.isFinite(value) ? value : 0;
+  }
+
+  return insights;
+}
+
+// Graph APIへのリクエストを送信し、失敗時は ThreadsApiError に変換
+export async function threadsGraphRequest<T>(
+  url: string,
+  init: RequestInit,
+  fetchImpl: typeof fetch = fetch
+): Promise<T | null> {
+  let response: Response;
+
+  try {
+    response = await fetchImpl(url, init);
+  } catch (error) {
+    throw new ThreadsApiError(
+      `Threads API network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'network'
+    );
+  }
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw mapThreadsError(response.status, data);
+  }
+
+  return data as T | null;
+}
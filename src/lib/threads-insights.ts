@@ -0,0 +1,48 @@
+import { prisma } from './prisma';
+import { ThreadsPostInsights } from './threads-client';
+import { getThreadsClientForUser } from './threads-publisher';
+
+export type InsightsSource = 'threads' | 'demo';
+
+// インサイトの取得元（ThreadsClient が実装し、テストやローカル環境ではモックに差し替える）
+export interface ThreadsInsightsClient {
+  getPostInsights(threadsPostId: string): Promise<ThreadsPostInsights>;
+}
+
+// 投稿者ごとのインサイト取得クライアントを返す
+export type InsightsClientFactory = (userId: string) => Promise<ThreadsInsightsClient>;
+
+// 投稿者の連携済みThreadsアカウントのクライアントを使う
+export const getInsightsClientForUser: InsightsClientFactory = async (userId) => {
+  const { client } = await getThreadsClientForUser(userId);
+  return client;
+};
+
+// いいね・返信・再投稿・引用の合計をエンゲージメント数とする
+export function totalEngagements(insights: ThreadsPostInsights): number {
+  return insights.likes + insights.replies + insights.reposts + insights.quotes;
+}
+
+// デモ投稿（demo_）用のクライアント
+// Threads上に実体がないため、前回のスナップショットから少しずつ増える値をシミュレーションする
+export class DemoInsightsClient implements ThreadsInsightsClient {
+  constructor(private readonly random: () => number = Math.random) {}
+
+  async getPostInsights(threadsPostId: string): Promise<ThreadsPostInsights> {
+    const latest = await prisma.engagementSnapshot.findFirst({
+      where: { post: { threadsPostId } },
+      orderBy: { capturedAt: 'desc' }
+    });
+
+    const grow = (value: number | undefined, maxIncrease: number) =>
+      (value || 0) + Math.floor(this.random() * (maxIncrease + 1));
+
+    return {
+      views: grow(latest?.views, 20),
+      likes: grow(latest?.likes, 4),
+      replies: grow(latest?.replies, 2),
+      reposts: grow(latest?.reposts, 1),
+      quotes: grow(latest?.quotes, 1)
+    };
+  }
+}
@@ -0,0 +1,255 @@
+import { prisma } from './prisma';
+import { getThreadsApiBaseUrl, threadsGraphRequest, ThreadsApiError } from './threads-client';
+import { decryptToken, encryptToken } from './token-crypto';
+
+const DEFAULT_AUTHORIZE_URL = 'https://threads.net/oauth/authorize';
+const DEFAULT_SCOPES = ['threads_basic', 'threads_content_publish', 'threads_manage_insights'];
+
+// 認可開始時に発行したstateを保持するCookie
+export const OAUTH_STATE_COOKIE = 'threads_oauth_state';
+export const OAUTH_STATE_COOKIE_PATH = '/api/admin/threads/oauth'; // 認可開始とコールバックのルートにのみ送る
+
+// 期限切れの何日前から長期トークンを更新するか
+const REFRESH_BEFORE_DAYS = 7;
+
+// 長期トークンは発行から24時間経過しないと更新できない
+const MIN_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface ThreadsOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authorizeUrl: string;
+  scopes: string[];
+}
+
+export interface ThreadsTokenResult {
+  accessToken: string;
+  expiresAt: Date | null;
+}
+
+export interface ThreadsProfile {
+  id: string;
+  username: string;
+  profilePictureUrl?: string;
+}
+
+export interface TokenRefreshResult {
+  accountId: string;
+  userId: string;
+  success: boolean;
+  error?: string;
+}
+
+// OAuth設定を環境変数から取得
+export function getThreadsOAuthConfig(): ThreadsOAuthConfig {
+  const clientId = process.env.THREADS_APP_ID;
+  const clientSecret = process.env.THREADS_APP_SECRET;
+  const redirectUri = process.env.THREADS_REDIRECT_URI;
+
+  if (!clientId || !clientSecret || !redirectUri) {
+    throw new Error('THREADS_APP_ID, THREADS_APP_SECRET and THREADS_REDIRECT_URI must be set');
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    redirectUri,
+    authorizeUrl: process.env.THREADS_OAUTH_AUTHORIZE_URL || DEFAULT_AUTHORIZE_URL,
+    scopes: process.env.THREADS_OAUTH_SCOPES?.split(',').map(scope => scope.trim()) || DEFAULT_SCOPES
+  };
+}
+
+// 認可画面のURLを生成
+export function buildAuthorizeUrl(config: ThreadsOAuthConfig, state: string): string {
+  const url = new URL(config.authorizeUrl);
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', config.scopes.join(','));
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('state', state);
+  return url.toString();
+}
+
+// 認可コードを短期トークンに交換
+export async function exchangeCodeForToken(
+  config: ThreadsOAuthConfig,
+  code: string
+): Promise<{ accessToken: string; threadsUserId: string }> {
+  const body = new URLSearchParams({
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+    grant_type: 'authorization_code',
+    redirect_uri: config.redirectUri,
+    code
+  });
+
+  const data = await threadsGraphRequest<{ access_token?: string; user_id?: string | number }>(
+    `${getThreadsApiBaseUrl()}/oauth/access_token`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString()
+    }
+  );
+
+  if (!data?.access_token || !data.user_id) {
+    throw new ThreadsApiError('Threads OAuth Error: access token missing in response', 'server');
+  }
+
+  return { accessToken: data.access_token, threadsUserId: String(data.user_id) };
+}
+
+// 短期トークンを長期トークン（60日間有効）に交換
+export async function exchangeForLongLivedToken(
+  config: ThreadsOAuthConfig,
+  shortLivedToken: string
+): Promise<ThreadsTokenResult> {
+  const url = new URL(`${getThreadsApiBaseUrl()}/access_token`);
+  url.searchParams.set('grant_type', 'th_exchange_token');
+  url.searchParams.set('client_secret', config.clientSecret);
+  url.searchParams.set('access_token', shortLivedToken);
+
+  return toTokenResult(
+    await threadsGraphRequest<{ access_token?: string; expires_in?: number }>(url.toString(), { method: 'GET' })
+  );
+}
+
+// 長期トークンを更新
+export async function refreshLongLivedToken(accessToken: string): Promise<ThreadsTokenResult> {
+  const url = new URL(`${getThreadsApiBaseUrl()}/refresh_access_token`);
+  url.searchParams.set('grant_type', 'th_refresh_token');
+  url.searchParams.set('access_token', accessToken);
+
+  return toTokenResult(
+    await threadsGraphRequest<{ access_token?: string; expires_in?: number }>(url.toString(), { method: 'GET' })
+  );
+}
+
+// トークンの持ち主のプロフィールを取得
+export async function fetchThreadsProfile(accessToken: string): Promise<ThreadsProfile> {
+  const data = await threadsGraphRequest<{ id?: string; username?: string; threads_profile_picture_url?: string }>(
+    `${getThreadsApiBaseUrl()}/me?fields=id,username,threads_profile_picture_url`,
+    {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    }
+  );
+
+  if (!data?.id || !data.username) {
+    throw new ThreadsApiError('Threads API Error: profile missing in response', 'server');
+  }
+
+  return {
+    id: data.id,
+    username: data.username,
+    profilePictureUrl: data.threads_profile_picture_url
+  };
+}
+
+function toTokenResult(data: { access_token?: string; expires_in?: number } | null): ThreadsTokenResult {
+  if (!data?.access_token) {
+    throw new ThreadsApiError('Threads OAuth Error: access token missing in response', 'server');
+  }
+
+  return {
+    accessToken: data.access_token,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null
+  };
+}
+
+// 期限が近い長期トークンを更新し、失敗した場合は通知を作成
+export async function refreshExpiringThreadsTokens(now: Date = new Date()): Promise<TokenRefreshResult[]> {
+  const refreshBefore = new Date(now.getTime() + REFRESH_BEFORE_DAYS * 24 * 60 * 60 * 1000);
+
+  const accounts = await prisma.threadsAccount.findMany({
+    where: {
+      isActive: true,
+      tokenExpiresAt: { lte: refreshBefore }
+    }
+  });
+
+  const results: TokenRefreshResult[] = [];
+
+  for (const account of accounts) {
+    const issuedAt = account.lastRefreshedAt || account.createdAt;
+    if (now.getTime() - issuedAt.getTime() < MIN_TOKEN_AGE_MS) {
+      continue;
+    }
+
+    try {
+      const token = await refreshLongLivedToken(decryptToken(account.accessToken));
+
+      await prisma.threadsAccount.update({
+        where: { id: account.id },
+        data: {
+          accessToken: encryptToken(token.accessToken),
+          tokenExpiresAt: token.expiresAt,
+          lastRefreshedAt: now
+        }
+      });
+
+      results.push({ accountId: account.id, userId: account.userId, success: true });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const expired = !!account.tokenExpiresAt && account.tokenExpiresAt <= now;
+
+      console.error(`❌ Failed to refresh Threads token for @${account.username}:`, error);
+
+      // 期限切れのアカウントは投稿に使えないため無効化
+      if (expired) {
+        await prisma.threadsAccount.update({
+          where: { id: account.id },
+          data: { isActive: false }
+        });
+      }
+
+      // 同じアカウント・同じ理由の未読の通知があれば、毎回の更新で通知を増やさない
+      const reason = expired ? 'expired' : 'refresh_failed';
+      const unreadNotification = await prisma.notification.findFirst({
+        where: {
+          category: 'threads',
+          isRead: false,
+          AND: [
+            { data: { contains: `"threadsAccountId":"${account.id}"` } },
+            { data: { contains: `"reason":"${reason}"` } }
+          ]
+        }
+      });
+
+      if (!unreadNotification) {
+        await prisma.notification.create({
+          data: {
+            title: 'Threadsトークン更新失敗',
+            message: expired
+              ? `@${account.username} のアクセストークンが期限切れです。アカウントを再連携してください`
+              : `@${account.username} のアクセストークン更新に失敗しました: ${message}`,
+            type: 'error',
+            priority: expired ? 'urgent' : 'high',
+            category: 'threads',
+            data: JSON.stringify({
+              userId: account.userId,
+              threadsAccountId: account.id,
+              reason,
+              tokenExpiresAt: account.tokenExpiresAt?.toISOString() || null,
+              error: message
+            })
+          }
+        });
+      }
+
+      await prisma.adminLog.create({
+        data: {
+          userId: account.userId,
+          action: 'threads_token_refresh_failed',
+          details: `Threads token refresh failed for @${account.username}: ${message}`
+        }
+      });
+
+      results.push({ accountId: account.id, userId: account.userId, success: false, error: message });
+    }
+  }
+
+  return results;
+}
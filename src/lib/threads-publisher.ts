@@ -0,0 +1,308 @@
+import { prisma } from './prisma';
+import { ThreadsApiError, ThreadsClient } from './threads-client';
+import { decryptToken } from './token-crypto';
+import {
+  assertValidContent,
+  CONTENT_VALIDATION_ERROR_MESSAGE,
+  ContentValidationError,
+  validateThreadContent
+} from './content-validator';
+import type { ContentIssue } from './content-rules';
+import { getMediaPublicUrls, MediaError, MediaErrorKind } from './media-storage';
+
+export type ThreadsAccountErrorReason = 'not_linked' | 'inactive' | 'expired';
+
+export interface ThreadsPublishFailure {
+  status: number;
+  error: string;
+  errorKind: string;
+  message: string;
+  issues?: ContentIssue[]; // 投稿ルール違反の場合の内容
+  thread?: ThreadPublishProgress; // スレッド投稿の途中で失敗した場合の公開状況
+}
+
+export interface ThreadPublishProgress {
+  publishedSegments: number;
+  totalSegments: number;
+  failedPosition?: number; // 失敗したセグメント（0始まり）
+}
+
+export interface ThreadsPublishOutcome {
+  mode: 'live' | 'demo';
+  threadsPostId: string; // スレッド投稿の場合は最初のセグメントの投稿ID
+  username?: string;
+  thread?: ThreadPublishProgress;
+}
+
+// 公開する添付メディア（アップロードディレクトリ内のファイル）
+interface PublishMedia {
+  fileName: string;
+  mediaType: string;
+}
+
+// 投稿者のThreadsアカウントが使えない場合のエラー
+export class ThreadsAccountError extends Error {
+  readonly reason: ThreadsAccountErrorReason;
+  readonly userId: string;
+
+  constructor(userId: string, reason: ThreadsAccountErrorReason) {
+    super(
+      reason === 'not_linked'
+        ? `Threads account is not linked for user ${userId}`
+        : `Threads account for user ${userId} is ${reason}`
+    );
+    this.name = 'ThreadsAccountError';
+    this.reason = reason;
+    this.userId = userId;
+  }
+}
+
+// スレッド投稿の途中で公開に失敗した場合のエラー
+// 公開済みのセグメントは保存されているため、もう一度公開すると失敗したセグメントから再開する
+export class ThreadPublishError extends Error {
+  readonly postId: string;
+  readonly progress: ThreadPublishProgress;
+  readonly failure: unknown; // 失敗したセグメントの公開で発生したエラー
+
+  constructor(postId: string, progress: ThreadPublishProgress, failure: unknown) {
+    super(
+      `Thread publish stopped at segment ${(progress.failedPosition ?? 0) + 1}/${progress.totalSegments}: ${failure instanceof Error ? failure.message : 'Unknown error'}`
+    );
+    this.name = 'ThreadPublishError';
+    this.postId = postId;
+    this.progress = progress;
+    this.failure = failure;
+  }
+}
+
+// デモモード（THREADS_DEMO_MODE=true）では未連携ユーザーの投稿をシミュレーションする
+export function isThreadsDemoMode(): boolean {
+  return process.env.THREADS_DEMO_MODE === 'true';
+}
+
+// ユーザーの連携済みThreadsアカウントからクライアントを生成
+export async function getThreadsClientForUser(userId: string): Promise<{ client: ThreadsClient; username: string }> {
+  const account = await prisma.threadsAccount.findUnique({
+    where: { userId }
+  });
+
+  if (!account) {
+    throw new ThreadsAccountError(userId, 'not_linked');
+  }
+
+  if (!account.isActive) {
+    throw new ThreadsAccountError(userId, 'inactive');
+  }
+
+  if (account.tokenExpiresAt && account.tokenExpiresAt <= new Date()) {
+    throw new ThreadsAccountError(userId, 'expired');
+  }
+
+  return {
+    client: new ThreadsClient({
+      accessToken: decryptToken(account.accessToken),
+      userId: account.threadsUserId
+    }),
+    username: account.username
+  };
+}
+
+// 投稿者のアカウントでテキストを公開（media を渡すと画像・動画・カルーセルとして公開）
+// 公開前に投稿ルールを確認し、違反があれば ContentValidationError を投げる
+// 公開する投稿が既に保存されている場合は postId を渡し、重複確認の対象から除外する
+export async function publishTextForUser(
+  userId: string,
+  text: string,
+  options: { postId?: string; media?: PublishMedia[] } = {}
+): Promise<ThreadsPublishOutcome> {
+  await assertValidContent(text, { userId, excludePostId: options.postId });
+  return publishWithAccount(userId, text, { media: options.media });
+}
+
+// 投稿者のアカウントで公開（投稿ルールの確認は呼び出し側で行う）
+// メディアの公開URLはデモモードでは使わないため、アカウントを確認してから組み立てる
+async function publishWithAccount(
+  userId: string,
+  text: string,
+  options: { replyToId?: string; media?: PublishMedia[] } = {}
+): Promise<ThreadsPublishOutcome> {
+  try {
+    const { client, username } = await getThreadsClientForUser(userId);
+    const media = await getMediaPublicUrls(options.media || []);
+    const { threadsPostId } = await client.publishWithMedia(text, media, { replyToId: options.replyToId });
+
+    return { mode: 'live', threadsPostId, username };
+  } catch (error) {
+    if (error instanceof ThreadsAccountError && error.reason === 'not_linked' && isThreadsDemoMode()) {
+      console.log(`📝 Threads Demo Mode - Simulating post for user ${userId}`);
+      return { mode: 'demo', threadsPostId: `demo_${Date.now()}` };
+    }
+
+    throw error;
+  }
+}
+
+// スレッド投稿（返信チェーン）を公開
+// 未公開のセグメントを順番に1つ前のセグメントへの返信として公開し、公開するたびに投稿IDを保存する
+// 途中で失敗した場合は ThreadPublishError を投げる。もう一度呼ぶと公開済みのセグメントを飛ばして続きから公開する
+// 添付メディアは最初のセグメントに付けて公開する
+export async function publishThreadForPost(post: { id: string; userId: string }): Promise<ThreadsPublishOutcome> {
+  const [segments, media] = await Promise.all([
+    prisma.postSegment.findMany({
+      where: { postId: post.id },
+      orderBy: { position: 'asc' }
+    }),
+    getPostMedia(post.id)
+  ]);
+
+  // 途中で止まらないよう、公開を始める前に未公開のセグメントをまとめて確認
+  const validation = await validateThreadContent(
+    segments.filter(segment => !segment.threadsPostId),
+    { userId: post.userId, excludePostId: post.id }
+  );
+  if (!validation.valid) {
+    throw new ContentValidationError(validation);
+  }
+
+  let replyToId: string | undefined;
+  let rootThreadsPostId = segments[0]?.threadsPostId || undefined;
+  let mode: ThreadsPublishOutcome['mode'] = rootThreadsPostId?.startsWith('demo_') ? 'demo' : 'live';
+  let username: string | undefined;
+
+  for (const [index, segment] of segments.entries()) {
+    if (segment.threadsPostId) {
+      replyToId = segment.threadsPostId;
+      continue;
+    }
+
+    let outcome: ThreadsPublishOutcome;
+    try {
+      outcome = await publishWithAccount(post.userId, segment.content, {
+        replyToId,
+        media: index === 0 ? media : []
+      });
+    } catch (error) {
+      await prisma.postSegment.update({
+        where: { id: segment.id },
+        data: { error: error instanceof Error ? error.message : 'Unknown error' }
+      });
+
+      throw new ThreadPublishError(
+        post.id,
+        { publishedSegments: index, totalSegments: segments.length, failedPosition: segment.position },
+        error
+      );
+    }
+
+    await prisma.postSegment.update({
+      where: { id: segment.id },
+      data: { threadsPostId: outcome.threadsPostId, publishedAt: new Date(), error: null }
+    });
+
+    replyToId = outcome.threadsPostId;
+    rootThreadsPostId ??= outcome.threadsPostId;
+    mode = outcome.mode;
+    username = outcome.username;
+  }
+
+  if (!rootThreadsPostId) {
+    throw new Error(`Post ${post.id} has no thread segments`);
+  }
+
+  return {
+    mode,
+    threadsPostId: rootThreadsPostId,
+    username,
+    thread: { publishedSegments: segments.length, totalSegments: segments.length }
+  };
+}
+
+function getPostMedia(postId: string) {
+  return prisma.postMedia.findMany({
+    where: { postId },
+    orderBy: { position: 'asc' },
+    select: { fileName: true, mediaType: true }
+  });
+}
+
+// 保存済みの投稿を公開（セグメントがあればスレッドとして、なければ単独の投稿として公開）
+export async function publishPostForUser(post: { id: string; userId: string; content: string }): Promise<ThreadsPublishOutcome> {
+  const segmentCount = await prisma.postSegment.count({ where: { postId: post.id } });
+
+  return segmentCount > 0
+    ? publishThreadForPost(post)
+    : publishTextForUser(post.userId, post.content, { postId: post.id, media: await getPostMedia(post.id) });
+}
+
+const MEDIA_ERROR_MESSAGES: Record<MediaErrorKind, string> = {
+  invalid_file: '添付メディアの形式またはサイズが正しくありません',
+  not_found: '添付メディアのファイルが見つかりません',
+  public_url_missing: 'メディアの公開URLが設定されていません（システム設定の media_public_base_url）'
+};
+
+const ACCOUNT_ERROR_MESSAGES: Record<ThreadsAccountErrorReason, string> = {
+  not_linked: 'Threadsアカウントが連携されていません',
+  inactive: 'Threadsアカウントが無効化されています',
+  expired: 'Threadsアカウントのアクセストークンが期限切れです'
+};
+
+// 投稿失敗をAPIレスポンス用に整形
+export function describePublishError(error: unknown): ThreadsPublishFailure {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  // スレッド投稿は失敗したセグメントのエラーに公開状況を付ける
+  if (error instanceof ThreadPublishError) {
+    const failure = describePublishError(error.failure);
+    const { publishedSegments, totalSegments, failedPosition = 0 } = error.progress;
+
+    return {
+      ...failure,
+      message: `${failedPosition + 1}/${totalSegments}件目で失敗（${publishedSegments}件公開済み）: ${failure.message}`,
+      thread: error.progress
+    };
+  }
+
+  if (error instanceof ContentValidationError) {
+    return {
+      status: 422,
+      error: CONTENT_VALIDATION_ERROR_MESSAGE,
+      errorKind: 'content_invalid',
+      message,
+      issues: error.result.issues
+    };
+  }
+
+  if (error instanceof MediaError) {
+    return {
+      status: 409,
+      error: MEDIA_ERROR_MESSAGES[error.kind],
+      errorKind: `media_${error.kind}`,
+      message
+    };
+  }
+
+  if (error instanceof ThreadsAccountError) {
+    return {
+      status: 409,
+      error: ACCOUNT_ERROR_MESSAGES[error.reason],
+      errorKind: `account_${error.reason}`,
+      message
+    };
+  }
+
+  if (error instanceof ThreadsApiError) {
+    return {
+      status: error.kind === 'rate_limit' ? 429 : 502,
+      error: 'Threads投稿に失敗しました',
+      errorKind: error.kind,
+      message
+    };
+  }
+
+  return {
+    status: 500,
+    error: 'Threads投稿に失敗しました',
+    errorKind: 'unknown',
+    message
+  };
+}
@@ -0,0 +1,189 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { prisma } from './prisma';
+
+// ThreadsAccount のトークンを保存時に暗号化する（AES-256-GCM）
+// 保存形式: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>（いずれもbase64url）
+//
+// 鍵は環境変数で指定する
+//   THREADS_TOKEN_ENCRYPTION_KEYS="2026-10:<base64の32バイト鍵>,2026-01:<旧鍵>"
+//   THREADS_TOKEN_ENCRYPTION_KEY_ID="2026-10"（省略時は先頭の鍵）
+// 旧鍵はローテーション完了まで復号用に残しておく
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenEncryptionError';
+  }
+}
+
+export interface TokenKeyRotationResult {
+  keyId: string;
+  total: number;
+  reencrypted: number;
+  skipped: number;
+  failed: { accountId: string; error: string }[];
+}
+
+interface TokenKeyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+// 環境変数から鍵束を読み込む
+function loadKeyring(): TokenKeyring {
+  const raw = process.env.THREADS_TOKEN_ENCRYPTION_KEYS;
+  if (!raw) {
+    throw new TokenEncryptionError('THREADS_TOKEN_ENCRYPTION_KEYS must be set to store Threads tokens');
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of raw.split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (!keyId || key.length !== 32) {
+      throw new TokenEncryptionError(`Invalid token encryption key entry: ${keyId || '(missing key id)'}`);
+    }
+    keys.set(keyId, key);
+  }
+
+  const currentKeyId = process.env.THREADS_TOKEN_ENCRYPTION_KEY_ID || keys.keys().next().value;
+  if (!currentKeyId || !keys.has(currentKeyId)) {
+    throw new TokenEncryptionError(`Token encryption key "${currentKeyId}" is not configured`);
+  }
+
+  return { currentKeyId, keys };
+}
+
+// 現在の鍵IDを取得
+export function getCurrentTokenKeyId(): string {
+  return loadKeyring().currentKeyId;
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+// 暗号化済みの値から鍵IDを取得（平文の場合は null）
+export function getTokenKeyId(value: string): string | null {
+  if (!isEncryptedToken(value)) return null;
+  return value.slice(ENCRYPTED_PREFIX.length).split(':')[0] || null;
+}
+
+// トークンを現在の鍵で暗号化
+export function encryptToken(plaintext: string): string {
+  const { currentKeyId, keys } = loadKeyring();
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, keys.get(currentKeyId)!, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return `${ENCRYPTED_PREFIX}${[
+    currentKeyId,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join(':')}`;
+}
+
+// トークンを復号（暗号化導入前の平文はそのまま返す）
+export function decryptToken(value: string): string {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+
+  const [keyId, iv, authTag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (!keyId || !iv || !authTag || ciphertext === undefined) {
+    throw new TokenEncryptionError('Malformed encrypted token');
+  }
+
+  const key = loadKeyring().keys.get(keyId);
+  if (!key) {
+    throw new TokenEncryptionError(`Token encryption key "${keyId}" is not configured`);
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch {
+    throw new TokenEncryptionError(`Failed to decrypt token with key "${keyId}"`);
+  }
+}
+
+export function encryptOptionalToken(plaintext: string | null | undefined): string | null {
+  return plaintext ? encryptToken(plaintext) : null;
+}
+
+export function decryptOptionalToken(value: string | null | undefined): string | null {
+  return value ? decryptToken(value) : null;
+}
+
+// APIレスポンス用にトークンをマスク（先頭4文字と末尾4文字のみ表示）
+export function maskToken(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  let plaintext: string;
+  try {
+    plaintext = decryptToken(value);
+  } catch {
+    return '********';
+  }
+
+  if (plaintext.length <= 12) {
+    return '********';
+  }
+  return `${plaintext.slice(0, 4)}…${plaintext.slice(-4)}`;
+}
+
+// 全アカウントのトークンを現在の鍵で再暗号化
+export async function reencryptThreadsAccountTokens(): Promise<TokenKeyRotationResult> {
+  const keyId = getCurrentTokenKeyId();
+  const accounts = await prisma.threadsAccount.findMany({
+    select: { id: true, accessToken: true, refreshToken: true }
+  });
+
+  const result: TokenKeyRotationResult = {
+    keyId,
+    total: accounts.length,
+    reencrypted: 0,
+    skipped: 0,
+    failed: []
+  };
+
+  for (const account of accounts) {
+    const upToDate =
+      getTokenKeyId(account.accessToken) === keyId &&
+      (!account.refreshToken || getTokenKeyId(account.refreshToken) === keyId);
+
+    if (upToDate) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      await prisma.threadsAccount.update({
+        where: { id: account.id },
+        data: {
+          accessToken: encryptToken(decryptToken(account.accessToken)),
+          refreshToken: encryptOptionalToken(decryptOptionalToken(account.refreshToken))
+        }
+      });
+      result.reencrypted++;
+    } catch (error) {
+      result.failed.push({
+        accountId: account.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return result;
+}
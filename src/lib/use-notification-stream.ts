@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+// 通知・インシデントの server-sent events（/api/admin/notifications/stream）を購読するクライアント用フック
+// 画面内の複数のコンポーネントで1本の接続を共有し、購読がなくなったら閉じる
+
+const STREAM_URL = '/api/admin/notifications/stream';
+
+// サーバーにエラーで閉じられた場合に接続し直すまでの待ち時間
+const RECONNECT_DELAY_MS = 5000;
+
+export type NotificationStreamEventType = 'unread_count' | 'notification' | 'incident';
+
+export interface NotificationStreamHandlers<TNotification = unknown, TIncident = unknown> {
+  onUnreadCount?: (count: number) => void;
+  onNotification?: (change: 'created' | 'updated', notification: TNotification) => void;
+  onIncident?: (incident: TIncident) => void;
+}
+
+type StreamListener = (type: NotificationStreamEventType, data: unknown) => void;
+
+const listeners = new Set<StreamListener>();
+let eventSource: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let lastEventId = '';
+
+function connect() {
+  const url = lastEventId ? `${STREAM_URL}?lastEventId=${encodeURIComponent(lastEventId)}` : STREAM_URL;
+  const source = new EventSource(url);
+
+  const dispatch = (type: NotificationStreamEventType) => (event: MessageEvent<string>) => {
+    if (event.lastEventId) lastEventId = event.lastEventId;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    listeners.forEach(listener => listener(type, data));
+  };
+
+  source.addEventListener('unread_count', dispatch('unread_count'));
+  source.addEventListener('notification', dispatch('notification'));
+  source.addEventListener('incident', dispatch('incident'));
+
+  // 通信断はブラウザが Last-Event-ID 付きで再接続する
+  // エラー応答などで閉じられた場合は、受信済みのイベントIDを付けて接続し直す
+  source.onerror = () => {
+    if (source.readyState !== EventSource.CLOSED || eventSource !== source) return;
+    eventSource = null;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      if (listeners.size > 0 && !eventSource) {
+        eventSource = connect();
+      }
+    }, RECONNECT_DELAY_MS);
+  };
+
+  return source;
+}
+
+function subscribe(listener: StreamListener): () => void {
+  listeners.add(listener);
+  if (!eventSource && !reconnectTimer) {
+    eventSource = connect();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    eventSource?.close();
+    eventSource = null;
+  };
+}
+
+// handlers はレンダーごとに変わってもよい（接続は張り直さない）
+export function useNotificationStream<TNotification = unknown, TIncident = unknown>(
+  handlers: NotificationStreamHandlers<TNotification, TIncident>,
+  enabled = true
+) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return subscribe((type, data) => {
+      const current = handlersRef.current;
+      if (type === 'unread_count') {
+        current.onUnreadCount?.((data as { count: number }).count);
+      } else if (type === 'notification') {
+        const { change, notification } = data as { change: 'created' | 'updated'; notification: TNotification };
+        current.onNotification?.(change, notification);
+      } else {
+        current.onIncident?.(data as TIncident);
+      }
+    });
+  }, [enabled]);
+}
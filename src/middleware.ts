@@ -40,6 +40,11 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Uploaded media must be reachable by Threads servers when publishing (file names are random)
+  if (request.nextUrl.pathname.startsWith('/media/')) {
+    return NextResponse.next();
+  }
+
   // Check IP allowlist
   if (!checkIPAllowed(request)) {
     return new NextResponse('Access denied from this IP', { 